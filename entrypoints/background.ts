@@ -9,8 +9,22 @@ import {
   isLongSession,
   getRandomNudgeMessage,
 } from '../lib/nudge';
-import { saveEntry } from '../lib/db';
+import { db, saveEntry, purgeExpiredEntries } from '../lib/db';
 import { syncGitHubPRs, getGitHubSyncStatus, type SyncStatus } from '../lib/github';
+import {
+  enqueueEmbeddingJobs,
+  queueDueDigests,
+  queueEnrichment,
+  queueUnembeddedEntries,
+  queueUnembeddedPRs,
+} from '../lib/jobs';
+import {
+  DIGEST_ALARM,
+  DIGEST_NOTIFICATION_PREFIX,
+  formatDigestPeriod,
+  scheduleDigestAlarm,
+  setDigestToOpen,
+} from '../lib/digest-settings';
 
 export default defineBackground(() => {
   console.log('WorthKeeping: Background script starting...');
@@ -18,8 +32,50 @@ export default defineBackground(() => {
   // Initialize session tracking
   startSession();
 
+  // Purge entries that have outlived the trash retention period
+  purgeExpiredEntries().catch((err) => console.error('WorthKeeping: Failed to purge trash', err));
+
+  // Job runner lives in an offscreen document - Transformers.js needs a DOM context
+  // for WASM, which the service worker can't provide. AI jobs (entry suggestions,
+  // digests) run there too so the service worker never loads the AI SDK.
+  let creatingOffscreen: Promise<void> | null = null;
+
+  async function ensureOffscreenDocument(): Promise<void> {
+    if (await browser.offscreen.hasDocument()) return;
+
+    if (!creatingOffscreen) {
+      creatingOffscreen = browser.offscreen
+        .createDocument({
+          url: browser.runtime.getURL('/offscreen.html'),
+          reasons: ['WORKERS'],
+          justification:
+            'Run background jobs: on-device embeddings for semantic search, and AI calls for entry suggestions and digests',
+        })
+        .finally(() => {
+          creatingOffscreen = null;
+        });
+    }
+    await creatingOffscreen;
+  }
+
+  // Make sure the job runner is up and tell it to drain the queue
+  async function processJobs(): Promise<void> {
+    try {
+      await ensureOffscreenDocument();
+      await browser.runtime.sendMessage({ type: 'RUN_JOBS' });
+    } catch (err) {
+      console.error('WorthKeeping: Failed to start job runner', err);
+    }
+  }
+
+  // Pick up anything captured or imported while nothing was running
+  Promise.all([queueUnembeddedEntries(), queueUnembeddedPRs(), queueEnrichment(), queueDueDigests()])
+    .then(() => processJobs())
+    .catch((err) => console.error('WorthKeeping: Failed to queue embeddings', err));
+
   // Track when browser window gains focus (user returns after being away)
   let lastActiveTime = Date.now();
+  let focusedWindowId: number | null = null;
   let windowFocusCheckInterval: ReturnType<typeof setInterval> | null = null;
 
   // Helper to send message to active tab
@@ -96,8 +152,12 @@ export default defineBackground(() => {
     if (message.type === 'SAVE_ENTRY') {
       // Save entry in background context (has extension IndexedDB access)
       saveEntry(message.text, message.context)
-        .then((entry) => {
+        .then(async (entry) => {
           console.log('WorthKeeping: Entry saved', entry.id);
+          // Embed right away so it's searchable even if the side panel never opens
+          await enqueueEmbeddingJobs([entry.id]);
+          await queueEnrichment();
+          processJobs();
           // Track nudge acceptance if this came from a nudge
           if (message.fromNudge) {
             recordNudgeAccepted();
@@ -111,6 +171,23 @@ export default defineBackground(() => {
       return true; // Keep channel open for async response
     }
 
+    if (message.type === 'PROCESS_JOBS') {
+      processJobs().then(() => sendResponse({ success: true }));
+      return true;
+    }
+
+    if (message.type === 'SCHEDULE_DIGEST') {
+      runDigestSchedule().then(() => sendResponse({ success: true }));
+      return true;
+    }
+
+    if (message.type === 'DIGEST_READY') {
+      showDigestNotification(message.digestId)
+        .catch((err) => console.error('WorthKeeping: Failed to show digest notification', err))
+        .finally(() => sendResponse({ success: true }));
+      return true;
+    }
+
     if (message.type === 'NUDGE_DISMISSED') {
       recordNudgeDismissed();
       sendResponse({ success: true });
@@ -134,6 +211,11 @@ export default defineBackground(() => {
           isGitHubSyncing = false;
           console.log('WorthKeeping: GitHub sync complete', result);
           sendResponse(result);
+
+          // Embed new or changed PRs so they show up in search
+          if (result.success && result.newPRs > 0) {
+            queueUnembeddedPRs().then(() => processJobs());
+          }
         })
         .catch((err) => {
           isGitHubSyncing = false;
@@ -157,6 +239,64 @@ export default defineBackground(() => {
     }
   });
 
+  // Alarms may not survive a browser restart, so set the digest alarm every time
+  scheduleDigestAlarm().catch((err) => console.error('WorthKeeping: Failed to schedule digest', err));
+
+  // Write the digest for the period that just ended and set the next alarm
+  async function runDigestSchedule(): Promise<void> {
+    try {
+      await scheduleDigestAlarm();
+      if (await queueDueDigests()) await processJobs();
+    } catch (err) {
+      console.error('WorthKeeping: Failed to queue digest', err);
+    }
+  }
+
+  browser.alarms.onAlarm.addListener((alarm) => {
+    if (alarm.name === DIGEST_ALARM) runDigestSchedule();
+  });
+
+  async function showDigestNotification(digestId: string): Promise<void> {
+    const digest = await db.digests.get(digestId);
+    if (!digest) return;
+
+    const counts = [
+      digest.entryCount > 0 ? `${digest.entryCount} ${digest.entryCount === 1 ? 'entry' : 'entries'}` : '',
+      digest.prCount > 0 ? `${digest.prCount} ${digest.prCount === 1 ? 'PR' : 'PRs'}` : '',
+    ].filter(Boolean);
+
+    await browser.notifications.create(`${DIGEST_NOTIFICATION_PREFIX}${digest.id}`, {
+      type: 'basic',
+      iconUrl: browser.runtime.getURL('/icon/128.png'),
+      title: `Your ${digest.frequency} digest is ready`,
+      message: `${formatDigestPeriod(digest.frequency, digest.periodStart)} · ${counts.join(', ')}`,
+    });
+  }
+
+  // Open the digest in the side panel
+  browser.notifications.onClicked.addListener((notificationId) => {
+    if (!notificationId.startsWith(DIGEST_NOTIFICATION_PREFIX)) return;
+    const digestId = notificationId.slice(DIGEST_NOTIFICATION_PREFIX.length);
+
+    // The click only counts as a user gesture until the first await, so use
+    // the window we already know about when there is one
+    const opening =
+      focusedWindowId !== null
+        ? browser.sidePanel.open({ windowId: focusedWindowId })
+        : browser.windows.getLastFocused().then((win) => browser.sidePanel.open({ windowId: win.id! }));
+
+    browser.notifications.clear(notificationId);
+    setDigestToOpen(digestId)
+      .then(() => opening)
+      .catch(async (err) => {
+        console.log('WorthKeeping: Could not open the side panel, opening a tab instead:', err);
+        await browser.tabs.create({ url: browser.runtime.getURL('/sidepanel.html') });
+      })
+      // Already open - the panel only checks for a digest to show when it loads
+      .then(() => browser.runtime.sendMessage({ type: 'OPEN_DIGEST', digestId }))
+      .catch(() => {});
+  });
+
   // Track tab removals - many tabs closed = session ending
   browser.tabs.onRemoved.addListener(async () => {
     const thresholdReached = await recordTabClosed();
@@ -172,6 +312,7 @@ export default defineBackground(() => {
       // Browser lost focus
       lastActiveTime = Date.now();
     } else {
+      focusedWindowId = windowId;
       // Browser gained focus - check if user was away
       const awayMinutes = (Date.now() - lastActiveTime) / 1000 / 60;
       if (awayMinutes >= 5) {
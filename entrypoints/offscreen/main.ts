@@ -0,0 +1,58 @@
+import { registerJobHandler, runJobs, queueEnrichment } from '../../lib/jobs';
+import { embedEntryById, embedPRById } from '../../lib/embeddings';
+import { buildVectorIndex } from '../../lib/vector-index';
+import { enrichNextBatch } from '../../lib/enrichment';
+import { generateDigest } from '../../lib/digests';
+import type { DigestFrequency } from '../../lib/digest-settings';
+import { AIBudgetError } from '../../lib/usage';
+
+// Offscreen document - runs the job queue with full DOM/WASM support,
+// which the background service worker lacks for Transformers.js.
+
+registerJobHandler('embed-entry', async (payload) => {
+  await embedEntryById(payload.entryId as string);
+});
+
+registerJobHandler('embed-pr', async (payload) => {
+  await embedPRById(payload.prId as string);
+});
+
+registerJobHandler('build-vector-index', async (payload) => {
+  await buildVectorIndex(payload.model as string);
+});
+
+registerJobHandler('enrich-entries', async () => {
+  try {
+    const { remaining } = await enrichNextBatch();
+    if (remaining > 0) await queueEnrichment();
+  } catch (err) {
+    // Retrying won't help until the budget is raised - the next capture queues it again
+    if (!(err instanceof AIBudgetError)) throw err;
+    console.log('WorthKeeping: Skipping entry enrichment -', err.message);
+  }
+});
+
+registerJobHandler('generate-digest', async (payload) => {
+  try {
+    const digest = await generateDigest(
+      payload.frequency as DigestFrequency,
+      payload.periodStart as number,
+      payload.periodEnd as number
+    );
+    // The background shows the notification - offscreen documents can't
+    if (digest) await browser.runtime.sendMessage({ type: 'DIGEST_READY', digestId: digest.id });
+  } catch (err) {
+    // The next alarm or browser start queues it again
+    if (!(err instanceof AIBudgetError)) throw err;
+    console.log('WorthKeeping: Skipping digest -', err.message);
+  }
+});
+
+browser.runtime.onMessage.addListener((message) => {
+  if (message.type === 'RUN_JOBS') {
+    runJobs();
+  }
+});
+
+console.log('WorthKeeping: Offscreen job runner ready');
+runJobs();
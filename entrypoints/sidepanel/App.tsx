@@ -1,7 +1,78 @@
-import { createSignal, For, Show, onMount, createMemo } from 'solid-js';
-import { db, type MemoryEntry, deleteEntry } from '../../lib/db';
+import { createSignal, For, Show, onMount, onCleanup, createEffect, createMemo } from 'solid-js';
+import {
+  db,
+  type MemoryEntry,
+  type EntryScope,
+  type EntryRevision,
+  type GitHubPR,
+  type ChatMessage,
+  type ChatSession,
+  type StarStory,
+  type EntryCategory,
+  type EntrySuggestion,
+  type Digest,
+  ENTRY_CATEGORIES,
+  trashEntry,
+  restoreEntry,
+  purgeEntry,
+  emptyTrash,
+  purgeExpiredEntries,
+  getTrashRetentionDays,
+  setTrashRetentionDays,
+  filterEntriesByScope,
+  updateEntry,
+  getEntryRevisions,
+  restoreEntryRevision,
+  importEntries,
+  getGitHubPRs,
+  getGitHubPRsInRange,
+} from '../../lib/db';
 import { liveQuery } from 'dexie';
-import { semanticSearch, processUnembeddedEntries, preloadModel } from '../../lib/embeddings';
+import { preloadModel, getTimeRange } from '../../lib/embeddings';
+import {
+  buildSummarizedReviewPrompt,
+  clearSummaryCache,
+  type SummaryGranularity,
+  type SummaryProgress,
+} from '../../lib/summaries';
+import {
+  DEFAULT_REVIEW_TOKEN_BUDGET,
+  getReviewTokenBudget,
+  setReviewTokenBudget,
+  getModelContextWindow,
+  type ContextReport,
+} from '../../lib/context';
+import {
+  MIN_INDEX_SIZE,
+  getVectorIndexStatus,
+  requestVectorIndexBuild,
+  benchmarkVectorIndex,
+  type VectorIndexStatus,
+  type BenchmarkResult,
+} from '../../lib/vector-index';
+import {
+  buildSearchIndex,
+  hybridSearch,
+  highlightSegments,
+  type SearchResult,
+  type SearchOptions,
+} from '../../lib/search';
+import {
+  EMBEDDING_MODELS,
+  DEFAULT_EMBEDDING_MODEL,
+  getEmbeddingModel,
+  setEmbeddingModel,
+} from '../../lib/embedding-models';
+import {
+  enqueueEmbeddingJobs,
+  queueEnrichment,
+  queueUnembeddedEntries,
+  queueUnembeddedPRs,
+  requestJobProcessing,
+  getJobProgress,
+  retryFailedJobs,
+  type JobProgress,
+} from '../../lib/jobs';
 import {
   getAIConfig,
   saveAIConfig,
@@ -9,8 +80,64 @@ import {
   testAPIKey,
   buildReviewPrompt,
   streamAI,
+  isLocalProvider,
+  previewOutgoingPrompt,
+  getFallbackProviders,
+  saveFallbackProviders,
+  AIAuthError,
+  DEFAULT_MODELS,
+  PROVIDER_NAMES,
+  type AIConfig,
   type AIProvider,
+  type OutgoingPreview,
+  type ProviderTag,
 } from '../../lib/ai';
+import {
+  BROWSER_MODELS,
+  DEFAULT_OLLAMA_URL,
+  getOllamaOriginPattern,
+  listOllamaModels,
+  loadBrowserModel,
+  type OllamaModel,
+} from '../../lib/local-ai';
+import {
+  ENRICH_BATCH_SIZE,
+  acceptSuggestion,
+  getOpenSuggestions,
+  getPendingEnrichmentCount,
+  isRewriteCurrent,
+  dismissSuggestion,
+  type SuggestionKind,
+} from '../../lib/enrichment';
+import { enrichEarlierEntries, getEnrichmentSettings, setEnrichmentEnabled } from '../../lib/enrichment-settings';
+import {
+  buildDigestReviewPrompt,
+  deleteDigest,
+  filterDigestsByRange,
+  getDigests,
+  markDigestRead,
+  selectReviewDigests,
+} from '../../lib/digests';
+import {
+  formatDigestPeriod,
+  getDigestPeriod,
+  getDigestSettings,
+  MAX_CATCH_UP_PERIODS,
+  requestDigestSchedule,
+  saveDigestSettings,
+  takeDigestToOpen,
+  type DigestFrequency,
+  type DigestSettings,
+} from '../../lib/digest-settings';
+import {
+  DETECTORS,
+  createRedactor,
+  getRedactionSettings,
+  saveRedactionSettings,
+  validateRedactionPatterns,
+  type DetectorId,
+  type RedactionSettings,
+} from '../../lib/redact';
 import {
   getGitHubPAT,
   saveGitHubPAT,
@@ -20,13 +147,86 @@ import {
   getPRsForTimeRange,
   type SyncStatus,
 } from '../../lib/github';
-import { exportPRsToCSV, downloadCSV, generateExportFilename } from '../../lib/export';
+import {
+  exportPRsToCSV,
+  exportBragDocument,
+  exportStarStories,
+  exportEntriesToCSV,
+  downloadCSV,
+  downloadFile,
+  generateExportFilename,
+  type BragDocGrouping,
+} from '../../lib/export';
+import {
+  parseEntriesCSV,
+  parseJournal,
+  mergeParsedImports,
+  buildImportPreview,
+  type ImportPreview,
+} from '../../lib/import';
+import { createBackup, serializeBackup, parseBackup, restoreBackup, type RestoreMode } from '../../lib/backup';
 import {
   computeLocalInsights,
   parseTimeFromQuery,
   extractKeywords,
 } from '../../lib/insights';
 import { autoSeedIfDev, forceReseed, clearDatabase } from '../../lib/seed';
+import { renderCitations, type CitationMap, type CitationRef } from '../../lib/citations';
+import { generateStarStories, getStarStories, updateStarStory, deleteStarStory } from '../../lib/stories';
+import {
+  getChatSessions,
+  createChatSession,
+  saveChatSession,
+  renameChatSession,
+  duplicateChatSession,
+  deleteChatSession,
+  getChatHistory,
+  getSessionCitations,
+  getSessionTitle,
+  buildFollowUpPrompt,
+} from '../../lib/chat';
+import {
+  BUILT_IN_TEMPLATES,
+  TEMPLATE_VARIABLES,
+  getPromptTemplates,
+  getSelectedTemplate,
+  setSelectedTemplate,
+  saveCustomTemplate,
+  deleteCustomTemplate,
+  exportTemplates,
+  importTemplates,
+  parseQuickPrompts,
+  formatQuickPrompts,
+  formatTimeRange,
+  type PromptTemplate,
+} from '../../lib/templates';
+import {
+  parseRubric,
+  getRubric,
+  saveRubric,
+  removeRubric,
+  getTargetLevel,
+  setTargetLevel,
+  classifyCompetencies,
+  getCompetencyCoverage,
+  type Rubric,
+  type CoverageReport,
+  type ClassificationProgress,
+} from '../../lib/competencies';
+import {
+  AIBudgetError,
+  FEATURE_NAMES,
+  LARGE_PROMPT_TOKENS,
+  estimatePromptCost,
+  formatCost,
+  getUsageSummary,
+  savePriceTable,
+  resetPriceTable,
+  getPriceTable,
+  setMonthlyBudget,
+  clearUsage,
+  type UsageSummary,
+} from '../../lib/usage';
 import { marked } from 'marked';
 
 // Configure marked for safe rendering
@@ -35,17 +235,21 @@ marked.setOptions({
   gfm: true,
 });
 
-type ViewType = 'insights' | 'history' | 'search' | 'review' | 'settings';
+type ViewType = 'insights' | 'history' | 'search' | 'review' | 'settings' | 'trash';
 type TabType = 'today' | 'week' | 'all';
 type TimeRange = 'week' | 'month' | 'quarter' | 'year' | 'all';
+type ReviewMode = 'chat' | 'stories' | 'competencies' | 'digests';
 
-// Chat message type
-interface ChatMessage {
-  role: 'user' | 'assistant';
-  content: string;
-  entriesUsed?: number;
-  prsUsed?: number;
-}
+// Editable parts of a STAR story, in order
+const STORY_PARTS = [
+  { key: 'situation', label: 'Situation' },
+  { key: 'task', label: 'Task' },
+  { key: 'action', label: 'Action' },
+  { key: 'result', label: 'Result' },
+] as const;
+
+// Evidence chips shown per competency before "+N more"
+const MAX_EVIDENCE_CHIPS = 8;
 
 export default function App() {
   // View state - start with insights
@@ -54,29 +258,142 @@ export default function App() {
   // History state
   const [activeTab, setActiveTab] = createSignal<TabType>('today');
   const [entries, setEntries] = createSignal<MemoryEntry[]>([]);
-  const [groupedEntries, setGroupedEntries] = createSignal<Map<string, MemoryEntry[]>>(new Map());
+  const [trashedEntries, setTrashedEntries] = createSignal<MemoryEntry[]>([]);
+
+  // Trash state
+  const [undoEntry, setUndoEntry] = createSignal<MemoryEntry | null>(null);
+  const [trashRetentionDays, setTrashRetentionDaysSignal] = createSignal(30);
+  let undoTimer: ReturnType<typeof setTimeout> | undefined;
+
+  // Project/tag scope - applies to insights, history and review
+  const [scopeProject, setScopeProject] = createSignal('');
+  const [scopeTag, setScopeTag] = createSignal('');
+  const scope = (): EntryScope => ({ project: scopeProject() || undefined, tag: scopeTag() || undefined });
+  const scopedEntries = createMemo(() => filterEntriesByScope(entries(), scope()));
+
+  // Entry editing state
+  const [editingId, setEditingId] = createSignal<string | null>(null);
+  const [textDraft, setTextDraft] = createSignal('');
+  const [urlDraft, setUrlDraft] = createSignal('');
+  const [timeDraft, setTimeDraft] = createSignal('');
+  const [tagDraft, setTagDraft] = createSignal('');
+  const [projectDraft, setProjectDraft] = createSignal('');
+  const [categoryDraft, setCategoryDraft] = createSignal<EntryCategory | ''>('');
+  const [revisionsFor, setRevisionsFor] = createSignal<string | null>(null);
+  const [revisions, setRevisions] = createSignal<EntryRevision[]>([]);
+  const [focusedEntryId, setFocusedEntryId] = createSignal<string | null>(null);
 
   // Search state
   const [searchQuery, setSearchQuery] = createSignal('');
-  const [searchResults, setSearchResults] = createSignal<Array<{ entry: MemoryEntry; score: number }>>([]);
+  const [searchResults, setSearchResults] = createSignal<SearchResult[]>([]);
+  const [searchRepo, setSearchRepo] = createSignal('');
+  const [prs, setPRs] = createSignal<GitHubPR[]>([]);
   const [isSearching, setIsSearching] = createSignal(false);
   const [modelStatus, setModelStatus] = createSignal<'loading' | 'ready' | 'idle'>('idle');
+  const [embeddingModelId, setEmbeddingModelId] = createSignal(DEFAULT_EMBEDDING_MODEL);
+  const [vectorIndexStatus, setVectorIndexStatus] = createSignal<VectorIndexStatus | null>(null);
+  const [benchmark, setBenchmark] = createSignal<BenchmarkResult | null>(null);
+  const [benchmarkError, setBenchmarkError] = createSignal('');
+  const [isBenchmarking, setIsBenchmarking] = createSignal(false);
   const [searchTimeFilter, setSearchTimeFilter] = createSignal<string | null>(null);
+  const [jobProgress, setJobProgress] = createSignal<JobProgress>({ pending: 0, running: 0, failed: 0 });
 
   // Chat/Review state
   const [chatMessages, setChatMessages] = createSignal<ChatMessage[]>([]);
   const [chatInput, setChatInput] = createSignal('');
   const [chatTimeRange, setChatTimeRange] = createSignal<TimeRange>('all');
+  const [deepSummary, setDeepSummary] = createSignal(false);
+  const [summaryGranularity, setSummaryGranularity] = createSignal<SummaryGranularity>('month');
+  const [summaryProgress, setSummaryProgress] = createSignal<SummaryProgress | null>(null);
   const [isStreaming, setIsStreaming] = createSignal(false);
+  const [chatSessions, setChatSessions] = createSignal<ChatSession[]>([]);
+  const [currentSessionId, setCurrentSessionId] = createSignal<string | null>(null);
+  const [showSessions, setShowSessions] = createSignal(false);
+  const [renamingSessionId, setRenamingSessionId] = createSignal<string | null>(null);
+  const [sessionTitleDraft, setSessionTitleDraft] = createSignal('');
+
+  // STAR story state
+  const [reviewMode, setReviewMode] = createSignal<ReviewMode>('chat');
+  const [starStories, setStarStories] = createSignal<StarStory[]>([]);
+  const [storyFocus, setStoryFocus] = createSignal('');
+  const [isGeneratingStories, setIsGeneratingStories] = createSignal(false);
+  const [storyError, setStoryError] = createSignal('');
+  const [editingStoryId, setEditingStoryId] = createSignal<string | null>(null);
+  const [storyDraft, setStoryDraft] = createSignal<Pick<
+    StarStory,
+    'title' | 'situation' | 'task' | 'action' | 'result'
+  > | null>(null);
+
+  // Competency rubric state
+  const [competencyRubric, setCompetencyRubric] = createSignal<Rubric | null>(null);
+  const [targetLevel, setTargetLevelSignal] = createSignal('');
+  const [rubricMessage, setRubricMessage] = createSignal<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [coverage, setCoverage] = createSignal<CoverageReport | null>(null);
+  const [isClassifying, setIsClassifying] = createSignal(false);
+  const [classifyProgress, setClassifyProgress] = createSignal<ClassificationProgress | null>(null);
+  const [competencyError, setCompetencyError] = createSignal('');
+
+  // Prompt template state
+  const [promptTemplates, setPromptTemplates] = createSignal<PromptTemplate[]>(BUILT_IN_TEMPLATES);
+  const [selectedTemplateId, setSelectedTemplateId] = createSignal(BUILT_IN_TEMPLATES[0].id);
+  const [templateDraft, setTemplateDraft] = createSignal<{
+    id?: string;
+    name: string;
+    description: string;
+    body: string;
+    quickPrompts: string;
+  } | null>(null);
+  const [templateMessage, setTemplateMessage] = createSignal<{ type: 'success' | 'error'; text: string } | null>(null);
+  const selectedTemplate = () =>
+    promptTemplates().find((t) => t.id === selectedTemplateId()) ?? BUILT_IN_TEMPLATES[0];
 
   // Settings state
   const [aiProvider, setAIProvider] = createSignal<AIProvider>('openai');
   const [apiKey, setApiKey] = createSignal('');
   const [baseURL, setBaseURL] = createSignal('');
   const [modelName, setModelName] = createSignal('');
+  const [reviewTokenBudget, setReviewTokenBudgetSignal] = createSignal(DEFAULT_REVIEW_TOKEN_BUDGET);
   const [isConfigured, setIsConfigured] = createSignal(false);
   const [isTesting, setIsTesting] = createSignal(false);
   const [testResult, setTestResult] = createSignal<'success' | 'error' | null>(null);
+  const [ollamaModels, setOllamaModels] = createSignal<OllamaModel[]>([]);
+  const [ollamaError, setOllamaError] = createSignal('');
+  const [isListingOllamaModels, setIsListingOllamaModels] = createSignal(false);
+  const [browserModelProgress, setBrowserModelProgress] = createSignal<number | null>(null);
+  const [fallbackProviders, setFallbackProviders] = createSignal<AIConfig[]>([]);
+  const [fallbackDraft, setFallbackDraft] = createSignal<AIConfig | null>(null);
+  const [fallbackError, setFallbackError] = createSignal('');
+  const [isTestingFallback, setIsTestingFallback] = createSignal(false);
+
+  // AI suggestions for entries, by entry id
+  const [suggestions, setSuggestions] = createSignal<Map<string, EntrySuggestion>>(new Map());
+  const [enrichmentEnabled, setEnrichmentEnabledSignal] = createSignal(false);
+  const [pendingEnrichment, setPendingEnrichment] = createSignal(0);
+
+  // Scheduled digests, newest first
+  const [digests, setDigests] = createSignal<Digest[]>([]);
+  const [digestSettings, setDigestSettingsSignal] = createSignal<DigestSettings>({ enabled: false, frequency: 'weekly' });
+  const [openDigestId, setOpenDigestId] = createSignal<string | null>(null);
+  const [useDigests, setUseDigests] = createSignal(false);
+
+  // Redaction state - patterns and terms are edited one per line
+  const [redactionDraft, setRedactionDraft] = createSignal<
+    (Omit<RedactionSettings, 'patterns' | 'terms'> & { patterns: string; terms: string }) | null
+  >(null);
+  const [redactionSample, setRedactionSample] = createSignal('');
+  const [redactionMessage, setRedactionMessage] = createSignal<{ type: 'success' | 'error'; text: string } | null>(
+    null
+  );
+  const [promptPreview, setPromptPreview] = createSignal<OutgoingPreview | null>(null);
+  const [previewError, setPreviewError] = createSignal('');
+  const [isPreviewing, setIsPreviewing] = createSignal(false);
+
+  // AI usage state
+  const [usageSummary, setUsageSummary] = createSignal<UsageSummary | null>(null);
+  const [priceDraft, setPriceDraft] = createSignal<Array<{ model: string; input: string; output: string }> | null>(
+    null
+  );
+  const [usageMessage, setUsageMessage] = createSignal<{ type: 'success' | 'error'; text: string } | null>(null);
 
   // GitHub state
   const [githubPAT, setGithubPAT] = createSignal('');
@@ -88,11 +405,33 @@ export default function App() {
   const [gitHubTestResult, setGitHubTestResult] = createSignal<'success' | 'error' | null>(null);
   const [gitHubTestError, setGitHubTestError] = createSignal<string | null>(null);
 
+  // Export state
+  const [exportRange, setExportRange] = createSignal<TimeRange>('quarter');
+  const [exportGroupBy, setExportGroupBy] = createSignal<BragDocGrouping>('week');
+  const [exportIncludePRs, setExportIncludePRs] = createSignal(true);
+
+  // Import state
+  const [importPreview, setImportPreview] = createSignal<ImportPreview | null>(null);
+  const [importMessage, setImportMessage] = createSignal<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [isImporting, setIsImporting] = createSignal(false);
+
+  // Backup state
+  const [backupEmbeddings, setBackupEmbeddings] = createSignal(false);
+  const [restoreMode, setRestoreMode] = createSignal<RestoreMode>('merge');
+  const [isRestoring, setIsRestoring] = createSignal(false);
+  const [backupMessage, setBackupMessage] = createSignal<{ type: 'success' | 'error'; text: string } | null>(null);
+
   // Review view GitHub toggle
   const [includeGitHubPRs, setIncludeGitHubPRs] = createSignal(false);
 
   // Computed insights
-  const insights = createMemo(() => computeLocalInsights(entries()));
+  const insights = createMemo(() => computeLocalInsights(scopedEntries()));
+
+  // All projects and tags in use, for the scope selectors
+  const availableProjects = createMemo(() =>
+    Array.from(new Set(entries().flatMap((e) => (e.project ? [e.project] : [])))).sort()
+  );
+  const availableTags = createMemo(() => Array.from(new Set(entries().flatMap((e) => e.tags ?? []))).sort());
 
   // Dynamic search suggestions based on entries
   const searchSuggestions = createMemo(() => {
@@ -119,13 +458,80 @@ export default function App() {
     // Subscribe to entries
     const subscription = liveQuery(() => db.entries.orderBy('timestamp').reverse().toArray()).subscribe({
       next: (result) => {
-        setEntries(result);
-        updateGroupedEntries(result);
+        setEntries(result.filter((e) => !e.deletedAt));
+        setTrashedEntries(
+          result.filter((e) => e.deletedAt).sort((a, b) => (b.deletedAt ?? 0) - (a.deletedAt ?? 0))
+        );
       },
       error: (err) => console.error('Dexie subscription error:', err),
     });
 
+    // Synced PRs, searched alongside entries
+    const prSubscription = liveQuery(() => getGitHubPRs()).subscribe({
+      next: (result) => setPRs(result),
+      error: (err) => console.error('Dexie subscription error:', err),
+    });
+
+    // Saved review chats, most recent first
+    const chatSessionSubscription = liveQuery(() => getChatSessions()).subscribe({
+      next: (result) => setChatSessions(result),
+      error: (err) => console.error('Dexie subscription error:', err),
+    });
+
+    // Saved STAR stories, newest first
+    const storySubscription = liveQuery(() => getStarStories()).subscribe({
+      next: (result) => setStarStories(result),
+      error: (err) => console.error('Dexie subscription error:', err),
+    });
+
+    // Embedding queue progress (processed in the background job runner)
+    const jobSubscription = liveQuery(() => getJobProgress()).subscribe({
+      next: (progress) => setJobProgress(progress),
+      error: (err) => console.error('Dexie subscription error:', err),
+    });
+
+    // ANN index status for the selected embedding model
+    const vectorIndexSubscription = liveQuery(async () =>
+      getVectorIndexStatus((await getEmbeddingModel()).id)
+    ).subscribe({
+      next: (status) => setVectorIndexStatus(status),
+      error: (err) => console.error('Dexie subscription error:', err),
+    });
+
+    // AI suggestions waiting for a decision, shown on entries in History
+    const suggestionSubscription = liveQuery(() => getOpenSuggestions()).subscribe({
+      next: (result) => setSuggestions(new Map(result.map((suggestion) => [suggestion.entryId, suggestion]))),
+      error: (err) => console.error('Dexie subscription error:', err),
+    });
+
+    // Entries still waiting for suggestions
+    const enrichmentSubscription = liveQuery(() => getPendingEnrichmentCount()).subscribe({
+      next: (count) => setPendingEnrichment(count),
+      error: (err) => console.error('Dexie subscription error:', err),
+    });
+
+    // Digest archive for Review
+    const digestSubscription = liveQuery(() => getDigests()).subscribe({
+      next: (result) => setDigests(result),
+      error: (err) => console.error('Dexie subscription error:', err),
+    });
+
+    // AI token usage and cost, for the dashboard in Settings
+    const usageSubscription = liveQuery(() => getUsageSummary()).subscribe({
+      next: (summary) => setUsageSummary(summary),
+      error: (err) => console.error('Dexie subscription error:', err),
+    });
+
+    // Clear out entries past the trash retention period
+    setTrashRetentionDaysSignal(await getTrashRetentionDays());
+    purgeExpiredEntries();
+
     // Load AI config
+    setReviewTokenBudgetSignal(await getReviewTokenBudget());
+    setPromptTemplates(await getPromptTemplates());
+    setSelectedTemplateId((await getSelectedTemplate()).id);
+    setCompetencyRubric(await getRubric());
+    setTargetLevelSignal((await getTargetLevel()) ?? '');
     const config = await getAIConfig();
     if (config) {
       setAIProvider(config.provider);
@@ -134,13 +540,28 @@ export default function App() {
       if (config.model) setModelName(config.model);
       setIsConfigured(true);
     }
+    setFallbackProviders(await getFallbackProviders());
+    setEnrichmentEnabledSignal((await getEnrichmentSettings()).enabled);
+    setDigestSettingsSignal(await getDigestSettings());
+    const redaction = await getRedactionSettings();
+    setRedactionDraft({ ...redaction, patterns: redaction.patterns.join('\n'), terms: redaction.terms.join('\n') });
+
+    // Opened from a digest notification
+    const digestToOpen = await takeDigestToOpen();
+    if (digestToOpen) openDigest(digestToOpen);
+    const handleRuntimeMessage = (message: { type?: string; digestId?: string }) => {
+      if (message.type === 'OPEN_DIGEST' && message.digestId) {
+        takeDigestToOpen();
+        openDigest(message.digestId);
+      }
+    };
+    browser.runtime.onMessage.addListener(handleRuntimeMessage);
 
-    // Start loading embeddings model in background
+    // Load the embeddings model here for search queries; entries are embedded by the job runner
+    setEmbeddingModelId((await getEmbeddingModel()).id);
     setModelStatus('loading');
-    preloadModel().then(() => {
-      setModelStatus('ready');
-      processUnembeddedEntries();
-    });
+    preloadModel().then(() => setModelStatus('ready'));
+    queueMissingEmbeddings();
 
     // Load GitHub config and trigger auto-sync
     const pat = await getGitHubPAT();
@@ -156,19 +577,86 @@ export default function App() {
       triggerGitHubSync();
     }
 
-    return () => subscription.unsubscribe();
+    return () => {
+      subscription.unsubscribe();
+      prSubscription.unsubscribe();
+      chatSessionSubscription.unsubscribe();
+      storySubscription.unsubscribe();
+      jobSubscription.unsubscribe();
+      vectorIndexSubscription.unsubscribe();
+      usageSubscription.unsubscribe();
+      suggestionSubscription.unsubscribe();
+      enrichmentSubscription.unsubscribe();
+      digestSubscription.unsubscribe();
+      browser.runtime.onMessage.removeListener(handleRuntimeMessage);
+    };
+  });
+
+  // Competency coverage for the Review period, from stored classifications.
+  // Re-read when entries, PRs, the rubric or classifications change.
+  createEffect(() => {
+    if (view() !== 'review' || reviewMode() !== 'competencies') return;
+
+    const timeRange = chatTimeRange();
+    const includeGitHub = includeGitHubPRs();
+    const entryScope = scope();
+    const subscription = liveQuery(() => getCompetencyCoverage(timeRange, includeGitHub, entryScope)).subscribe({
+      next: (report) => setCoverage(report),
+      error: (err) => console.error('Dexie subscription error:', err),
+    });
+    onCleanup(() => subscription.unsubscribe());
   });
 
+  // Queue anything without an embedding and wake the job runner
+  const queueMissingEmbeddings = async () => {
+    await queueUnembeddedEntries();
+    await queueUnembeddedPRs();
+    await requestJobProcessing();
+  };
+
+  // Switch embedding model - existing vectors stay until each entry is re-embedded
+  const handleEmbeddingModelChange = async (id: string) => {
+    if (id === embeddingModelId()) return;
+    await setEmbeddingModel(id);
+    setEmbeddingModelId(id);
+
+    setModelStatus('loading');
+    preloadModel().then(() => setModelStatus('ready'));
+    queueMissingEmbeddings();
+  };
+
+  const handleRebuildVectorIndex = async () => {
+    await requestVectorIndexBuild(embeddingModelId());
+    await requestJobProcessing();
+  };
+
+  const handleRunBenchmark = async () => {
+    setIsBenchmarking(true);
+    setBenchmarkError('');
+    try {
+      setBenchmark(await benchmarkVectorIndex(embeddingModelId()));
+    } catch (err) {
+      setBenchmark(null);
+      setBenchmarkError(err instanceof Error ? err.message : 'Benchmark failed');
+    }
+    setIsBenchmarking(false);
+  };
+
+  const handleRetryFailedJobs = async () => {
+    await retryFailedJobs();
+    await requestJobProcessing();
+  };
+
   // History helpers
-  const updateGroupedEntries = (allEntries: MemoryEntry[]) => {
+  const groupedEntries = createMemo(() => {
     const grouped = new Map<string, MemoryEntry[]>();
-    for (const entry of allEntries) {
+    for (const entry of scopedEntries()) {
       const dateKey = formatDateKey(new Date(entry.timestamp));
       if (!grouped.has(dateKey)) grouped.set(dateKey, []);
       grouped.get(dateKey)!.push(entry);
     }
-    setGroupedEntries(grouped);
-  };
+    return grouped;
+  });
 
   const formatDateKey = (date: Date): string => {
     const today = new Date();
@@ -207,7 +695,252 @@ export default function App() {
   const formatTime = (timestamp: number): string =>
     new Date(timestamp).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit', hour12: true });
 
-  const handleDelete = async (id: string) => await deleteEntry(id);
+  // Deleting moves to trash and offers a short-lived undo
+  const handleDelete = async (entry: MemoryEntry) => {
+    await trashEntry(entry.id);
+    clearTimeout(undoTimer);
+    setUndoEntry(entry);
+    undoTimer = setTimeout(() => setUndoEntry(null), 6000);
+  };
+
+  const handleUndoDelete = async () => {
+    const entry = undoEntry();
+    if (!entry) return;
+    clearTimeout(undoTimer);
+    setUndoEntry(null);
+    await restoreEntry(entry.id);
+  };
+
+  const handlePurge = async (id: string) => {
+    if (!confirm('Permanently delete this entry? This cannot be undone.')) return;
+    await purgeEntry(id);
+  };
+
+  const handleEmptyTrash = async () => {
+    if (!confirm(`Permanently delete ${trashedEntries().length} entries? This cannot be undone.`)) return;
+    await emptyTrash();
+  };
+
+  // Estimate the cost of large prompts and ask before sending them. Several
+  // prompts (one per period or batch) are added up and asked about once.
+  const confirmLargePrompts = async (prompts: string[]): Promise<boolean> => {
+    const config = await getAIConfig();
+    const model = config?.model;
+    if (!model || isLocalProvider(config.provider)) return true;
+
+    const estimate = await estimatePromptCost(prompts, model);
+    if (estimate.inputTokens < LARGE_PROMPT_TOKENS) return true;
+
+    const cost = estimate.maxCost === null ? 'no price set for this model' : `up to ${formatCost(estimate.maxCost)}`;
+    const tokens = `about ${estimate.inputTokens.toLocaleString()} tokens`;
+    return prompts.length === 1
+      ? confirm(`This will send ${tokens} to ${model} (${cost}). Send it?`)
+      : confirm(`This will make ${prompts.length} calls to ${model}, sending ${tokens} in all (${cost}). Send them?`);
+  };
+
+  // AI usage handlers
+  const handleBudgetChange = async (value: string) => {
+    setUsageMessage(null);
+    try {
+      await setMonthlyBudget(value.trim() ? parseFloat(value) : null);
+    } catch (err) {
+      setUsageMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to save budget' });
+    }
+  };
+
+  const handleEditPrices = async () => {
+    setUsageMessage(null);
+    const prices = await getPriceTable();
+    setPriceDraft(
+      Object.entries(prices).map(([model, price]) => ({
+        model,
+        input: String(price.input),
+        output: String(price.output),
+      }))
+    );
+  };
+
+  const handleSavePrices = async () => {
+    const draft = priceDraft();
+    if (!draft) return;
+
+    try {
+      await savePriceTable(
+        Object.fromEntries(
+          draft
+            .filter((row) => row.model.trim())
+            .map((row) => [row.model.trim(), { input: parseFloat(row.input), output: parseFloat(row.output) }])
+        )
+      );
+      setPriceDraft(null);
+      setUsageMessage({ type: 'success', text: 'Prices saved' });
+    } catch (err) {
+      setUsageMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to save prices' });
+    }
+  };
+
+  const handleResetPrices = async () => {
+    if (!confirm('Replace your prices with the built-in list?')) return;
+    await resetPriceTable();
+    setPriceDraft(null);
+  };
+
+  const handleClearUsage = async () => {
+    if (!confirm('Clear the AI usage history? Costs so far this month will no longer count toward the budget.')) return;
+    await clearUsage();
+  };
+
+  const handleTokenBudgetChange = async (tokens: number) => {
+    if (!tokens) return;
+    await setReviewTokenBudget(tokens);
+    setReviewTokenBudgetSignal(await getReviewTokenBudget());
+  };
+
+  const handleRetentionChange = async (days: number) => {
+    if (!days || days < 1) return;
+    await setTrashRetentionDays(days);
+    setTrashRetentionDaysSignal(await getTrashRetentionDays());
+    purgeExpiredEntries();
+  };
+
+  // datetime-local inputs want local time as YYYY-MM-DDTHH:mm
+  const toDateTimeInput = (timestamp: number): string => {
+    const d = new Date(timestamp);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+  };
+
+  // Entry editing handlers
+  const startEditing = (entry: MemoryEntry) => {
+    setEditingId(entry.id);
+    setRevisionsFor(null);
+    setTextDraft(entry.text);
+    setUrlDraft(entry.url ?? '');
+    setTimeDraft(toDateTimeInput(entry.timestamp));
+    setTagDraft((entry.tags ?? []).join(', '));
+    setProjectDraft(entry.project ?? '');
+    setCategoryDraft(entry.category ?? '');
+  };
+
+  const handleSaveEdit = async (id: string) => {
+    if (!textDraft().trim()) return;
+
+    const parsedTime = new Date(timeDraft()).getTime();
+    const result = await updateEntry(id, {
+      text: textDraft(),
+      url: urlDraft(),
+      timestamp: Number.isNaN(parsedTime) ? undefined : parsedTime,
+      tags: tagDraft().split(','),
+      project: projectDraft(),
+      category: categoryDraft() || undefined,
+    });
+    setEditingId(null);
+
+    // Text changed - regenerate the embedding so search stays accurate
+    if (result?.textChanged) {
+      await enqueueEmbeddingJobs([result.entry.id]);
+      requestJobProcessing();
+    }
+  };
+
+  const toggleRevisions = async (entryId: string) => {
+    if (revisionsFor() === entryId) {
+      setRevisionsFor(null);
+      return;
+    }
+    setRevisions(await getEntryRevisions(entryId));
+    setRevisionsFor(entryId);
+  };
+
+  const handleRestoreRevision = async (revisionId: string) => {
+    const result = await restoreEntryRevision(revisionId);
+    if (!result) return;
+
+    setRevisions(await getEntryRevisions(result.entry.id));
+    if (result.textChanged) {
+      await enqueueEmbeddingJobs([result.entry.id]);
+      requestJobProcessing();
+    }
+  };
+
+  // Suggestions worth showing for an entry - a rewrite of since-edited text isn't
+  const getVisibleSuggestion = (entry: MemoryEntry): EntrySuggestion | undefined => {
+    const suggestion = suggestions().get(entry.id);
+    if (!suggestion) return undefined;
+    return suggestion.tags || suggestion.category || isRewriteCurrent(suggestion, entry) ? suggestion : undefined;
+  };
+
+  const handleAcceptSuggestion = async (entryId: string, kind: SuggestionKind) => {
+    try {
+      const result = await acceptSuggestion(entryId, kind);
+      if (result?.textChanged) {
+        await enqueueEmbeddingJobs([result.entry.id]);
+        requestJobProcessing();
+      }
+    } catch (err) {
+      console.error('WorthKeeping: Failed to apply suggestion', err);
+    }
+  };
+
+  const handleEnrichmentToggle = async (enabled: boolean) => {
+    await setEnrichmentEnabled(enabled);
+    setEnrichmentEnabledSignal(enabled);
+    if (enabled && (await queueEnrichment())) await requestJobProcessing();
+  };
+
+  const handleEnrichEarlier = async () => {
+    await enrichEarlierEntries(30);
+    if (await queueEnrichment()) await requestJobProcessing();
+  };
+
+  // Digest handlers
+  const handleDigestSettings = async (settings: DigestSettings) => {
+    await saveDigestSettings(settings);
+    setDigestSettingsSignal(settings);
+    await requestDigestSchedule();
+  };
+
+  // The archive lists every digest in range; reviews skip days a weekly digest covers
+  const digestArchive = createMemo(() => filterDigestsByRange(digests(), chatTimeRange()));
+  const reviewDigests = createMemo(() => selectReviewDigests(digests(), chatTimeRange()));
+  const unreadDigests = () => digests().filter((digest) => !digest.readAt).length;
+
+  // Digests cover everything, so they're only offered when Review isn't scoped
+  const canAnswerFromDigests = () => reviewDigests().length > 0 && !scope().project && !scope().tag;
+  const answersFromDigests = () => useDigests() && canAnswerFromDigests();
+
+  const handleToggleDigest = (digest: Digest) => {
+    setOpenDigestId(openDigestId() === digest.id ? null : digest.id);
+    if (!digest.readAt) markDigestRead(digest.id);
+  };
+
+  // Show a digest in Review, e.g. from its notification
+  const openDigest = (id: string) => {
+    const digest = digests().find((d) => d.id === id);
+    if (digest && !digestArchive().includes(digest)) setChatTimeRange('all');
+    setView('review');
+    setReviewMode('digests');
+    setOpenDigestId(id);
+    markDigestRead(id);
+    requestAnimationFrame(() => {
+      document.querySelector(`[data-digest-id="${id}"]`)?.scrollIntoView({ block: 'start', behavior: 'smooth' });
+    });
+  };
+
+  const handleDeleteDigest = async (digest: Digest) => {
+    if (!confirm(`Delete the digest for ${formatDigestPeriod(digest.frequency, digest.periodStart)}?`)) return;
+    await deleteDigest(digest.id);
+  };
+
+  const handleAskDigests = () => {
+    setUseDigests(true);
+    setReviewMode('chat');
+  };
+
+  // Keyword index over live entries and PRs - rebuilt whenever either changes
+  const searchIndex = createMemo(() => buildSearchIndex(entries(), prs()));
+
+  const availableRepos = createMemo(() => [...new Set(prs().map((pr) => pr.repo))].sort());
 
   // Search handlers with time parsing
   const handleSearch = async () => {
@@ -221,9 +954,10 @@ export default function App() {
       // Parse time from query
       const timeQuery = parseTimeFromQuery(query);
 
-      let searchOptions: { limit?: number; minScore?: number; startTime?: number; endTime?: number } = {
+      let searchOptions: SearchOptions = {
         limit: 20,
         minScore: 0.2,
+        repo: searchRepo() || undefined,
       };
 
       if (timeQuery) {
@@ -232,35 +966,41 @@ export default function App() {
         setSearchTimeFilter(timeQuery.label || null);
       }
 
-      // Try semantic search
-      let results = await semanticSearch(query, searchOptions);
-
-      // Fallback: if no results, do simple text search
-      if (results.length === 0) {
-        const lowerQuery = query.toLowerCase();
-        let allEntries = entries();
+      // Keyword (BM25) + semantic results, fused by rank
+      setSearchResults(await hybridSearch(searchIndex(), query, searchOptions));
+    } catch (err) {
+      console.error('Search error:', err);
+    }
+    setIsSearching(false);
+  };
 
-        // Filter by time if specified
-        if (timeQuery?.startTime) {
-          allEntries = allEntries.filter(
-            (e) => e.timestamp >= timeQuery.startTime! && (!timeQuery.endTime || e.timestamp <= timeQuery.endTime)
-          );
-        }
+  // Map-reduce summaries are offered for ranges too long for one prompt
+  const isLongRange = () => chatTimeRange() === 'year' || chatTimeRange() === 'all';
 
-        // Simple text match
-        const textMatches = allEntries
-          .filter((e) => e.text.toLowerCase().includes(lowerQuery))
-          .slice(0, 20)
-          .map((entry) => ({ entry, score: 0.5 }));
+  // Once a session has an answer, questions are follow-ups on that data
+  const isFollowUp = () => getChatHistory(chatMessages()).length > 0;
 
-        results = textMatches;
-      }
+  // The question is answered over summaries the AI writes first, which a preview can't show
+  const summarizesFirst = () => deepSummary() && isLongRange() && !isFollowUp() && !answersFromDigests();
 
-      setSearchResults(results);
-    } catch (err) {
-      console.error('Search error:', err);
+  // Save the open session, creating it on the first question
+  const persistChatSession = async (question: string) => {
+    const sessionId = currentSessionId();
+    if (sessionId) {
+      await saveChatSession(sessionId, {
+        messages: chatMessages(),
+        timeRange: chatTimeRange(),
+        includeGitHub: includeGitHubPRs(),
+      });
+      return;
     }
-    setIsSearching(false);
+    const session = await createChatSession({
+      title: getSessionTitle(question),
+      timeRange: chatTimeRange(),
+      includeGitHub: includeGitHubPRs(),
+      messages: chatMessages(),
+    });
+    setCurrentSessionId(session.id);
   };
 
   // Chat handlers
@@ -272,20 +1012,69 @@ export default function App() {
       return;
     }
 
+    const history = getChatHistory(chatMessages());
+    const previousMessages = chatMessages();
+
+    // Put the question back when a cost check is turned down
+    const cancelSend = () => {
+      setChatMessages(previousMessages);
+      setChatInput(question);
+      setIsStreaming(false);
+    };
+
     // Add user message
     setChatMessages((prev) => [...prev, { role: 'user', content: question }]);
     setChatInput('');
+    setPromptPreview(null);
+    setPreviewError('');
     setIsStreaming(true);
 
     try {
-      // Build prompt with relevant entries and optionally GitHub PRs
-      const { prompt, entriesUsed, prsUsed } = await buildReviewPrompt(
-        question,
-        chatTimeRange(),
-        includeGitHubPRs()
-      );
+      let prompt: string;
+      let entriesUsed: number | undefined;
+      let prsUsed: number | undefined;
+      let context: ContextReport | undefined;
+      let summaries: ChatMessage['summaries'];
+      let digestsUsed: number | undefined;
+      let citations: CitationMap | undefined;
+      let provider: ProviderTag | undefined;
+
+      if (history.length > 0) {
+        // Follow-up - the earlier turns already carry the data
+        citations = getSessionCitations(previousMessages);
+        prompt = buildFollowUpPrompt(question, citations !== undefined);
+      } else if (answersFromDigests()) {
+        // Answer over the saved digests instead of the raw entries
+        const result = await buildDigestReviewPrompt(question, chatTimeRange(), selectedTemplate());
+        ({ prompt, entriesUsed, prsUsed, citations } = result);
+        digestsUsed = result.digestsUsed;
+      } else if (deepSummary() && isLongRange()) {
+        // Summarize each week/month first, then ask over the summaries
+        const result = await buildSummarizedReviewPrompt(question, chatTimeRange(), includeGitHubPRs(), {
+          granularity: summaryGranularity(),
+          scope: scope(),
+          template: selectedTemplate(),
+          onProgress: setSummaryProgress,
+          confirmSend: confirmLargePrompts,
+        });
+        setSummaryProgress(null);
+        if (!result) {
+          cancelSend();
+          return;
+        }
+        ({ prompt, entriesUsed, prsUsed, citations } = result);
+        summaries = { periods: result.periods, generated: result.summariesGenerated, granularity: summaryGranularity() };
+      } else {
+        // Build prompt with relevant entries and optionally GitHub PRs
+        ({ prompt, entriesUsed, prsUsed, context, citations } = await buildReviewPrompt(
+          question,
+          chatTimeRange(),
+          includeGitHubPRs(),
+          { scope: scope(), template: selectedTemplate() }
+        ));
+      }
 
-      if (entriesUsed === 0 && prsUsed === 0) {
+      if (history.length === 0 && entriesUsed === 0 && prsUsed === 0) {
         setChatMessages((prev) => [
           ...prev,
           {
@@ -293,105 +1082,543 @@ export default function App() {
             content: includeGitHubPRs()
               ? 'No entries or PRs found for this time period. Try capturing memories with Cmd+Shift+L or sync your GitHub PRs in Settings.'
               : 'No relevant entries found for this time period. Try capturing more memories with Cmd+Shift+L.',
+            notice: true,
             entriesUsed: 0,
             prsUsed: 0,
           },
         ]);
+        await persistChatSession(question);
         setIsStreaming(false);
         return;
       }
 
+      // Big prompts cost real money - check before sending
+      if (!(await confirmLargePrompts([[...history.map((turn) => turn.content), prompt].join('\n\n')]))) {
+        cancelSend();
+        return;
+      }
+
+      // Keep the full prompt so follow-ups can resend this turn
+      if (prompt !== question) {
+        setChatMessages((prev) => [...prev.slice(0, -1), { role: 'user', content: question, prompt }]);
+      }
+
       // Add empty assistant message that we'll stream into
-      setChatMessages((prev) => [...prev, { role: 'assistant', content: '', entriesUsed, prsUsed }]);
+      setChatMessages((prev) => [
+        ...prev,
+        { role: 'assistant', content: '', entriesUsed, prsUsed, context, summaries, digests: digestsUsed, citations },
+      ]);
 
       // Stream the response
       let fullContent = '';
-      for await (const chunk of streamAI(prompt)) {
+      for await (const chunk of streamAI(prompt, history, {
+        feature: 'review',
+        onProvider: (tag) => (provider = tag),
+      })) {
         fullContent += chunk;
         setChatMessages((prev) => {
           const updated = [...prev];
-          updated[updated.length - 1] = { role: 'assistant', content: fullContent, entriesUsed, prsUsed };
+          updated[updated.length - 1] = {
+            role: 'assistant',
+            content: fullContent,
+            entriesUsed,
+            prsUsed,
+            context,
+            summaries,
+            digests: digestsUsed,
+            citations,
+            provider,
+          };
           return updated;
         });
       }
     } catch (err: any) {
+      setSummaryProgress(null);
       setChatMessages((prev) => [
-        ...prev.slice(0, -1), // Remove empty streaming message if exists
-        { role: 'assistant', content: `Error: ${err.message}` },
+        // Remove empty streaming message if exists
+        ...(prev[prev.length - 1]?.role === 'assistant' ? prev.slice(0, -1) : prev),
+        // A rejected key or a spent budget reads as its own message; anything else is an error
+        {
+          role: 'assistant',
+          content: err instanceof AIAuthError || err instanceof AIBudgetError ? err.message : `Error: ${err.message}`,
+          notice: true,
+        },
       ]);
     }
 
     setIsStreaming(false);
-  };
-
-  // Quick prompt chips
-  const quickPrompts = [
-    { label: 'Accomplishments', question: 'What were my key accomplishments?' },
-    { label: 'Challenges', question: 'What challenges did I overcome?' },
-    { label: 'Learnings', question: 'What did I learn?' },
-    { label: 'Impact', question: 'What impact did my work have?' },
-    { label: 'Summary', question: 'Give me a summary of my work' },
-  ];
 
-  // Settings handlers
-  const handleSaveSettings = async () => {
-    setIsTesting(true);
-    setTestResult(null);
+    try {
+      await persistChatSession(question);
+    } catch (err) {
+      console.error('WorthKeeping: Failed to save chat session', err);
+    }
+  };
 
-    const provider = aiProvider();
-    const isOpenAICompatible = provider === 'openai-compatible';
-    const url = isOpenAICompatible ? baseURL() : undefined;
-    const model = modelName() || undefined;
+  // Build what the next question would send - after redaction - without sending it
+  const handlePreviewPrompt = async () => {
+    const question = chatInput().trim();
+    if (!question || isPreviewing()) return;
 
-    const success = await testAPIKey(provider, apiKey(), url, model);
+    setPreviewError('');
+    setIsPreviewing(true);
+    try {
+      const history = getChatHistory(chatMessages());
+      let prompt: string;
+      if (history.length > 0) {
+        prompt = buildFollowUpPrompt(question, getSessionCitations(chatMessages()) !== undefined);
+      } else if (answersFromDigests()) {
+        ({ prompt } = await buildDigestReviewPrompt(question, chatTimeRange(), selectedTemplate()));
+      } else {
+        ({ prompt } = await buildReviewPrompt(question, chatTimeRange(), includeGitHubPRs(), {
+          scope: scope(),
+          template: selectedTemplate(),
+        }));
+      }
 
-    if (success) {
-      await saveAIConfig({
-        provider,
-        apiKey: apiKey(),
-        baseURL: url,
-        model,
-      });
-      setIsConfigured(true);
-      setTestResult('success');
-    } else {
-      setTestResult('error');
+      if (!prompt) {
+        setPromptPreview(null);
+        setPreviewError('No entries found for this time period - nothing would be sent');
+      } else {
+        setPromptPreview(await previewOutgoingPrompt(prompt, history));
+      }
+    } catch (err) {
+      setPreviewError(err instanceof Error ? err.message : 'Failed to build the prompt');
     }
+    setIsPreviewing(false);
+  };
 
-    setIsTesting(false);
+  // Session list handlers
+  const handleNewChat = () => {
+    setChatMessages([]);
+    setCurrentSessionId(null);
+    setShowSessions(false);
   };
 
-  const handleClearSettings = async () => {
-    await clearAIConfig();
-    setApiKey('');
-    setBaseURL('');
-    setModelName('');
-    setIsConfigured(false);
-    setTestResult(null);
+  const handleOpenSession = (session: ChatSession) => {
+    setChatMessages(session.messages);
+    setChatTimeRange(session.timeRange);
+    setIncludeGitHubPRs(session.includeGitHub);
+    setCurrentSessionId(session.id);
+    setShowSessions(false);
   };
 
-  // GitHub handlers
-  const handleSaveGitHubPAT = async () => {
-    setIsTestingGitHub(true);
-    setGitHubTestResult(null);
-    setGitHubTestError(null);
+  const handleStartRename = (session: ChatSession) => {
+    setRenamingSessionId(session.id);
+    setSessionTitleDraft(session.title);
+  };
 
-    const result = await validateGitHubPAT(githubPAT());
+  const handleSaveRename = async (id: string) => {
+    if (!sessionTitleDraft().trim()) return;
+    await renameChatSession(id, sessionTitleDraft());
+    setRenamingSessionId(null);
+  };
 
-    if (result.valid) {
-      await saveGitHubPAT(githubPAT());
-      setIsGitHubConfigured(true);
-      setGithubUsername(result.username || '');
-      setGitHubTestResult('success');
+  const handleDuplicateSession = async (id: string) => {
+    await duplicateChatSession(id);
+  };
 
-      // Trigger initial sync
-      triggerGitHubSync();
-    } else {
-      setGitHubTestResult('error');
-      setGitHubTestError(result.error || 'Invalid token');
+  const handleDeleteSession = async (session: ChatSession) => {
+    if (!confirm(`Delete "${session.title}"? This cannot be undone.`)) return;
+    await deleteChatSession(session.id);
+    if (currentSessionId() === session.id) {
+      setChatMessages([]);
+      setCurrentSessionId(null);
     }
+  };
 
-    setIsTestingGitHub(false);
+  // Entry citation chips jump to the entry in History (PR chips are plain links)
+  const handleCitationClick = (e: MouseEvent, source: { citations?: CitationMap }) => {
+    const chip = (e.target as HTMLElement).closest<HTMLElement>('.citation-chip.entry');
+    const citation = chip?.dataset.ref ? source.citations?.[chip.dataset.ref] : undefined;
+    if (citation) openCitation(citation);
+  };
+
+  // Show a cited entry in History
+  const openCitation = (citation: CitationRef) => {
+    if (!entries().some((entry) => entry.id === citation.id)) {
+      // Deleted since the answer was written - fall back to the page it was captured on
+      if (citation.url) window.open(citation.url, '_blank');
+      return;
+    }
+
+    setScopeProject('');
+    setScopeTag('');
+    setActiveTab('all');
+    setView('history');
+    setFocusedEntryId(citation.id);
+    requestAnimationFrame(() => {
+      document.querySelector(`[data-entry-id="${citation.id}"]`)?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    });
+    setTimeout(() => setFocusedEntryId((id) => (id === citation.id ? null : id)), 2500);
+  };
+
+  // STAR story handlers
+  const handleGenerateStories = async () => {
+    if (isGeneratingStories()) return;
+
+    if (!isConfigured()) {
+      setView('settings');
+      return;
+    }
+
+    setStoryError('');
+    setIsGeneratingStories(true);
+    try {
+      const generated = await generateStarStories(storyFocus(), chatTimeRange(), includeGitHubPRs(), {
+        scope: scope(),
+        confirmSend: confirmLargePrompts,
+      });
+      if (generated) setStoryFocus('');
+    } catch (err) {
+      setStoryError(err instanceof Error ? err.message : 'Failed to generate stories');
+    }
+    setIsGeneratingStories(false);
+  };
+
+  const handleEditStory = (story: StarStory) => {
+    setEditingStoryId(story.id);
+    setStoryDraft({
+      title: story.title,
+      situation: story.situation,
+      task: story.task,
+      action: story.action,
+      result: story.result,
+    });
+  };
+
+  const handleSaveStory = async (id: string) => {
+    const draft = storyDraft();
+    if (!draft) return;
+    await updateStarStory(id, draft);
+    setEditingStoryId(null);
+  };
+
+  const handleDeleteStory = async (story: StarStory) => {
+    if (!confirm(`Delete "${story.title}"?`)) return;
+    await deleteStarStory(story.id);
+  };
+
+  const handleExportStories = () => {
+    downloadFile(
+      exportStarStories(starStories()),
+      generateExportFilename('star-stories', 'md'),
+      'text/markdown;charset=utf-8;'
+    );
+  };
+
+  // Competency handlers
+  const handleClassifyCompetencies = async () => {
+    if (isClassifying()) return;
+
+    if (!isConfigured()) {
+      setView('settings');
+      return;
+    }
+
+    setCompetencyError('');
+    setIsClassifying(true);
+    try {
+      await classifyCompetencies(chatTimeRange(), includeGitHubPRs(), {
+        scope: scope(),
+        onProgress: setClassifyProgress,
+        confirmSend: confirmLargePrompts,
+      });
+    } catch (err) {
+      setCompetencyError(err instanceof Error ? err.message : 'Failed to classify entries');
+    }
+    setClassifyProgress(null);
+    setIsClassifying(false);
+  };
+
+  const handleImportRubric = async (file: File | undefined) => {
+    if (!file) return;
+
+    setRubricMessage(null);
+    try {
+      const rubric = parseRubric(await file.text(), file.name);
+      await saveRubric(rubric);
+      setCompetencyRubric(rubric);
+      if (!rubric.levels.includes(targetLevel())) setTargetLevelSignal('');
+      setRubricMessage({
+        type: 'success',
+        text: `Imported "${rubric.name}" with ${rubric.competencies.length} competencies`,
+      });
+    } catch (err) {
+      setRubricMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to import rubric' });
+    }
+  };
+
+  const handleRemoveRubric = async () => {
+    if (!confirm('Remove the competency rubric and its stored classifications?')) return;
+    await removeRubric();
+    setCompetencyRubric(null);
+    setTargetLevelSignal('');
+    setRubricMessage(null);
+  };
+
+  const handleTargetLevelChange = async (level: string) => {
+    setTargetLevelSignal(level);
+    await setTargetLevel(level);
+  };
+
+  // Quick prompt chips come from the selected template
+  const quickPrompts = () =>
+    selectedTemplate().quickPrompts.length > 0 ? selectedTemplate().quickPrompts : BUILT_IN_TEMPLATES[0].quickPrompts;
+
+  // Prompt template handlers
+  const handleSelectTemplate = async (id: string) => {
+    setSelectedTemplateId(id);
+    await setSelectedTemplate(id);
+  };
+
+  const handleEditTemplate = (template: PromptTemplate, copy: boolean) => {
+    setTemplateMessage(null);
+    setTemplateDraft({
+      id: copy ? undefined : template.id,
+      name: copy ? `${template.name} (copy)` : template.name,
+      description: template.description ?? '',
+      body: template.body,
+      quickPrompts: formatQuickPrompts(template.quickPrompts),
+    });
+  };
+
+  const handleSaveTemplate = async () => {
+    const draft = templateDraft();
+    if (!draft) return;
+
+    try {
+      const saved = await saveCustomTemplate({
+        id: draft.id,
+        name: draft.name,
+        description: draft.description,
+        body: draft.body,
+        quickPrompts: parseQuickPrompts(draft.quickPrompts),
+      });
+      setPromptTemplates(await getPromptTemplates());
+      setTemplateDraft(null);
+      setTemplateMessage({ type: 'success', text: `Saved "${saved.name}"` });
+    } catch (err) {
+      setTemplateMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to save template' });
+    }
+  };
+
+  const handleDeleteTemplate = async (template: PromptTemplate) => {
+    if (!confirm(`Delete the "${template.name}" template?`)) return;
+    await deleteCustomTemplate(template.id);
+    setPromptTemplates(await getPromptTemplates());
+    setSelectedTemplateId((await getSelectedTemplate()).id);
+  };
+
+  const handleExportTemplates = async () => {
+    downloadFile(await exportTemplates(), generateExportFilename('worthkeeping-templates', 'json'), 'application/json');
+  };
+
+  const handleImportTemplates = async (file: File | undefined) => {
+    if (!file) return;
+
+    setTemplateMessage(null);
+    try {
+      const count = await importTemplates(await file.text());
+      setPromptTemplates(await getPromptTemplates());
+      setTemplateMessage({ type: 'success', text: `Imported ${count} ${count === 1 ? 'template' : 'templates'}` });
+    } catch (err) {
+      setTemplateMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to import templates' });
+    }
+  };
+
+  // Settings handlers
+  const usesBaseURL = (provider: AIProvider) => provider === 'openai-compatible' || provider === 'ollama';
+
+  // Ask for access to the Ollama host. Must run before anything else is awaited
+  // in a click handler - the browser only shows the prompt for a user gesture.
+  // Returns why access wasn't given, or null when it was.
+  const requestOllamaAccess = async (url: string): Promise<string | null> => {
+    try {
+      const granted = await browser.permissions.request({ origins: [getOllamaOriginPattern(url)] });
+      return granted ? null : 'Access to the Ollama host was not granted';
+    } catch (err) {
+      console.error('WorthKeeping: Could not request access to the Ollama host', err);
+      return err instanceof Error ? err.message : 'Could not request access to the Ollama host';
+    }
+  };
+
+  const handleListOllamaModels = async () => {
+    const accessError = await requestOllamaAccess(baseURL());
+    setOllamaError(accessError ?? '');
+    if (accessError) return;
+
+    setIsListingOllamaModels(true);
+    try {
+      const models = await listOllamaModels(baseURL());
+      setOllamaModels(models);
+      if (models.length === 0) {
+        setOllamaError('No models installed yet - run "ollama pull llama3.2" first');
+      } else if (!modelName()) {
+        setModelName(models[0].name);
+      }
+    } catch (err) {
+      setOllamaModels([]);
+      setOllamaError(err instanceof Error ? err.message : 'Could not reach Ollama');
+    }
+    setIsListingOllamaModels(false);
+  };
+
+  const handleSaveSettings = async () => {
+    const provider = aiProvider();
+    const url = usesBaseURL(provider) ? baseURL() : undefined;
+    const model = modelName() || undefined;
+
+    if (provider === 'ollama') {
+      const accessError = await requestOllamaAccess(baseURL());
+      setOllamaError(accessError ?? '');
+      if (accessError) {
+        setTestResult('error');
+        return;
+      }
+    }
+
+    setIsTesting(true);
+    setTestResult(null);
+
+    // Download the in-browser model first so the test doesn't look stuck
+    if (provider === 'browser') {
+      try {
+        setBrowserModelProgress(0);
+        await loadBrowserModel(model || DEFAULT_MODELS.browser, setBrowserModelProgress);
+      } catch (err) {
+        console.error('WorthKeeping: Failed to load in-browser model', err);
+      }
+      setBrowserModelProgress(null);
+    }
+
+    const success = await testAPIKey(provider, isLocalProvider(provider) ? '' : apiKey(), url, model);
+
+    if (success) {
+      await saveAIConfig({
+        provider,
+        apiKey: isLocalProvider(provider) ? '' : apiKey(),
+        baseURL: url,
+        model,
+      });
+      setIsConfigured(true);
+      setTestResult('success');
+    } else {
+      setTestResult('error');
+    }
+
+    setIsTesting(false);
+  };
+
+  const handleClearSettings = async () => {
+    await clearAIConfig();
+    setApiKey('');
+    setBaseURL('');
+    setModelName('');
+    setIsConfigured(false);
+    setTestResult(null);
+  };
+
+  // Redaction handlers
+  const splitLines = (text: string) =>
+    text
+      .split('\n')
+      .map((line) => line.trim())
+      .filter(Boolean);
+
+  const draftToRedactionSettings = (): RedactionSettings | null => {
+    const draft = redactionDraft();
+    return draft ? { ...draft, patterns: splitLines(draft.patterns), terms: splitLines(draft.terms) } : null;
+  };
+
+  const handleSaveRedaction = async () => {
+    const settings = draftToRedactionSettings();
+    if (!settings) return;
+
+    setRedactionMessage(null);
+    try {
+      await saveRedactionSettings(settings);
+      setRedactionMessage({ type: 'success', text: 'Redaction settings saved' });
+    } catch (err) {
+      setRedactionMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to save' });
+    }
+  };
+
+  // Sample text run through the unsaved settings
+  const redactionSampleOutput = createMemo(() => {
+    const settings = draftToRedactionSettings();
+    if (!settings || !redactionSample()) return '';
+    try {
+      validateRedactionPatterns(settings.patterns);
+      return createRedactor(settings).redact(redactionSample());
+    } catch (err) {
+      return err instanceof Error ? err.message : String(err);
+    }
+  });
+
+  // Fallback provider handlers
+  const handleAddFallback = async () => {
+    const draft = fallbackDraft();
+    if (!draft) return;
+
+    const config: AIConfig = {
+      provider: draft.provider,
+      apiKey: isLocalProvider(draft.provider) ? '' : draft.apiKey.trim(),
+      model: draft.model?.trim() || undefined,
+      baseURL: usesBaseURL(draft.provider) ? draft.baseURL?.trim() || undefined : undefined,
+    };
+
+    const accessError = config.provider === 'ollama' ? await requestOllamaAccess(config.baseURL ?? '') : null;
+    setFallbackError(accessError ?? '');
+    if (accessError) return;
+
+    setIsTestingFallback(true);
+    if (await testAPIKey(config.provider, config.apiKey, config.baseURL, config.model)) {
+      const updated = [...fallbackProviders(), config];
+      await saveFallbackProviders(updated);
+      setFallbackProviders(updated);
+      setFallbackDraft(null);
+    } else {
+      setFallbackError('Could not get an answer with this key and model. Please check and try again.');
+    }
+    setIsTestingFallback(false);
+  };
+
+  const handleMoveFallback = async (index: number, offset: -1 | 1) => {
+    const updated = [...fallbackProviders()];
+    [updated[index], updated[index + offset]] = [updated[index + offset], updated[index]];
+    await saveFallbackProviders(updated);
+    setFallbackProviders(updated);
+  };
+
+  const handleRemoveFallback = async (index: number) => {
+    const updated = fallbackProviders().filter((_, i) => i !== index);
+    await saveFallbackProviders(updated);
+    setFallbackProviders(updated);
+  };
+
+  // GitHub handlers
+  const handleSaveGitHubPAT = async () => {
+    setIsTestingGitHub(true);
+    setGitHubTestResult(null);
+    setGitHubTestError(null);
+
+    const result = await validateGitHubPAT(githubPAT());
+
+    if (result.valid) {
+      await saveGitHubPAT(githubPAT());
+      setIsGitHubConfigured(true);
+      setGithubUsername(result.username || '');
+      setGitHubTestResult('success');
+
+      // Trigger initial sync
+      triggerGitHubSync();
+    } else {
+      setGitHubTestResult('error');
+      setGitHubTestError(result.error || 'Invalid token');
+    }
+
+    setIsTestingGitHub(false);
   };
 
   const handleClearGitHubPAT = async () => {
@@ -460,48 +1687,415 @@ export default function App() {
     }
   };
 
+  // Entries (respecting scope) and PRs for the export time range
+  const getExportData = async () => {
+    const range = exportRange();
+    const { startTime, endTime } = range === 'all' ? { startTime: 0, endTime: Date.now() } : getTimeRange(range);
+    const rangeEntries = scopedEntries().filter((e) => e.timestamp >= startTime && e.timestamp <= endTime);
+
+    let prs: GitHubPR[] = [];
+    if (isGitHubConfigured() && exportIncludePRs()) {
+      prs = range === 'all' ? await getGitHubPRs() : await getGitHubPRsInRange(startTime, endTime);
+    }
+
+    return { entries: rangeEntries, prs, startTime, endTime };
+  };
+
+  // Export brag document as Markdown
+  const handleExportBragDoc = async () => {
+    try {
+      const { entries: rangeEntries, prs, startTime, endTime } = await getExportData();
+      if (rangeEntries.length === 0 && prs.length === 0) {
+        alert('Nothing to export for the selected time range.');
+        return;
+      }
+
+      const formatDate = (t: number) =>
+        new Date(t).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+      const firstTime = Math.min(...rangeEntries.map((e) => e.timestamp), ...prs.map((pr) => pr.createdAt));
+      const markdown = exportBragDocument(rangeEntries, prs, {
+        groupBy: exportGroupBy(),
+        title: scopeProject() ? `Brag Document — ${scopeProject()}` : 'Brag Document',
+        rangeLabel: `${formatDate(Math.max(startTime, firstTime))} – ${formatDate(endTime)}`,
+      });
+      downloadFile(markdown, generateExportFilename(`brag-doc-${exportRange()}`, 'md'), 'text/markdown;charset=utf-8;');
+    } catch (err) {
+      console.error('Failed to export brag document:', err);
+      alert('Failed to export brag document. Please try again.');
+    }
+  };
+
+  // Export entries as CSV
+  const handleExportEntriesCSV = async () => {
+    const { entries: rangeEntries } = await getExportData();
+    if (rangeEntries.length === 0) {
+      alert('No entries to export for the selected time range.');
+      return;
+    }
+    downloadCSV(exportEntriesToCSV(rangeEntries), generateExportFilename(`worthkeeping-entries-${exportRange()}`));
+  };
+
+  // Import: parse into a preview first, commit on confirm.
+  // CSV files go through the CSV parser, everything else is treated as a Markdown/text journal.
+  const handleImportFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+
+    setImportMessage(null);
+    try {
+      const results = await Promise.all(
+        Array.from(files).map(async (file) =>
+          file.name.toLowerCase().endsWith('.csv')
+            ? parseEntriesCSV(await file.text())
+            : parseJournal(await file.text(), file.name)
+        )
+      );
+      setImportPreview(await buildImportPreview(mergeParsedImports(results)));
+    } catch (err) {
+      console.error('Failed to parse import file:', err);
+      setImportMessage({ type: 'error', text: 'Could not read that file.' });
+    }
+  };
+
+  const handleConfirmImport = async () => {
+    const preview = importPreview();
+    if (!preview || preview.entries.length === 0) return;
+
+    setIsImporting(true);
+    try {
+      const count = await importEntries(preview.entries);
+      setImportMessage({ type: 'success', text: `Imported ${count} entries` });
+      setImportPreview(null);
+      queueMissingEmbeddings();
+    } catch (err) {
+      console.error('Failed to import entries:', err);
+      setImportMessage({ type: 'error', text: 'Import failed. No entries were added.' });
+    }
+    setIsImporting(false);
+  };
+
+  // Backup & restore
+  const handleDownloadBackup = async () => {
+    try {
+      const backup = await createBackup({ includeEmbeddings: backupEmbeddings() });
+      downloadFile(serializeBackup(backup), generateExportFilename('worthkeeping-backup', 'json'), 'application/json');
+      setBackupMessage({
+        type: 'success',
+        text: `Backed up ${backup.entries.length} entries and ${backup.githubPRs.length} PRs`,
+      });
+    } catch (err) {
+      console.error('Failed to create backup:', err);
+      setBackupMessage({ type: 'error', text: 'Failed to create backup. Please try again.' });
+    }
+  };
+
+  const handleRestoreBackup = async (file: File | undefined) => {
+    if (!file) return;
+
+    setBackupMessage(null);
+    setIsRestoring(true);
+
+    try {
+      const backup = parseBackup(await file.text());
+      const mode = restoreMode();
+
+      if (
+        mode === 'replace' &&
+        !confirm(`Replace all local data with ${backup.entries.length} entries from this backup? This cannot be undone.`)
+      ) {
+        setIsRestoring(false);
+        return;
+      }
+
+      const result = await restoreBackup(backup, mode);
+      setBackupMessage({
+        type: 'success',
+        text: `Restored ${result.entries} entries, ${result.prs} PRs, ${result.stories} STAR stories, ${result.chats} chats, ${result.digests} digests and ${result.settings} settings`,
+      });
+
+      setTrashRetentionDaysSignal(await getTrashRetentionDays());
+      setSyncStatus(await getGitHubSyncStatus());
+
+      setEmbeddingModelId((await getEmbeddingModel()).id);
+
+      // Restoring drops the vector index; entries without embeddings from the
+      // current model need re-indexing for semantic search
+      await requestVectorIndexBuild(embeddingModelId());
+      queueMissingEmbeddings();
+    } catch (err) {
+      setBackupMessage({ type: 'error', text: err instanceof Error ? err.message : 'Failed to restore backup' });
+    }
+
+    setIsRestoring(false);
+  };
+
   const filteredGroups = () => Array.from(getFilteredEntries().entries());
   const isEmpty = () => filteredGroups().length === 0;
 
   // Entry card component
-  const EntryCard = (props: { entry: MemoryEntry; showScore?: number }) => {
+  const HighlightedText = (props: { text: string; terms?: string[] }) => (
+    <Show when={props.terms} fallback={props.text}>
+      <For each={highlightSegments(props.text, props.terms!)}>
+        {(segment) => (segment.match ? <mark class="search-highlight">{segment.text}</mark> : segment.text)}
+      </For>
+    </Show>
+  );
+
+  // PR as a search result - links out to GitHub
+  const PRResultCard = (props: { pr: GitHubPR; showScore?: number; keywordMatch?: boolean; highlight?: string[] }) => {
     return (
       <div class="entry">
-        <div class="entry-text">{props.entry.text}</div>
+        <span class="source-badge pr">PR</span>
+        <a class="entry-text pr-result-title" href={props.pr.url} target="_blank" rel="noopener noreferrer">
+          <HighlightedText text={props.pr.title} terms={props.highlight} />
+        </a>
         <div class="entry-meta">
-          <span class="entry-time">{formatTime(props.entry.timestamp)}</span>
+          <span class="entry-time">{formatDateKey(new Date(props.pr.createdAt))}</span>
+          <span class="entry-dot" />
+          <span class="entry-project" onClick={() => setSearchRepo(props.pr.repo)}>
+            {props.pr.repo}#{props.pr.number}
+          </span>
+          <span class="entry-dot" />
+          <span>{props.pr.mergedAt ? 'merged' : props.pr.state}</span>
           <Show when={props.showScore !== undefined}>
             <span class="entry-dot" />
             <span class="score">{Math.round(props.showScore! * 100)}% match</span>
           </Show>
-        </div>
-        <div class="entry-actions">
-          <button class="delete-btn" onClick={() => handleDelete(props.entry.id)} title="Delete">
-            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
-              <path d="M3 6h18M19 6v14a2 2 0 01-2 2H7a2 2 0 01-2-2V6m3 0V4a2 2 0 012-2h4a2 2 0 012 2v2" />
-            </svg>
-          </button>
+          <Show when={props.keywordMatch}>
+            <span class="entry-dot" />
+            <span class="score">keyword</span>
+          </Show>
         </div>
       </div>
     );
   };
 
-  return (
-    <div class="container">
-      <header class="header">
-        <div class="header-top">
-          <h1>
-            <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
-              <path d="M19 21l-7-5-7 5V5a2 2 0 0 1 2-2h10a2 2 0 0 1 2 2z" />
-            </svg>
-            WorthKeeping
-          </h1>
-          <button
-            class="settings-btn"
-            onClick={() => setView(view() === 'settings' ? 'insights' : 'settings')}
-            title="Settings"
-          >
-            <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+  const EntryCard = (props: {
+    entry: MemoryEntry;
+    showScore?: number;
+    keywordMatch?: boolean;
+    highlight?: string[];
+    showSource?: boolean;
+    showSuggestions?: boolean;
+  }) => {
+    return (
+      <div class={`entry ${focusedEntryId() === props.entry.id ? 'focused' : ''}`} data-entry-id={props.entry.id}>
+        <Show when={props.showSource}>
+          <span class="source-badge">Entry</span>
+        </Show>
+        <div class="entry-text">
+          <HighlightedText text={props.entry.text} terms={props.highlight} />
+        </div>
+        <div class="entry-meta">
+          <span class="entry-time">{formatTime(props.entry.timestamp)}</span>
+          <Show when={props.showScore !== undefined}>
+            <span class="entry-dot" />
+            <span class="score">{Math.round(props.showScore! * 100)}% match</span>
+          </Show>
+          <Show when={props.keywordMatch}>
+            <span class="entry-dot" />
+            <span class="score">keyword</span>
+          </Show>
+          <Show when={props.entry.project}>
+            <span class="entry-dot" />
+            <span class="entry-project" onClick={() => setScopeProject(props.entry.project!)}>
+              {props.entry.project}
+            </span>
+          </Show>
+          <Show when={props.entry.category}>
+            <span class="entry-dot" />
+            <span class="entry-category">{props.entry.category}</span>
+          </Show>
+          <For each={props.entry.tags ?? []}>
+            {(tag) => (
+              <span class="entry-tag" onClick={() => setScopeTag(tag)}>
+                #{tag}
+              </span>
+            )}
+          </For>
+        </div>
+        <Show when={props.showSuggestions && editingId() !== props.entry.id && getVisibleSuggestion(props.entry)}>
+          {(suggestion) => (
+            <div class="entry-suggestions">
+              <Show when={suggestion().category}>
+                <div class="entry-suggestion">
+                  <span class="entry-suggestion-label">Category</span>
+                  <span class="entry-suggestion-value">{suggestion().category}</span>
+                  <button class="link-btn" onClick={() => handleAcceptSuggestion(props.entry.id, 'category')}>
+                    Accept
+                  </button>
+                  <button class="link-btn" onClick={() => dismissSuggestion(props.entry.id, 'category')}>
+                    Reject
+                  </button>
+                </div>
+              </Show>
+              <Show when={suggestion().tags}>
+                <div class="entry-suggestion">
+                  <span class="entry-suggestion-label">Tags</span>
+                  <span class="entry-suggestion-value">{suggestion().tags!.map((tag) => `#${tag}`).join(' ')}</span>
+                  <button class="link-btn" onClick={() => handleAcceptSuggestion(props.entry.id, 'tags')}>
+                    Accept
+                  </button>
+                  <button class="link-btn" onClick={() => dismissSuggestion(props.entry.id, 'tags')}>
+                    Reject
+                  </button>
+                </div>
+              </Show>
+              <Show when={isRewriteCurrent(suggestion(), props.entry)}>
+                <div class="entry-suggestion rewrite">
+                  <span class="entry-suggestion-label">Rewrite</span>
+                  <span class="entry-suggestion-value">{suggestion().rewrite}</span>
+                  <button
+                    class="link-btn"
+                    onClick={() => handleAcceptSuggestion(props.entry.id, 'rewrite')}
+                    title="The current text is kept in the entry's history"
+                  >
+                    Accept
+                  </button>
+                  <button class="link-btn" onClick={() => dismissSuggestion(props.entry.id, 'rewrite')}>
+                    Reject
+                  </button>
+                </div>
+              </Show>
+            </div>
+          )}
+        </Show>
+        <Show when={editingId() === props.entry.id}>
+          <div class="entry-edit-form">
+            <textarea value={textDraft()} onInput={(e) => setTextDraft(e.currentTarget.value)} rows={3} />
+            <input
+              type="text"
+              value={urlDraft()}
+              onInput={(e) => setUrlDraft(e.currentTarget.value)}
+              placeholder="URL"
+            />
+            <input type="datetime-local" value={timeDraft()} onInput={(e) => setTimeDraft(e.currentTarget.value)} />
+            <input
+              type="text"
+              value={projectDraft()}
+              onInput={(e) => setProjectDraft(e.currentTarget.value)}
+              placeholder="Project"
+            />
+            <input
+              type="text"
+              value={tagDraft()}
+              onInput={(e) => setTagDraft(e.currentTarget.value)}
+              placeholder="Tags, comma separated"
+            />
+            <select
+              value={categoryDraft()}
+              onChange={(e) => setCategoryDraft(e.currentTarget.value as EntryCategory | '')}
+            >
+              <option value="">No category</option>
+              <For each={ENTRY_CATEGORIES}>{(category) => <option value={category}>{category}</option>}</For>
+            </select>
+            <div class="entry-edit-form-actions">
+              <button class="link-btn" onClick={() => toggleRevisions(props.entry.id)}>
+                {revisionsFor() === props.entry.id ? 'Hide history' : 'History'}
+              </button>
+              <button class="link-btn" onClick={() => setEditingId(null)}>
+                Cancel
+              </button>
+              <button class="link-btn" onClick={() => handleSaveEdit(props.entry.id)} disabled={!textDraft().trim()}>
+                Save
+              </button>
+            </div>
+          </div>
+        </Show>
+        <Show when={revisionsFor() === props.entry.id}>
+          <div class="entry-revisions">
+            <Show when={revisions().length > 0} fallback={<p class="settings-hint">No previous versions</p>}>
+              <For each={revisions()}>
+                {(revision) => (
+                  <div class="entry-revision">
+                    <div class="entry-revision-text">{revision.text}</div>
+                    <div class="entry-meta">
+                      <span>Replaced {new Date(revision.editedAt).toLocaleString()}</span>
+                      <button class="link-btn" onClick={() => handleRestoreRevision(revision.id)}>
+                        Restore
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </For>
+            </Show>
+          </div>
+        </Show>
+        <div class="entry-actions">
+          <button class="delete-btn" onClick={() => startEditing(props.entry)} title="Edit">
+            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+              <path d="M11 4H4a2 2 0 00-2 2v14a2 2 0 002 2h14a2 2 0 002-2v-7" />
+              <path d="M18.5 2.5a2.12 2.12 0 013 3L12 15l-4 1 1-4 9.5-9.5z" />
+            </svg>
+          </button>
+          <button class="delete-btn" onClick={() => handleDelete(props.entry)} title="Move to trash">
+            <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+              <path d="M3 6h18M19 6v14a2 2 0 01-2 2H7a2 2 0 01-2-2V6m3 0V4a2 2 0 012-2h4a2 2 0 012 2v2" />
+            </svg>
+          </button>
+        </div>
+      </div>
+    );
+  };
+
+  // Project/tag scope selector
+  // Link to an entry or PR an answer, story or competency is based on
+  const SourceChip = (props: { source: CitationRef }) =>
+    props.source.source === 'pr' ? (
+      <a
+        class="citation-chip pr"
+        href={props.source.url}
+        target="_blank"
+        rel="noopener noreferrer"
+        title={props.source.label}
+      >
+        {props.source.ref}
+      </a>
+    ) : (
+      <button class="citation-chip entry" onClick={() => openCitation(props.source)} title={props.source.label}>
+        {props.source.ref}
+      </button>
+    );
+
+  const ScopeBar = () => (
+    <Show when={availableProjects().length > 0 || availableTags().length > 0}>
+      <div class="scope-bar">
+        <span class="chat-time-label">Scope:</span>
+        <Show when={availableProjects().length > 0}>
+          <select
+            class="chat-time-select"
+            value={scopeProject()}
+            onChange={(e) => setScopeProject(e.currentTarget.value)}
+          >
+            <option value="">All projects</option>
+            <For each={availableProjects()}>{(project) => <option value={project}>{project}</option>}</For>
+          </select>
+        </Show>
+        <Show when={availableTags().length > 0}>
+          <select class="chat-time-select" value={scopeTag()} onChange={(e) => setScopeTag(e.currentTarget.value)}>
+            <option value="">All tags</option>
+            <For each={availableTags()}>{(tag) => <option value={tag}>#{tag}</option>}</For>
+          </select>
+        </Show>
+      </div>
+    </Show>
+  );
+
+  return (
+    <div class="container">
+      <header class="header">
+        <div class="header-top">
+          <h1>
+            <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+              <path d="M19 21l-7-5-7 5V5a2 2 0 0 1 2-2h10a2 2 0 0 1 2 2z" />
+            </svg>
+            WorthKeeping
+          </h1>
+          <button
+            class="settings-btn"
+            onClick={() => setView(view() === 'settings' ? 'insights' : 'settings')}
+            title="Settings"
+          >
+            <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
               <path d="M12.22 2h-.44a2 2 0 0 0-2 2v.18a2 2 0 0 1-1 1.73l-.43.25a2 2 0 0 1-2 0l-.15-.08a2 2 0 0 0-2.73.73l-.22.38a2 2 0 0 0 .73 2.73l.15.1a2 2 0 0 1 1 1.72v.51a2 2 0 0 1-1 1.74l-.15.09a2 2 0 0 0-.73 2.73l.22.38a2 2 0 0 0 2.73.73l.15-.08a2 2 0 0 1 2 0l.43.25a2 2 0 0 1 1 1.73V20a2 2 0 0 0 2 2h.44a2 2 0 0 0 2-2v-.18a2 2 0 0 1 1-1.73l.43-.25a2 2 0 0 1 2 0l.15.08a2 2 0 0 0 2.73-.73l.22-.39a2 2 0 0 0-.73-2.73l-.15-.08a2 2 0 0 1-1-1.74v-.5a2 2 0 0 1 1-1.74l.15-.09a2 2 0 0 0 .73-2.73l-.22-.38a2 2 0 0 0-2.73-.73l-.15.08a2 2 0 0 1-2 0l-.43-.25a2 2 0 0 1-1-1.73V4a2 2 0 0 0-2-2z" />
               <circle cx="12" cy="12" r="3" />
             </svg>
@@ -543,6 +2137,8 @@ export default function App() {
             </div>
           }
         >
+          <ScopeBar />
+
           <Show when={insights().todayCount === 0}>
             <div class="insight-card capture-prompt-card">
               <p class="capture-prompt-text">What did you accomplish today?</p>
@@ -554,7 +2150,7 @@ export default function App() {
 
           <div class="insight-card review-ready-card">
             <div class="review-ready-header">
-              <span class="review-ready-count">{entries().length}</span>
+              <span class="review-ready-count">{scopedEntries().length}</span>
               <span class="review-ready-label">memories captured</span>
             </div>
             <Show when={insights().keywords.length > 0}>
@@ -592,7 +2188,7 @@ export default function App() {
               fallback={<p class="insight-empty">No entries this week yet</p>}
             >
               <div class="entries">
-                <For each={entries().filter(e => {
+                <For each={scopedEntries().filter(e => {
                   const weekAgo = Date.now() - 7 * 24 * 60 * 60 * 1000;
                   return e.timestamp > weekAgo;
                 }).slice(0, 3)}>
@@ -605,6 +2201,8 @@ export default function App() {
       </Show>
 
       <Show when={view() === 'history'}>
+        <ScopeBar />
+
         <Show when={entries().length > 0}>
           <div class="stats">
             <div class="stat">
@@ -616,7 +2214,7 @@ export default function App() {
               <div class="stat-label">This Week</div>
             </div>
             <div class="stat">
-              <div class="stat-value">{entries().length}</div>
+              <div class="stat-value">{scopedEntries().length}</div>
               <div class="stat-label">Total</div>
             </div>
           </div>
@@ -655,12 +2253,70 @@ export default function App() {
               <div class="day-group">
                 <div class={`day-header ${dateKey === 'Today' ? 'today' : ''}`}>{dateKey}</div>
                 <div class="entries">
-                  <For each={dayEntries}>{(entry) => <EntryCard entry={entry} />}</For>
+                  <For each={dayEntries}>{(entry) => <EntryCard entry={entry} showSuggestions />}</For>
                 </div>
               </div>
             )}
           </For>
         </Show>
+
+        <Show when={trashedEntries().length > 0}>
+          <button class="clear-chat-btn" onClick={() => setView('trash')}>
+            Trash ({trashedEntries().length})
+          </button>
+        </Show>
+      </Show>
+
+      <Show when={view() === 'trash'}>
+        <div class="trash-section">
+          <div class="trash-header">
+            <h2>Trash</h2>
+            <Show when={trashedEntries().length > 0}>
+              <button class="danger-btn" onClick={handleEmptyTrash}>
+                Empty trash
+              </button>
+            </Show>
+          </div>
+          <p class="settings-desc">
+            Deleted entries are permanently removed after {trashRetentionDays()} days.
+          </p>
+
+          <Show
+            when={trashedEntries().length > 0}
+            fallback={
+              <div class="empty-state">
+                <p>Trash is empty</p>
+              </div>
+            }
+          >
+            <div class="entries">
+              <For each={trashedEntries()}>
+                {(entry) => (
+                  <div class="entry trashed">
+                    <div class="entry-text">{entry.text}</div>
+                    <div class="entry-meta">
+                      <span class="entry-time">{new Date(entry.timestamp).toLocaleDateString()}</span>
+                      <span class="entry-dot" />
+                      <span>Deleted {new Date(entry.deletedAt!).toLocaleDateString()}</span>
+                    </div>
+                    <div class="trash-actions">
+                      <button class="link-btn" onClick={() => restoreEntry(entry.id)}>
+                        Restore
+                      </button>
+                      <button class="link-btn danger" onClick={() => handlePurge(entry.id)}>
+                        Delete forever
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </For>
+            </div>
+          </Show>
+
+          <button class="back-btn" onClick={() => setView('history')}>
+            Back to History
+          </button>
+        </div>
       </Show>
 
       <Show when={view() === 'search'}>
@@ -687,6 +2343,12 @@ export default function App() {
             <p class="model-status">Loading AI model for semantic search...</p>
           </Show>
 
+          <Show when={modelStatus() !== 'loading' && jobProgress().pending + jobProgress().running > 0}>
+            <p class="model-status">
+              Indexing {jobProgress().pending + jobProgress().running} entries — they'll show up in search shortly
+            </p>
+          </Show>
+
           <div class="search-hints">
             <For each={searchSuggestions()}>
               {(keyword) => (
@@ -703,6 +2365,21 @@ export default function App() {
             </For>
           </div>
 
+          <Show when={availableRepos().length > 0}>
+            <div class="search-repo-filter">
+              <select
+                value={searchRepo()}
+                onChange={(e) => {
+                  setSearchRepo(e.currentTarget.value);
+                  if (searchQuery().trim()) handleSearch();
+                }}
+              >
+                <option value="">All repos</option>
+                <For each={availableRepos()}>{(repo) => <option value={repo}>{repo}</option>}</For>
+              </select>
+            </div>
+          </Show>
+
           <Show when={searchTimeFilter()}>
             <div class="search-filter-badge">
               Filtering: {searchTimeFilter()}
@@ -715,248 +2392,1886 @@ export default function App() {
               <p class="results-count">{searchResults().length} results</p>
               <div class="entries">
                 <For each={searchResults()}>
-                  {(result) => <EntryCard entry={result.entry} showScore={result.score} />}
+                  {(result) =>
+                    result.source === 'pr' ? (
+                      <PRResultCard
+                        pr={result.pr}
+                        showScore={result.semanticScore}
+                        keywordMatch={result.keywordScore !== undefined}
+                        highlight={result.terms}
+                      />
+                    ) : (
+                      <EntryCard
+                        entry={result.entry}
+                        showScore={result.semanticScore}
+                        keywordMatch={result.keywordScore !== undefined}
+                        highlight={result.terms}
+                        showSource
+                      />
+                    )
+                  }
                 </For>
               </div>
-            </div>
+            </div>
+          </Show>
+
+          <Show when={searchResults().length === 0 && searchQuery() && !isSearching()}>
+            <div class="empty-state">
+              <p>No results found. Try different keywords or time filters.</p>
+            </div>
+          </Show>
+        </div>
+      </Show>
+
+      <Show when={view() === 'review'}>
+        <div class="chat-section">
+          <Show when={!isConfigured()}>
+            <div class="warning-box">
+              <p>Add your API key in Settings to chat with your memories</p>
+              <button class="link-btn" onClick={() => setView('settings')}>
+                Go to Settings
+              </button>
+            </div>
+          </Show>
+
+          <div class="tabs review-mode-tabs">
+            <button class={`tab ${reviewMode() === 'chat' ? 'active' : ''}`} onClick={() => setReviewMode('chat')}>
+              Chat
+            </button>
+            <button
+              class={`tab ${reviewMode() === 'stories' ? 'active' : ''}`}
+              onClick={() => setReviewMode('stories')}
+            >
+              STAR stories
+            </button>
+            <button
+              class={`tab ${reviewMode() === 'competencies' ? 'active' : ''}`}
+              onClick={() => setReviewMode('competencies')}
+            >
+              Competencies
+            </button>
+            <button
+              class={`tab ${reviewMode() === 'digests' ? 'active' : ''}`}
+              onClick={() => setReviewMode('digests')}
+            >
+              Digests{unreadDigests() > 0 ? ` (${unreadDigests()})` : ''}
+            </button>
+          </div>
+
+          <ScopeBar />
+
+          <div class="chat-time-selector">
+            <span class="chat-time-label">Looking at:</span>
+            <select
+              value={chatTimeRange()}
+              onChange={(e) => setChatTimeRange(e.currentTarget.value as TimeRange)}
+              class="chat-time-select"
+              disabled={reviewMode() === 'chat' && isFollowUp()}
+              title={isFollowUp() ? 'Start a new chat to look at a different time range' : undefined}
+            >
+              <option value="week">This Week</option>
+              <option value="month">This Month</option>
+              <option value="quarter">This Quarter</option>
+              <option value="year">This Year</option>
+              <option value="all">All Time</option>
+            </select>
+            <Show when={reviewMode() === 'chat'}>
+              <button class="link-btn session-toggle" onClick={() => setShowSessions(!showSessions())}>
+                {showSessions() ? 'Hide chats' : `Saved chats (${chatSessions().length})`}
+              </button>
+            </Show>
+          </div>
+
+          <Show when={reviewMode() === 'chat' && showSessions()}>
+            <div class="session-list">
+              <Show when={chatSessions().length > 0} fallback={<p class="settings-hint">No saved chats yet</p>}>
+                <For each={chatSessions()}>
+                  {(session) => (
+                    <div class={`session-item ${currentSessionId() === session.id ? 'active' : ''}`}>
+                      <Show
+                        when={renamingSessionId() === session.id}
+                        fallback={
+                          <button
+                            class="session-title"
+                            onClick={() => handleOpenSession(session)}
+                            disabled={isStreaming()}
+                          >
+                            {session.title}
+                          </button>
+                        }
+                      >
+                        <input
+                          type="text"
+                          class="session-title-input"
+                          value={sessionTitleDraft()}
+                          onInput={(e) => setSessionTitleDraft(e.currentTarget.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') handleSaveRename(session.id);
+                            if (e.key === 'Escape') setRenamingSessionId(null);
+                          }}
+                        />
+                      </Show>
+                      <div class="entry-meta">
+                        <span>{new Date(session.updatedAt).toLocaleDateString()}</span>
+                        <span class="entry-dot" />
+                        <span>{session.messages.filter((m) => m.role === 'user').length} questions</span>
+                        <Show
+                          when={renamingSessionId() === session.id}
+                          fallback={
+                            <>
+                              <button class="link-btn" onClick={() => handleStartRename(session)}>
+                                Rename
+                              </button>
+                              <button class="link-btn" onClick={() => handleDuplicateSession(session.id)}>
+                                Duplicate
+                              </button>
+                              <button
+                                class="link-btn danger"
+                                onClick={() => handleDeleteSession(session)}
+                                disabled={isStreaming() && currentSessionId() === session.id}
+                              >
+                                Delete
+                              </button>
+                            </>
+                          }
+                        >
+                          <button class="link-btn" onClick={() => setRenamingSessionId(null)}>
+                            Cancel
+                          </button>
+                          <button
+                            class="link-btn"
+                            onClick={() => handleSaveRename(session.id)}
+                            disabled={!sessionTitleDraft().trim()}
+                          >
+                            Save
+                          </button>
+                        </Show>
+                      </div>
+                    </div>
+                  )}
+                </For>
+              </Show>
+            </div>
+          </Show>
+
+          <Show when={reviewMode() === 'chat'}>
+            <div class="chat-time-selector template-selector">
+              <span class="chat-time-label">Template:</span>
+              <select
+                value={selectedTemplateId()}
+                onChange={(e) => handleSelectTemplate(e.currentTarget.value)}
+                class="chat-time-select"
+                disabled={isFollowUp()}
+                title={selectedTemplate().description}
+              >
+                <For each={promptTemplates()}>{(template) => <option value={template.id}>{template.name}</option>}</For>
+              </select>
+            </div>
+          </Show>
+
+          <Show when={reviewMode() === 'chat' && isLongRange() && !isFollowUp()}>
+            <div class="github-toggle summary-toggle">
+              <label class="toggle-label">
+                <input
+                  type="checkbox"
+                  checked={deepSummary()}
+                  onChange={(e) => setDeepSummary(e.currentTarget.checked)}
+                />
+                <span class="toggle-text">Summarize by</span>
+              </label>
+              <select
+                class="chat-time-select"
+                value={summaryGranularity()}
+                onChange={(e) => setSummaryGranularity(e.currentTarget.value as SummaryGranularity)}
+                disabled={!deepSummary()}
+              >
+                <option value="month">month</option>
+                <option value="week">week</option>
+              </select>
+              <span class="toggle-text">first</span>
+            </div>
+          </Show>
+
+          <Show when={reviewMode() === 'chat' && !isFollowUp() && canAnswerFromDigests()}>
+            <div class="github-toggle">
+              <label class="toggle-label">
+                <input type="checkbox" checked={useDigests()} onChange={(e) => setUseDigests(e.currentTarget.checked)} />
+                <span class="toggle-text">Answer from saved digests</span>
+                <span class="toggle-badge">{reviewDigests().length} digests</span>
+              </label>
+            </div>
+          </Show>
+
+          <Show when={isGitHubConfigured()}>
+            <div class="github-toggle">
+              <label class="toggle-label">
+                <input
+                  type="checkbox"
+                  checked={includeGitHubPRs()}
+                  onChange={(e) => setIncludeGitHubPRs(e.currentTarget.checked)}
+                  disabled={reviewMode() === 'chat' && isFollowUp()}
+                />
+                <span class="toggle-text">Include GitHub PRs</span>
+                <Show when={includeGitHubPRs() && syncStatus()?.prCount}>
+                  <span class="toggle-badge">{syncStatus()?.prCount} PRs</span>
+                </Show>
+              </label>
+            </div>
+          </Show>
+
+          <Show when={reviewMode() === 'chat'}>
+            <div class="chat-messages">
+              <Show when={chatMessages().length === 0}>
+                <div class="chat-empty">
+                  <p>Ask questions about your work</p>
+                </div>
+              </Show>
+
+              <For each={chatMessages()}>
+                {(msg, index) => {
+                  // Don't flag uncited statements while the answer is still coming in
+                  const answer = createMemo(() => {
+                    const html = marked.parse(msg.content) as string;
+                    if (!msg.citations) return { html, uncited: 0, invalid: 0 };
+                    const streaming = isStreaming() && index() === chatMessages().length - 1;
+                    return renderCitations(html, msg.citations, { flagUncited: !streaming });
+                  });
+
+                  return (
+                    <div class={`chat-message ${msg.role}`}>
+                      <Show when={msg.role === 'assistant'}>
+                        <div
+                          class="chat-content markdown"
+                          innerHTML={answer().html}
+                          onClick={(e) => handleCitationClick(e, msg)}
+                        />
+                        <Show when={answer().uncited > 0 || answer().invalid > 0}>
+                          <div class="citation-warning">
+                            {answer().uncited > 0
+                              ? `${answer().uncited} ${answer().uncited === 1 ? 'statement has' : 'statements have'} no citation`
+                              : ''}
+                            {answer().uncited > 0 && answer().invalid > 0 ? ' · ' : ''}
+                            {answer().invalid > 0
+                              ? `${answer().invalid} unknown ${answer().invalid === 1 ? 'reference' : 'references'}`
+                              : ''}
+                            {' '}- double-check these against your entries
+                          </div>
+                        </Show>
+                        <Show when={(msg.entriesUsed && msg.entriesUsed > 0) || (msg.prsUsed && msg.prsUsed > 0)}>
+                          <div class="chat-meta">
+                            Based on{' '}
+                            {msg.entriesUsed ? `${msg.entriesUsed} entries` : ''}
+                            {msg.entriesUsed && msg.prsUsed ? ' + ' : ''}
+                            {msg.prsUsed ? `${msg.prsUsed} PRs` : ''}
+                            <Show when={msg.summaries}>
+                              {(summaries) => (
+                                <>
+                                  {' '}
+                                  via {summaries().periods} {summaries().granularity === 'month' ? 'monthly' : 'weekly'}{' '}
+                                  summaries ({summaries().generated} new)
+                                </>
+                              )}
+                            </Show>
+                            <Show when={msg.digests}>{(count) => <> via {count()} saved digests</>}</Show>
+                            <Show when={msg.context}>
+                              {(context) => (
+                                <>
+                                  {' '}
+                                  · ~{context().tokensUsed.toLocaleString()} / {context().budget.toLocaleString()} tokens
+                                </>
+                              )}
+                            </Show>
+                          </div>
+                        </Show>
+                        <Show when={msg.provider}>
+                          {(provider) => (
+                            <div class="chat-meta">
+                              Answered by {PROVIDER_NAMES[provider().provider]} · {provider().model}
+                              {provider().fallback ? ' (fallback)' : ''}
+                            </div>
+                          )}
+                        </Show>
+                        <Show when={msg.context && msg.context.dropped.length > 0}>
+                          <details class="context-report">
+                            <summary>
+                              {msg.context!.dropped.length} less relevant items left out to fit the token budget
+                              {msg.context!.retrieval === 'recency' ? ' (ranked by date - search model unavailable)' : ''}
+                            </summary>
+                            <p class="context-report-heading">Included</p>
+                            <ul>
+                              <For each={msg.context!.included}>
+                                {(item) => (
+                                  <li>
+                                    <span class="context-report-source">{item.source === 'pr' ? 'PR' : 'Entry'}</span>
+                                    {item.label}
+                                  </li>
+                                )}
+                              </For>
+                            </ul>
+                            <p class="context-report-heading">Left out</p>
+                            <ul>
+                              <For each={msg.context!.dropped}>
+                                {(item) => (
+                                  <li>
+                                    <span class="context-report-source">{item.source === 'pr' ? 'PR' : 'Entry'}</span>
+                                    {item.label}
+                                  </li>
+                                )}
+                              </For>
+                            </ul>
+                          </details>
+                        </Show>
+                        <Show when={msg.content}>
+                          <button
+                            class="copy-btn-small"
+                            onClick={() => navigator.clipboard.writeText(msg.content)}
+                          >
+                            Copy
+                          </button>
+                        </Show>
+                      </Show>
+                      <Show when={msg.role === 'user'}>
+                        <div class="chat-content">{msg.content}</div>
+                      </Show>
+                    </div>
+                  );
+                }}
+              </For>
+
+              <Show when={isStreaming()}>
+                <div class="chat-streaming">
+                  {summaryProgress()
+                    ? `Summarizing ${summaryGranularity() === 'month' ? 'months' : 'weeks'} ${summaryProgress()!.done}/${summaryProgress()!.total}...`
+                    : 'Thinking...'}
+                </div>
+              </Show>
+            </div>
+
+            <Show when={chatMessages().length === 0}>
+              <div class="quick-prompts">
+                <For each={quickPrompts()}>
+                  {(prompt) => (
+                    <button
+                      class="quick-prompt-chip"
+                      onClick={() => handleSendChat(prompt.question)}
+                      disabled={isStreaming() || !isConfigured()}
+                    >
+                      {prompt.label}
+                    </button>
+                  )}
+                </For>
+              </div>
+            </Show>
+
+            <Show when={previewError()}>
+              <p class="error-msg">{previewError()}</p>
+            </Show>
+            <Show when={promptPreview()}>
+              {(preview) => (
+                <div class="prompt-preview">
+                  <div class="prompt-preview-header">
+                    <span>
+                      What will be sent · {preview().redactions.length}{' '}
+                      {preview().redactions.length === 1 ? 'value' : 'values'} redacted
+                    </span>
+                    <button class="link-btn" onClick={() => setPromptPreview(null)}>
+                      Close
+                    </button>
+                  </div>
+                  <Show when={preview().redactions.length > 0}>
+                    <ul class="redaction-list">
+                      <For each={preview().redactions}>
+                        {(redaction) => (
+                          <li>
+                            <code>{redaction.placeholder}</code> {redaction.original}
+                          </li>
+                        )}
+                      </For>
+                    </ul>
+                  </Show>
+                  <For each={preview().messages}>
+                    {(message) => (
+                      <div class="prompt-preview-message">
+                        <span class="context-report-source">{message.role === 'user' ? 'You' : 'Assistant'}</span>
+                        <pre>{message.content}</pre>
+                      </div>
+                    )}
+                  </For>
+                </div>
+              )}
+            </Show>
+
+            <div class="chat-input-container">
+              <input
+                type="text"
+                class="chat-input"
+                placeholder={isFollowUp() ? 'Ask a follow-up...' : 'Ask about your work...'}
+                value={chatInput()}
+                onInput={(e) => setChatInput(e.currentTarget.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSendChat(chatInput())}
+                disabled={isStreaming() || !isConfigured()}
+              />
+              <button
+                class="chat-send-btn"
+                onClick={() => handleSendChat(chatInput())}
+                disabled={isStreaming() || !chatInput().trim() || !isConfigured()}
+              >
+                Send
+              </button>
+            </div>
+
+            <div class="chat-footer-actions">
+              <Show when={chatMessages().length > 0}>
+                <button class="clear-chat-btn" onClick={handleNewChat} disabled={isStreaming()}>
+                  New chat
+                </button>
+              </Show>
+              <button
+                class="export-btn"
+                onClick={handlePreviewPrompt}
+                disabled={isPreviewing() || isStreaming() || !chatInput().trim() || summarizesFirst()}
+                title={
+                  summarizesFirst()
+                    ? 'Not available when summarizing first - summaries are generated by the AI'
+                    : 'Show exactly what leaves the browser for this question'
+                }
+              >
+                {isPreviewing() ? 'Building...' : 'Preview what is sent'}
+              </button>
+              <Show when={isGitHubConfigured() && includeGitHubPRs()}>
+                <button class="export-btn" onClick={handleExportPRs}>
+                  Export PRs (CSV)
+                </button>
+              </Show>
+            </div>
+          </Show>
+
+          <Show when={reviewMode() === 'stories'}>
+            <div class="stories-panel">
+              <div class="chat-input-container">
+                <input
+                  type="text"
+                  class="chat-input"
+                  placeholder="Focus (optional), e.g. leadership"
+                  value={storyFocus()}
+                  onInput={(e) => setStoryFocus(e.currentTarget.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleGenerateStories()}
+                  disabled={isGeneratingStories() || !isConfigured()}
+                />
+                <button
+                  class="chat-send-btn"
+                  onClick={handleGenerateStories}
+                  disabled={isGeneratingStories() || !isConfigured()}
+                >
+                  {isGeneratingStories() ? 'Writing...' : 'Generate'}
+                </button>
+              </div>
+              <Show when={storyError()}>
+                <p class="error-msg">{storyError()}</p>
+              </Show>
+
+              <Show
+                when={starStories().length > 0}
+                fallback={
+                  <div class="chat-empty">
+                    <p>Generate STAR stories (Situation, Task, Action, Result) from your entries</p>
+                  </div>
+                }
+              >
+                <div class="story-list">
+                  <For each={starStories()}>
+                    {(story) => (
+                      <div class="story-card">
+                        <Show
+                          when={editingStoryId() === story.id && storyDraft()}
+                          fallback={
+                            <>
+                              <h4 class="story-title">{story.title}</h4>
+                              <p class="story-part">
+                                <strong>Situation:</strong> {story.situation}
+                              </p>
+                              <p class="story-part">
+                                <strong>Task:</strong> {story.task}
+                              </p>
+                              <p class="story-part">
+                                <strong>Action:</strong> {story.action}
+                              </p>
+                              <p class="story-part">
+                                <strong>Result:</strong> {story.result}
+                              </p>
+                            </>
+                          }
+                        >
+                          {(draft) => (
+                            <div class="entry-edit-form">
+                              <input
+                                type="text"
+                                value={draft().title}
+                                onInput={(e) => setStoryDraft({ ...draft(), title: e.currentTarget.value })}
+                                placeholder="Title"
+                              />
+                              <For each={STORY_PARTS}>
+                                {(part) => (
+                                  <textarea
+                                    rows={3}
+                                    value={draft()[part.key]}
+                                    onInput={(e) => setStoryDraft({ ...draft(), [part.key]: e.currentTarget.value })}
+                                    placeholder={part.label}
+                                  />
+                                )}
+                              </For>
+                              <div class="entry-edit-form-actions">
+                                <button class="link-btn" onClick={() => setEditingStoryId(null)}>
+                                  Cancel
+                                </button>
+                                <button
+                                  class="link-btn"
+                                  onClick={() => handleSaveStory(story.id)}
+                                  disabled={!draft().title.trim()}
+                                >
+                                  Save
+                                </button>
+                              </div>
+                            </div>
+                          )}
+                        </Show>
+                        <div class="story-sources">
+                          <Show
+                            when={story.sources.length > 0}
+                            fallback={<span class="citation-warning">No sources cited - double-check this story</span>}
+                          >
+                            <For each={story.sources}>{(source) => <SourceChip source={source} />}</For>
+                          </Show>
+                        </div>
+                        <div class="entry-meta">
+                          <span>{new Date(story.createdAt).toLocaleDateString()}</span>
+                          <Show when={story.focus}>
+                            <span class="entry-dot" />
+                            <span>{story.focus}</span>
+                          </Show>
+                          <button class="link-btn" onClick={() => handleEditStory(story)}>
+                            Edit
+                          </button>
+                          <button
+                            class="link-btn"
+                            onClick={() => navigator.clipboard.writeText(exportStarStories([story], story.title))}
+                          >
+                            Copy
+                          </button>
+                          <button class="link-btn danger" onClick={() => handleDeleteStory(story)}>
+                            Delete
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                  </For>
+                </div>
+
+                <div class="chat-footer-actions">
+                  <button class="export-btn" onClick={handleExportStories}>
+                    Export stories (Markdown)
+                  </button>
+                </div>
+              </Show>
+            </div>
+          </Show>
+
+          <Show when={reviewMode() === 'digests'}>
+            <div class="digest-panel">
+              <Show
+                when={digestArchive().length > 0}
+                fallback={
+                  <div class="chat-empty">
+                    <Show
+                      when={digestSettings().enabled}
+                      fallback={
+                        <>
+                          <p>Turn on scheduled digests to get a summary of your work after every day or week</p>
+                          <button class="link-btn" onClick={() => setView('settings')}>
+                            Go to Settings
+                          </button>
+                        </>
+                      }
+                    >
+                      <p>
+                        {digests().length > 0
+                          ? 'No digests in this time range'
+                          : `Your first digest is written after this ${digestSettings().frequency === 'weekly' ? 'week' : 'day'} ends`}
+                      </p>
+                    </Show>
+                  </div>
+                }
+              >
+                <div class="digest-list">
+                  <For each={digestArchive()}>
+                    {(digest) => (
+                      <div class={`digest-card ${digest.readAt ? '' : 'unread'}`} data-digest-id={digest.id}>
+                        <button class="digest-header" onClick={() => handleToggleDigest(digest)}>
+                          <span class="digest-title">{formatDigestPeriod(digest.frequency, digest.periodStart)}</span>
+                          <Show when={!digest.readAt}>
+                            <span class="digest-new">New</span>
+                          </Show>
+                        </button>
+                        <Show when={openDigestId() === digest.id}>
+                          <div
+                            class="chat-content markdown"
+                            innerHTML={renderCitations(marked.parse(digest.summary) as string, digest.citations).html}
+                            onClick={(e) => handleCitationClick(e, digest)}
+                          />
+                        </Show>
+                        <div class="entry-meta">
+                          <span>
+                            {digest.entryCount} entries{digest.prCount > 0 ? ` + ${digest.prCount} PRs` : ''}
+                          </span>
+                          <Show when={digest.model}>
+                            <span class="entry-dot" />
+                            <span>{digest.model}</span>
+                          </Show>
+                          <Show when={openDigestId() === digest.id}>
+                            <button class="link-btn" onClick={() => navigator.clipboard.writeText(digest.summary)}>
+                              Copy
+                            </button>
+                            <button class="link-btn danger" onClick={() => handleDeleteDigest(digest)}>
+                              Delete
+                            </button>
+                          </Show>
+                        </div>
+                      </div>
+                    )}
+                  </For>
+                </div>
+
+                <div class="chat-footer-actions">
+                  <button class="export-btn" onClick={handleAskDigests} disabled={!canAnswerFromDigests()}>
+                    Ask about these digests
+                  </button>
+                </div>
+              </Show>
+            </div>
+          </Show>
+
+          <Show when={reviewMode() === 'competencies'}>
+            <div class="competency-panel">
+              <Show
+                when={coverage()}
+                fallback={
+                  <Show when={!competencyRubric()}>
+                    <div class="chat-empty">
+                      <p>Import your career ladder's competency rubric to see which competencies your work covers</p>
+                      <button class="link-btn" onClick={() => setView('settings')}>
+                        Go to Settings
+                      </button>
+                    </div>
+                  </Show>
+                }
+              >
+                {(report) => (
+                  <>
+                    <div class="competency-summary">
+                      <span class="competency-rubric-name">{report().rubric.name}</span>
+                      <span class="settings-hint">
+                        {report().totalItems - report().unclassified} of {report().totalItems} items classified
+                      </span>
+                    </div>
+
+                    <Show when={report().unclassified > 0}>
+                      <button
+                        class="secondary-btn"
+                        onClick={handleClassifyCompetencies}
+                        disabled={isClassifying() || !isConfigured()}
+                      >
+                        {isClassifying()
+                          ? `Classifying${classifyProgress() ? ` ${classifyProgress()!.done}/${classifyProgress()!.total}` : ''}...`
+                          : `Classify ${report().unclassified} ${report().unclassified === 1 ? 'item' : 'items'}`}
+                      </button>
+                    </Show>
+                    <Show when={competencyError()}>
+                      <p class="error-msg">{competencyError()}</p>
+                    </Show>
+
+                    <div class="competency-list">
+                      <For each={report().competencies}>
+                        {(item) => (
+                          <div class={`competency-item ${item.evidence.length === 0 ? 'gap' : ''}`}>
+                            <div class="competency-header">
+                              <span class="competency-name">{item.competency.name}</span>
+                              <span class="competency-count">
+                                {item.evidence.length} {item.evidence.length === 1 ? 'item' : 'items'}
+                              </span>
+                            </div>
+                            <Show when={targetLevel() && item.competency.expectations[targetLevel()]}>
+                              <p class="competency-expectation">
+                                <strong>{targetLevel()}:</strong> {item.competency.expectations[targetLevel()]}
+                              </p>
+                            </Show>
+                            <Show
+                              when={item.evidence.length > 0}
+                              fallback={
+                                <p class="citation-warning">
+                                  No {item.competency.name.toLowerCase()} evidence{' '}
+                                  {report().unclassified > 0
+                                    ? 'in the classified items'
+                                    : chatTimeRange() === 'all'
+                                      ? 'yet'
+                                      : `in ${formatTimeRange(chatTimeRange())}`}
+                                </p>
+                              }
+                            >
+                              <div class="competency-evidence">
+                                <For each={item.evidence.slice(0, MAX_EVIDENCE_CHIPS)}>
+                                  {(source) => <SourceChip source={source} />}
+                                </For>
+                                <Show when={item.evidence.length > MAX_EVIDENCE_CHIPS}>
+                                  <span class="settings-hint">+{item.evidence.length - MAX_EVIDENCE_CHIPS} more</span>
+                                </Show>
+                              </div>
+                            </Show>
+                          </div>
+                        )}
+                      </For>
+                    </div>
+                  </>
+                )}
+              </Show>
+            </div>
+          </Show>
+        </div>
+      </Show>
+
+      <Show when={view() === 'settings'}>
+        <div class="settings-section">
+          <h2>Settings</h2>
+
+          <div class="settings-card">
+            <h3>AI Provider</h3>
+            <p class="settings-desc">Add your API key or pick a local model to enable AI-powered summaries</p>
+
+            <div class="form-group">
+              <label>Provider</label>
+              <select
+                value={aiProvider()}
+                onChange={(e) => {
+                  // Don't carry the old provider's default model over
+                  if (modelName() === DEFAULT_MODELS[aiProvider()] || isLocalProvider(aiProvider())) setModelName('');
+                  if (aiProvider() === 'ollama') setBaseURL('');
+                  setAIProvider(e.currentTarget.value as AIProvider);
+                  setTestResult(null);
+                  setOllamaModels([]);
+                  setOllamaError('');
+                }}
+              >
+                <option value="openai">OpenAI</option>
+                <option value="anthropic">Anthropic</option>
+                <option value="google">Google Gemini</option>
+                <option value="openai-compatible">OpenAI Compatible (LiteLLM, vLLM)</option>
+                <option value="ollama">Ollama (local)</option>
+                <option value="browser">In-browser model (local)</option>
+              </select>
+            </div>
+
+            <Show when={isLocalProvider(aiProvider())}>
+              <p class="settings-hint">
+                {aiProvider() === 'ollama'
+                  ? 'No API key needed. With Ollama on this machine and no fallback providers, your entries never leave it.'
+                  : 'Runs inside the browser - nothing is sent anywhere. The model is downloaded once; answers are slower and simpler than a hosted model.'}
+              </p>
+            </Show>
+
+            <Show when={usesBaseURL(aiProvider())}>
+              <div class="form-group">
+                <label>{aiProvider() === 'ollama' ? 'Ollama URL' : 'Base URL'}</label>
+                <input
+                  type="text"
+                  value={baseURL()}
+                  onInput={(e) => setBaseURL(e.currentTarget.value)}
+                  placeholder={aiProvider() === 'ollama' ? DEFAULT_OLLAMA_URL : 'http://localhost:4000/v1'}
+                />
+              </div>
+            </Show>
+
+            <Show when={!isLocalProvider(aiProvider())}>
+              <div class="form-group">
+                <label>Model Name</label>
+                <input
+                  type="text"
+                  value={modelName()}
+                  onInput={(e) => setModelName(e.currentTarget.value)}
+                  placeholder={DEFAULT_MODELS[aiProvider()]}
+                />
+              </div>
+            </Show>
+
+            <Show when={aiProvider() === 'browser'}>
+              <div class="form-group">
+                <label>Model</label>
+                <select value={modelName() || DEFAULT_MODELS.browser} onChange={(e) => setModelName(e.currentTarget.value)}>
+                  <For each={BROWSER_MODELS}>
+                    {(model) => (
+                      <option value={model.id}>
+                        {model.name} ({model.size}) - {model.description}
+                      </option>
+                    )}
+                  </For>
+                </select>
+              </div>
+            </Show>
+            <Show when={aiProvider() === 'ollama'}>
+              <div class="form-group">
+                <label>Model</label>
+                <div class="ollama-model-row">
+                  <Show
+                    when={ollamaModels().length > 0}
+                    fallback={
+                      <input
+                        type="text"
+                        value={modelName()}
+                        onInput={(e) => setModelName(e.currentTarget.value)}
+                        placeholder={DEFAULT_MODELS.ollama}
+                      />
+                    }
+                  >
+                    <select value={modelName()} onChange={(e) => setModelName(e.currentTarget.value)}>
+                      <For each={ollamaModels()}>
+                        {(model) => (
+                          <option value={model.name}>
+                            {model.name} ({(model.size / 1e9).toFixed(1)} GB)
+                          </option>
+                        )}
+                      </For>
+                    </select>
+                  </Show>
+                  <button class="secondary-btn" onClick={handleListOllamaModels} disabled={isListingOllamaModels()}>
+                    {isListingOllamaModels() ? 'Loading...' : 'List installed'}
+                  </button>
+                </div>
+                <Show when={ollamaError()}>
+                  <p class="error-msg">{ollamaError()}</p>
+                </Show>
+              </div>
+            </Show>
+
+            <Show when={!isLocalProvider(aiProvider())}>
+              <div class="form-group">
+                <label>API Key</label>
+                <input
+                  type="password"
+                  value={apiKey()}
+                  onInput={(e) => setApiKey(e.currentTarget.value)}
+                  placeholder={aiProvider() === 'openai-compatible' ? 'Your LiteLLM/proxy API key' : `Enter your ${aiProvider() === 'google' ? 'Google AI' : aiProvider()} API key`}
+                />
+              </div>
+            </Show>
+
+            <Show when={browserModelProgress() !== null}>
+              <p class="settings-hint">Downloading model... {browserModelProgress()}%</p>
+            </Show>
+
+            <Show when={testResult() === 'success'}>
+              <p class="success-msg">
+                {isLocalProvider(aiProvider()) ? 'The model answered successfully' : 'API key verified successfully'}
+              </p>
+            </Show>
+
+            <Show when={testResult() === 'error'}>
+              <p class="error-msg">
+                {aiProvider() === 'ollama'
+                  ? 'Could not get an answer from Ollama. Check that it is running, the model is pulled, and access to the host was allowed.'
+                  : aiProvider() === 'browser'
+                    ? 'The model could not be loaded or run in this browser.'
+                    : 'Invalid API key. Please check and try again.'}
+              </p>
+            </Show>
+
+            <div class="settings-actions">
+              <button
+                class="primary-btn"
+                onClick={handleSaveSettings}
+                disabled={
+                  isTesting() ||
+                  (!apiKey() && !isLocalProvider(aiProvider())) ||
+                  (aiProvider() === 'openai-compatible' && !baseURL())
+                }
+              >
+                {isTesting() ? 'Testing...' : 'Save & Test'}
+              </button>
+
+              <Show when={isConfigured()}>
+                <button class="danger-btn" onClick={handleClearSettings}>
+                  {isLocalProvider(aiProvider()) ? 'Remove' : 'Remove Key'}
+                </button>
+              </Show>
+            </div>
+
+            <Show when={isConfigured()}>
+              <h4 class="settings-subheading">Fallback providers</h4>
+              <p class="settings-desc">
+                Rate limits and outages are retried a few times, then the next provider in this list answers instead
+              </p>
+              <Show
+                when={
+                  isLocalProvider(aiProvider()) &&
+                  fallbackProviders().some((fallback) => !isLocalProvider(fallback.provider))
+                }
+              >
+                <p class="settings-hint">
+                  Cloud providers are skipped while the main provider runs on this computer, so prompts never leave it
+                </p>
+              </Show>
+
+              <Show when={fallbackProviders().length > 0}>
+                <div class="fallback-list">
+                  <For each={fallbackProviders()}>
+                    {(fallback, index) => (
+                      <div class="fallback-item">
+                        <span class="fallback-name">
+                          {index() + 1}. {PROVIDER_NAMES[fallback.provider]} · {fallback.model || DEFAULT_MODELS[fallback.provider]}
+                        </span>
+                        <button class="link-btn" onClick={() => handleMoveFallback(index(), -1)} disabled={index() === 0}>
+                          Up
+                        </button>
+                        <button
+                          class="link-btn"
+                          onClick={() => handleMoveFallback(index(), 1)}
+                          disabled={index() === fallbackProviders().length - 1}
+                        >
+                          Down
+                        </button>
+                        <button class="link-btn danger" onClick={() => handleRemoveFallback(index())}>
+                          Remove
+                        </button>
+                      </div>
+                    )}
+                  </For>
+                </div>
+              </Show>
+
+              <Show
+                when={fallbackDraft()}
+                fallback={
+                  <div class="settings-actions">
+                    <button
+                      class="secondary-btn"
+                      onClick={() => setFallbackDraft({ provider: 'anthropic', apiKey: '' })}
+                    >
+                      Add fallback provider
+                    </button>
+                  </div>
+                }
+              >
+                {(draft) => (
+                  <>
+                    <div class="form-group">
+                      <label>Provider</label>
+                      <select
+                        value={draft().provider}
+                        onChange={(e) => setFallbackDraft({ ...draft(), provider: e.currentTarget.value as AIProvider })}
+                      >
+                        <option value="openai">OpenAI</option>
+                        <option value="anthropic">Anthropic</option>
+                        <option value="google">Google Gemini</option>
+                        <option value="openai-compatible">OpenAI Compatible (LiteLLM, vLLM)</option>
+                        <option value="ollama">Ollama (local)</option>
+                        <option value="browser">In-browser model (local)</option>
+                      </select>
+                    </div>
+                    <Show when={usesBaseURL(draft().provider)}>
+                      <div class="form-group">
+                        <label>{draft().provider === 'ollama' ? 'Ollama URL' : 'Base URL'}</label>
+                        <input
+                          type="text"
+                          value={draft().baseURL ?? ''}
+                          onInput={(e) => setFallbackDraft({ ...draft(), baseURL: e.currentTarget.value })}
+                          placeholder={draft().provider === 'ollama' ? DEFAULT_OLLAMA_URL : 'http://localhost:4000/v1'}
+                        />
+                      </div>
+                    </Show>
+                    <div class="form-group">
+                      <label>Model Name</label>
+                      <input
+                        type="text"
+                        value={draft().model ?? ''}
+                        onInput={(e) => setFallbackDraft({ ...draft(), model: e.currentTarget.value })}
+                        placeholder={DEFAULT_MODELS[draft().provider]}
+                      />
+                    </div>
+                    <Show when={!isLocalProvider(draft().provider)}>
+                      <div class="form-group">
+                        <label>API Key</label>
+                        <input
+                          type="password"
+                          value={draft().apiKey}
+                          onInput={(e) => setFallbackDraft({ ...draft(), apiKey: e.currentTarget.value })}
+                        />
+                      </div>
+                    </Show>
+                    <Show when={fallbackError()}>
+                      <p class="error-msg">{fallbackError()}</p>
+                    </Show>
+                    <div class="settings-actions">
+                      <button
+                        class="primary-btn"
+                        onClick={handleAddFallback}
+                        disabled={
+                          isTestingFallback() ||
+                          (!draft().apiKey.trim() && !isLocalProvider(draft().provider)) ||
+                          (draft().provider === 'openai-compatible' && !draft().baseURL?.trim())
+                        }
+                      >
+                        {isTestingFallback() ? 'Testing...' : 'Test & Add'}
+                      </button>
+                      <button
+                        class="secondary-btn"
+                        onClick={() => {
+                          setFallbackDraft(null);
+                          setFallbackError('');
+                        }}
+                      >
+                        Cancel
+                      </button>
+                    </div>
+                  </>
+                )}
+              </Show>
+            </Show>
+          </div>
+
+          <div class="settings-card">
+            <h3>AI Usage</h3>
+            <p class="settings-desc">Tokens reported by your provider, priced with the table below</p>
+
+            <Show when={usageSummary()}>
+              {(usage) => (
+                <>
+                  <div class="usage-total">
+                    <span class="usage-cost">{formatCost(usage().thisMonth.cost)}</span>
+                    <span class="settings-hint">
+                      this month · {usage().thisMonth.calls} calls ·{' '}
+                      {(usage().thisMonth.inputTokens + usage().thisMonth.outputTokens).toLocaleString()} tokens
+                      {usage().thisMonth.unpriced > 0 ? ` · ${usage().thisMonth.unpriced} calls without a price` : ''}
+                    </span>
+                  </div>
+                  <Show when={usage().budget}>
+                    {(budget) => (
+                      <div class="usage-bar" title={`${formatCost(usage().thisMonth.cost)} of ${formatCost(budget())}`}>
+                        <div
+                          class={`usage-bar-fill ${usage().thisMonth.cost >= budget() ? 'over' : ''}`}
+                          style={{ width: `${Math.min(100, (usage().thisMonth.cost / budget()) * 100)}%` }}
+                        />
+                      </div>
+                    )}
+                  </Show>
+
+                  <Show when={usage().features.length > 0}>
+                    <ul class="usage-list">
+                      <For each={usage().features}>
+                        {(feature) => (
+                          <li>
+                            <span>{FEATURE_NAMES[feature.feature]}</span>
+                            <span>
+                              {formatCost(feature.cost)} · {feature.calls} calls
+                            </span>
+                          </li>
+                        )}
+                      </For>
+                    </ul>
+                  </Show>
+
+                  <Show when={usage().days.length > 0}>
+                    <details class="usage-details">
+                      <summary>By day (last 30 days)</summary>
+                      <ul class="usage-list">
+                        <For each={usage().days}>
+                          {(day) => (
+                            <li>
+                              <span>{day.key}</span>
+                              <span>
+                                {formatCost(day.cost)} · {(day.inputTokens + day.outputTokens).toLocaleString()} tokens
+                              </span>
+                            </li>
+                          )}
+                        </For>
+                      </ul>
+                    </details>
+                    <details class="usage-details">
+                      <summary>By month</summary>
+                      <ul class="usage-list">
+                        <For each={usage().months}>
+                          {(month) => (
+                            <li>
+                              <span>{month.key}</span>
+                              <span>
+                                {formatCost(month.cost)} · {month.calls} calls
+                              </span>
+                            </li>
+                          )}
+                        </For>
+                      </ul>
+                    </details>
+                  </Show>
+
+                  <div class="form-group">
+                    <label>Monthly budget (USD)</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step="1"
+                      placeholder="No budget"
+                      value={usage().budget ?? ''}
+                      onChange={(e) => handleBudgetChange(e.currentTarget.value)}
+                    />
+                  </div>
+                  <p class="settings-hint">
+                    AI calls are blocked once this month's cost reaches the budget. Prompts over{' '}
+                    {LARGE_PROMPT_TOKENS.toLocaleString()} tokens ask before sending.
+                  </p>
+                </>
+              )}
+            </Show>
+
+            <Show
+              when={priceDraft()}
+              fallback={
+                <div class="settings-actions">
+                  <button class="secondary-btn" onClick={handleEditPrices}>
+                    Edit prices
+                  </button>
+                  <button class="secondary-btn" onClick={handleClearUsage}>
+                    Clear history
+                  </button>
+                </div>
+              }
+            >
+              {(draft) => (
+                <>
+                  <p class="settings-hint">
+                    USD per million tokens. A model without an exact match uses the longest name it starts with.
+                  </p>
+                  <div class="price-table">
+                    <div class="price-row price-header">
+                      <span>Model</span>
+                      <span>Input</span>
+                      <span>Output</span>
+                      <span />
+                    </div>
+                    <For each={draft()}>
+                      {(row, index) => {
+                        const update = (changes: Partial<typeof row>) =>
+                          setPriceDraft(draft().map((r, i) => (i === index() ? { ...r, ...changes } : r)));
+                        return (
+                          <div class="price-row">
+                            <input type="text" value={row.model} onInput={(e) => update({ model: e.currentTarget.value })} />
+                            <input
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              value={row.input}
+                              onInput={(e) => update({ input: e.currentTarget.value })}
+                            />
+                            <input
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              value={row.output}
+                              onInput={(e) => update({ output: e.currentTarget.value })}
+                            />
+                            <button
+                              class="link-btn danger"
+                              onClick={() => setPriceDraft(draft().filter((_, i) => i !== index()))}
+                            >
+                              Remove
+                            </button>
+                          </div>
+                        );
+                      }}
+                    </For>
+                  </div>
+                  <div class="settings-actions">
+                    <button
+                      class="secondary-btn"
+                      onClick={() => setPriceDraft([...draft(), { model: '', input: '0', output: '0' }])}
+                    >
+                      Add model
+                    </button>
+                    <button class="secondary-btn" onClick={handleResetPrices}>
+                      Reset to defaults
+                    </button>
+                  </div>
+                  <div class="settings-actions">
+                    <button class="primary-btn" onClick={handleSavePrices}>
+                      Save prices
+                    </button>
+                    <button class="secondary-btn" onClick={() => setPriceDraft(null)}>
+                      Cancel
+                    </button>
+                  </div>
+                </>
+              )}
+            </Show>
+
+            <Show when={usageMessage()}>
+              <p class={usageMessage()!.type === 'success' ? 'success-msg' : 'error-msg'}>{usageMessage()!.text}</p>
+            </Show>
+          </div>
+
+          <div class="settings-card">
+            <h3>Review Context</h3>
+            <p class="settings-desc">
+              Review answers use the entries and PRs most relevant to your question, up to this many tokens
+            </p>
+            <div class="form-group">
+              <label>Token budget</label>
+              <input
+                type="number"
+                min="1000"
+                step="1000"
+                value={reviewTokenBudget()}
+                onChange={(e) => handleTokenBudgetChange(parseInt(e.currentTarget.value, 10))}
+              />
+            </div>
+            <p class="settings-hint">
+              {modelName() || 'The current model'} accepts about{' '}
+              {getModelContextWindow(modelName() || undefined).toLocaleString()} tokens - larger budgets cost more per
+              answer
+            </p>
+            <p class="settings-desc">
+              Long-range reviews can summarize each week or month first. Summaries are cached and redone only when
+              that period's entries change.
+            </p>
+            <div class="settings-actions">
+              <button class="secondary-btn" onClick={() => clearSummaryCache()}>
+                Clear cached summaries
+              </button>
+            </div>
+          </div>
+
+          <div class="settings-card">
+            <h3>Prompt Templates</h3>
+            <p class="settings-desc">
+              The instructions sent with your question in Review. Duplicate a built-in template to adapt it to your
+              company's review form.
+            </p>
+
+            <div class="template-list">
+              <For each={promptTemplates()}>
+                {(template) => (
+                  <div class="template-item">
+                    <div class="template-item-header">
+                      <span class="template-name">{template.name}</span>
+                      <Show when={template.builtIn}>
+                        <span class="source-badge">Built-in</span>
+                      </Show>
+                    </div>
+                    <Show when={template.description}>
+                      <p class="settings-hint">{template.description}</p>
+                    </Show>
+                    <div class="template-item-actions">
+                      <button class="link-btn" onClick={() => handleEditTemplate(template, true)}>
+                        Duplicate
+                      </button>
+                      <Show when={!template.builtIn}>
+                        <button class="link-btn" onClick={() => handleEditTemplate(template, false)}>
+                          Edit
+                        </button>
+                        <button class="link-btn danger" onClick={() => handleDeleteTemplate(template)}>
+                          Delete
+                        </button>
+                      </Show>
+                    </div>
+                  </div>
+                )}
+              </For>
+            </div>
+
+            <Show when={templateDraft()}>
+              {(draft) => (
+                <div class="template-editor">
+                  <div class="form-group">
+                    <label>Name</label>
+                    <input
+                      type="text"
+                      value={draft().name}
+                      onInput={(e) => setTemplateDraft({ ...draft(), name: e.currentTarget.value })}
+                    />
+                  </div>
+                  <div class="form-group">
+                    <label>Description</label>
+                    <input
+                      type="text"
+                      value={draft().description}
+                      onInput={(e) => setTemplateDraft({ ...draft(), description: e.currentTarget.value })}
+                    />
+                  </div>
+                  <div class="form-group">
+                    <label>Instructions</label>
+                    <textarea
+                      class="template-body-input"
+                      rows={14}
+                      value={draft().body}
+                      onInput={(e) => setTemplateDraft({ ...draft(), body: e.currentTarget.value })}
+                    />
+                    <p class="settings-hint">
+                      <For each={Object.entries(TEMPLATE_VARIABLES)}>
+                        {([name, description]) => (
+                          <>
+                            <code>{`{{${name}}}`}</code> {description}
+                            <br />
+                          </>
+                        )}
+                      </For>
+                      Wrap text in <code>{'{{#if prs}}...{{/if}}'}</code> to include it only when a variable has a
+                      value.
+                    </p>
+                  </div>
+                  <div class="form-group">
+                    <label>Quick prompts</label>
+                    <textarea
+                      rows={4}
+                      value={draft().quickPrompts}
+                      onInput={(e) => setTemplateDraft({ ...draft(), quickPrompts: e.currentTarget.value })}
+                      placeholder="Impact: What impact did my work have?"
+                    />
+                    <p class="settings-hint">One per line, as "Label: question"</p>
+                  </div>
+                  <div class="settings-actions">
+                    <button class="secondary-btn" onClick={() => setTemplateDraft(null)}>
+                      Cancel
+                    </button>
+                    <button class="primary-btn" onClick={handleSaveTemplate}>
+                      Save template
+                    </button>
+                  </div>
+                </div>
+              )}
+            </Show>
+
+            <div class="settings-actions">
+              <button
+                class="secondary-btn"
+                onClick={handleExportTemplates}
+                disabled={promptTemplates().every((t) => t.builtIn)}
+              >
+                Export templates
+              </button>
+            </div>
+
+            <div class="form-group">
+              <label>Import templates</label>
+              <input
+                type="file"
+                accept="application/json,.json"
+                onChange={(e) => {
+                  handleImportTemplates(e.currentTarget.files?.[0]);
+                  e.currentTarget.value = '';
+                }}
+              />
+            </div>
+
+            <Show when={templateMessage()}>
+              <p class={templateMessage()!.type === 'success' ? 'success-msg' : 'error-msg'}>
+                {templateMessage()!.text}
+              </p>
+            </Show>
+          </div>
+
+          <Show when={redactionDraft()}>
+            {(draft) => (
+              <div class="settings-card redaction-settings">
+                <h3>Privacy</h3>
+                <p class="settings-desc">
+                  Replace personal data and secrets with placeholders like <code>[EMAIL_1]</code> before anything is
+                  sent to the AI. Answers show the original values again.
+                </p>
+
+                <label class="toggle-label">
+                  <input
+                    type="checkbox"
+                    checked={draft().enabled}
+                    onChange={(e) => setRedactionDraft({ ...draft(), enabled: e.currentTarget.checked })}
+                  />
+                  <span class="toggle-text">Redact before sending</span>
+                </label>
+
+                <div class="redaction-detectors">
+                  <For each={Object.keys(DETECTORS) as DetectorId[]}>
+                    {(id) => (
+                      <label class="toggle-label">
+                        <input
+                          type="checkbox"
+                          checked={draft().detectors[id]}
+                          disabled={!draft().enabled}
+                          onChange={(e) =>
+                            setRedactionDraft({
+                              ...draft(),
+                              detectors: { ...draft().detectors, [id]: e.currentTarget.checked },
+                            })
+                          }
+                        />
+                        <span class="toggle-text">{DETECTORS[id].label}</span>
+                      </label>
+                    )}
+                  </For>
+                </div>
+
+                <div class="form-group">
+                  <label>Terms (one per line)</label>
+                  <textarea
+                    rows={3}
+                    value={draft().terms}
+                    onInput={(e) => setRedactionDraft({ ...draft(), terms: e.currentTarget.value })}
+                    placeholder={'Acme Corp\nProject Falcon'}
+                    disabled={!draft().enabled}
+                  />
+                </div>
+                <div class="form-group">
+                  <label>Patterns (one regular expression per line)</label>
+                  <textarea
+                    class="redaction-patterns"
+                    rows={3}
+                    value={draft().patterns}
+                    onInput={(e) => setRedactionDraft({ ...draft(), patterns: e.currentTarget.value })}
+                    placeholder={'CUST-\\d+'}
+                    disabled={!draft().enabled}
+                  />
+                </div>
+
+                <div class="form-group">
+                  <label>Try it</label>
+                  <textarea
+                    rows={2}
+                    value={redactionSample()}
+                    onInput={(e) => setRedactionSample(e.currentTarget.value)}
+                    placeholder="Paste some text to see what would be sent"
+                  />
+                  <Show when={redactionSampleOutput()}>
+                    <pre class="redaction-sample">{draft().enabled ? redactionSampleOutput() : redactionSample()}</pre>
+                  </Show>
+                </div>
+
+                <Show when={redactionMessage()}>
+                  <p class={redactionMessage()!.type === 'success' ? 'success-msg' : 'error-msg'}>
+                    {redactionMessage()!.text}
+                  </p>
+                </Show>
+
+                <div class="settings-actions">
+                  <button class="primary-btn" onClick={handleSaveRedaction}>
+                    Save
+                  </button>
+                </div>
+              </div>
+            )}
           </Show>
 
-          <Show when={searchResults().length === 0 && searchQuery() && !isSearching()}>
-            <div class="empty-state">
-              <p>No results found. Try different keywords or time filters.</p>
-            </div>
-          </Show>
-        </div>
-      </Show>
+          <div class="settings-card">
+            <h3>Entry Suggestions</h3>
+            <p class="settings-desc">
+              Have the AI suggest tags, a category and a clearer, impact-focused rewrite for new entries. Suggestions
+              show up in History to accept or reject - nothing changes until you do, and the original text is kept in
+              each entry's history.
+            </p>
 
-      <Show when={view() === 'review'}>
-        <div class="chat-section">
-          <Show when={!isConfigured()}>
-            <div class="warning-box">
-              <p>Add your API key in Settings to chat with your memories</p>
-              <button class="link-btn" onClick={() => setView('settings')}>
-                Go to Settings
-              </button>
-            </div>
-          </Show>
+            <label class="toggle-label">
+              <input
+                type="checkbox"
+                checked={enrichmentEnabled()}
+                onChange={(e) => handleEnrichmentToggle(e.currentTarget.checked)}
+              />
+              <span class="toggle-text">Suggest for new entries</span>
+            </label>
 
-          <div class="chat-time-selector">
-            <span class="chat-time-label">Looking at:</span>
-            <select
-              value={chatTimeRange()}
-              onChange={(e) => setChatTimeRange(e.currentTarget.value as TimeRange)}
-              class="chat-time-select"
-            >
-              <option value="week">This Week</option>
-              <option value="month">This Month</option>
-              <option value="quarter">This Quarter</option>
-              <option value="year">This Year</option>
-              <option value="all">All Time</option>
-            </select>
+            <Show when={enrichmentEnabled()}>
+              <p class="settings-hint">
+                {!isConfigured()
+                  ? 'Set up an AI provider above to start'
+                  : pendingEnrichment() > 0
+                    ? `${pendingEnrichment()} entries waiting - sent ${ENRICH_BATCH_SIZE} at a time using your provider and budget`
+                    : 'All caught up'}
+              </p>
+              <div class="settings-actions">
+                <button class="secondary-btn" onClick={handleEnrichEarlier}>
+                  Include the last 30 days
+                </button>
+              </div>
+            </Show>
           </div>
 
-          <Show when={isGitHubConfigured()}>
-            <div class="github-toggle">
-              <label class="toggle-label">
-                <input
-                  type="checkbox"
-                  checked={includeGitHubPRs()}
-                  onChange={(e) => setIncludeGitHubPRs(e.currentTarget.checked)}
-                />
-                <span class="toggle-text">Include GitHub PRs</span>
-                <Show when={includeGitHubPRs() && syncStatus()?.prCount}>
-                  <span class="toggle-badge">{syncStatus()?.prCount} PRs</span>
-                </Show>
-              </label>
+          <div class="settings-card">
+            <h3>Scheduled Digest</h3>
+            <p class="settings-desc">
+              Have the AI summarize your entries and PRs after each day or week, in the background. You'll get a
+              notification when it's ready, and past digests are kept in Review to read or to answer questions about a
+              longer period.
+            </p>
+
+            <label class="toggle-label">
+              <input
+                type="checkbox"
+                checked={digestSettings().enabled}
+                onChange={(e) => handleDigestSettings({ ...digestSettings(), enabled: e.currentTarget.checked })}
+              />
+              <span class="toggle-text">Write a digest</span>
+            </label>
+
+            <div class="form-group">
+              <label>How often</label>
+              <select
+                value={digestSettings().frequency}
+                onChange={(e) =>
+                  handleDigestSettings({ ...digestSettings(), frequency: e.currentTarget.value as DigestFrequency })
+                }
+              >
+                <option value="daily">Every day</option>
+                <option value="weekly">Every week</option>
+              </select>
             </div>
-          </Show>
 
-          <div class="chat-messages">
-            <Show when={chatMessages().length === 0}>
-              <div class="chat-empty">
-                <p>Ask questions about your work</p>
-              </div>
+            <Show when={digestSettings().enabled}>
+              <p class="settings-hint">
+                {!isConfigured()
+                  ? 'Set up an AI provider above to start'
+                  : `Next: ${formatDigestPeriod(
+                      digestSettings().frequency,
+                      getDigestPeriod(digestSettings().frequency, Date.now()).start
+                    )}, written when it ends`}
+              </p>
+              <p class="settings-hint">
+                If the browser was closed, the last {MAX_CATCH_UP_PERIODS}{' '}
+                {digestSettings().frequency === 'weekly' ? 'weeks' : 'days'} it missed are caught up when it starts
+              </p>
             </Show>
+          </div>
 
-            <For each={chatMessages()}>
-              {(msg) => (
-                <div class={`chat-message ${msg.role}`}>
-                  <Show when={msg.role === 'assistant'}>
-                    <div
-                      class="chat-content markdown"
-                      innerHTML={marked.parse(msg.content) as string}
-                    />
-                    <Show when={(msg.entriesUsed && msg.entriesUsed > 0) || (msg.prsUsed && msg.prsUsed > 0)}>
-                      <div class="chat-meta">
-                        Based on{' '}
-                        {msg.entriesUsed ? `${msg.entriesUsed} entries` : ''}
-                        {msg.entriesUsed && msg.prsUsed ? ' + ' : ''}
-                        {msg.prsUsed ? `${msg.prsUsed} PRs` : ''}
-                      </div>
-                    </Show>
-                    <Show when={msg.content}>
-                      <button
-                        class="copy-btn-small"
-                        onClick={() => navigator.clipboard.writeText(msg.content)}
-                      >
-                        Copy
-                      </button>
-                    </Show>
-                  </Show>
-                  <Show when={msg.role === 'user'}>
-                    <div class="chat-content">{msg.content}</div>
+          <div class="settings-card">
+            <h3>Competency Rubric</h3>
+            <p class="settings-desc">
+              Import your career ladder as YAML or JSON to see, in Review, which competencies your entries and PRs show
+              evidence for - and where the gaps are.
+            </p>
+
+            <Show when={competencyRubric()}>
+              {(rubric) => (
+                <>
+                  <p class="settings-hint">
+                    {rubric().name}: {rubric().competencies.length} competencies
+                    {rubric().levels.length > 0 ? `, levels ${rubric().levels.join(', ')}` : ''}
+                  </p>
+                  <Show when={rubric().levels.length > 0}>
+                    <div class="form-group">
+                      <label>Show expectations for</label>
+                      <select value={targetLevel()} onChange={(e) => handleTargetLevelChange(e.currentTarget.value)}>
+                        <option value="">No level</option>
+                        <For each={rubric().levels}>{(level) => <option value={level}>{level}</option>}</For>
+                      </select>
+                    </div>
                   </Show>
-                </div>
+                  <div class="settings-actions">
+                    <button class="danger-btn" onClick={handleRemoveRubric}>
+                      Remove rubric
+                    </button>
+                  </div>
+                </>
               )}
-            </For>
+            </Show>
+
+            <div class="form-group">
+              <label>{competencyRubric() ? 'Replace rubric' : 'Import rubric'}</label>
+              <input
+                type="file"
+                accept=".yaml,.yml,.json,application/json"
+                onChange={(e) => {
+                  handleImportRubric(e.currentTarget.files?.[0]);
+                  e.currentTarget.value = '';
+                }}
+              />
+            </div>
+            <p class="settings-hint">
+              Each competency needs a name, and can have an id, a description and expectations per level (e.g.{' '}
+              <code>L5: Mentors engineers across teams</code>). Replacing the rubric reclassifies your work.
+            </p>
 
-            <Show when={isStreaming()}>
-              <div class="chat-streaming">Thinking...</div>
+            <Show when={rubricMessage()}>
+              <p class={rubricMessage()!.type === 'success' ? 'success-msg' : 'error-msg'}>{rubricMessage()!.text}</p>
             </Show>
           </div>
 
-          <Show when={chatMessages().length === 0}>
-            <div class="quick-prompts">
-              <For each={quickPrompts}>
-                {(prompt) => (
-                  <button
-                    class="quick-prompt-chip"
-                    onClick={() => handleSendChat(prompt.question)}
-                    disabled={isStreaming() || !isConfigured()}
-                  >
-                    {prompt.label}
-                  </button>
-                )}
-              </For>
+          <div class="settings-card">
+            <h3>Embedding Status</h3>
+            <p class="settings-desc">Local AI model for semantic search</p>
+            <p class="model-status-text">
+              Status:{' '}
+              {modelStatus() === 'loading'
+                ? 'Loading...'
+                : modelStatus() === 'ready'
+                  ? 'Ready'
+                  : 'Not loaded'}
+            </p>
+            <div class="form-group">
+              <label>Model</label>
+              <select
+                value={embeddingModelId()}
+                onChange={(e) => handleEmbeddingModelChange(e.currentTarget.value)}
+              >
+                <For each={EMBEDDING_MODELS}>
+                  {(model) => (
+                    <option value={model.id}>
+                      {model.name} ({model.dim}d, {model.size})
+                    </option>
+                  )}
+                </For>
+              </select>
             </div>
-          </Show>
-
-          <div class="chat-input-container">
-            <input
-              type="text"
-              class="chat-input"
-              placeholder="Ask about your work..."
-              value={chatInput()}
-              onInput={(e) => setChatInput(e.currentTarget.value)}
-              onKeyDown={(e) => e.key === 'Enter' && handleSendChat(chatInput())}
-              disabled={isStreaming() || !isConfigured()}
-            />
-            <button
-              class="chat-send-btn"
-              onClick={() => handleSendChat(chatInput())}
-              disabled={isStreaming() || !chatInput().trim() || !isConfigured()}
-            >
-              Send
-            </button>
+            <p class="settings-desc">
+              {EMBEDDING_MODELS.find((m) => m.id === embeddingModelId())?.description}. Changing the model
+              re-indexes all entries in the background.
+            </p>
+            <p class="settings-desc">
+              {entries().filter((e) => e.embedding && e.embeddingModel === embeddingModelId()).length} /{' '}
+              {entries().length} entries embedded
+            </p>
+            <Show when={jobProgress().pending + jobProgress().running > 0}>
+              <p class="settings-desc">{jobProgress().pending + jobProgress().running} queued in background</p>
+            </Show>
+            <Show when={jobProgress().failed > 0}>
+              <p class="error-msg">{jobProgress().failed} failed after several retries</p>
+              <div class="settings-actions">
+                <button class="secondary-btn" onClick={handleRetryFailedJobs}>
+                  Retry failed
+                </button>
+              </div>
+            </Show>
           </div>
 
-          <div class="chat-footer-actions">
-            <Show when={chatMessages().length > 0}>
-              <button class="clear-chat-btn" onClick={() => setChatMessages([])}>
-                Clear chat
-              </button>
+          <div class="settings-card">
+            <h3>Vector Index</h3>
+            <p class="settings-desc">
+              Speeds up semantic search on large histories by only comparing against nearby entries
+            </p>
+            <Show
+              when={vectorIndexStatus()}
+              fallback={
+                <p class="settings-desc">
+                  Not built - exact search is used until {MIN_INDEX_SIZE} entries are embedded
+                </p>
+              }
+            >
+              {(status) => (
+                <p class="settings-desc">
+                  {status().size} entries in {status().lists} clusters, trained{' '}
+                  {new Date(status().trainedAt).toLocaleDateString()}
+                </p>
+              )}
             </Show>
-            <Show when={isGitHubConfigured() && includeGitHubPRs()}>
-              <button class="export-btn" onClick={handleExportPRs}>
-                Export PRs (CSV)
+            <div class="settings-actions">
+              <button class="secondary-btn" onClick={handleRebuildVectorIndex}>
+                Rebuild
               </button>
+              <button
+                class="secondary-btn"
+                onClick={handleRunBenchmark}
+                disabled={isBenchmarking() || !vectorIndexStatus()}
+              >
+                {isBenchmarking() ? 'Running...' : 'Benchmark'}
+              </button>
+            </div>
+            <Show when={benchmarkError()}>
+              <p class="error-msg">{benchmarkError()}</p>
+            </Show>
+            <Show when={benchmark()}>
+              {(result) => (
+                <p class="settings-desc">
+                  Recall@{result().k}: {Math.round(result().recall * 100)}% over {result().queries} queries ·
+                  exact {result().exactMs.toFixed(1)}ms vs index {result().indexMs.toFixed(1)}ms · scored{' '}
+                  {result().candidates} of {result().corpusSize} entries
+                </p>
+              )}
             </Show>
           </div>
-        </div>
-      </Show>
 
-      <Show when={view() === 'settings'}>
-        <div class="settings-section">
-          <h2>Settings</h2>
+          <div class="settings-card">
+            <h3>Trash</h3>
+            <p class="settings-desc">Deleted entries can be restored until they are purged</p>
+            <div class="form-group">
+              <label>Keep deleted entries for (days)</label>
+              <input
+                type="number"
+                min="1"
+                value={trashRetentionDays()}
+                onChange={(e) => handleRetentionChange(parseInt(e.currentTarget.value, 10))}
+              />
+            </div>
+            <div class="settings-actions">
+              <button class="secondary-btn" onClick={() => setView('trash')}>
+                Open trash ({trashedEntries().length})
+              </button>
+            </div>
+          </div>
 
           <div class="settings-card">
-            <h3>AI Provider</h3>
-            <p class="settings-desc">Add your API key to enable AI-powered summaries</p>
+            <h3>Export</h3>
+            <p class="settings-desc">Download your work as a brag document for review season</p>
 
             <div class="form-group">
-              <label>Provider</label>
-              <select
-                value={aiProvider()}
-                onChange={(e) => setAIProvider(e.currentTarget.value as AIProvider)}
-              >
-                <option value="openai">OpenAI</option>
-                <option value="anthropic">Anthropic</option>
-                <option value="google">Google Gemini</option>
-                <option value="openai-compatible">OpenAI Compatible (LiteLLM, Ollama)</option>
+              <label>Time range</label>
+              <select value={exportRange()} onChange={(e) => setExportRange(e.currentTarget.value as TimeRange)}>
+                <option value="week">This Week</option>
+                <option value="month">This Month</option>
+                <option value="quarter">This Quarter</option>
+                <option value="year">This Year</option>
+                <option value="all">All Time</option>
               </select>
             </div>
 
-            <Show when={aiProvider() === 'openai-compatible'}>
-              <div class="form-group">
-                <label>Base URL</label>
-                <input
-                  type="text"
-                  value={baseURL()}
-                  onInput={(e) => setBaseURL(e.currentTarget.value)}
-                  placeholder="http://localhost:4000/v1"
-                />
-              </div>
+            <div class="form-group">
+              <label>Group by</label>
+              <select value={exportGroupBy()} onChange={(e) => setExportGroupBy(e.currentTarget.value as BragDocGrouping)}>
+                <option value="week">Week</option>
+                <option value="month">Month</option>
+              </select>
+            </div>
 
-              <div class="form-group">
-                <label>Model Name</label>
+            <Show when={isGitHubConfigured()}>
+              <label class="toggle-label">
                 <input
-                  type="text"
-                  value={modelName()}
-                  onInput={(e) => setModelName(e.currentTarget.value)}
-                  placeholder="gpt-4o-mini"
+                  type="checkbox"
+                  checked={exportIncludePRs()}
+                  onChange={(e) => setExportIncludePRs(e.currentTarget.checked)}
                 />
-              </div>
+                <span class="toggle-text">Include GitHub PRs</span>
+              </label>
+            </Show>
+
+            <Show when={scopeProject() || scopeTag()}>
+              <p class="settings-hint">
+                Only entries in the current scope ({[scopeProject(), scopeTag() && `#${scopeTag()}`].filter(Boolean).join(', ')}) are exported.
+              </p>
             </Show>
 
+            <div class="settings-actions">
+              <button class="secondary-btn" onClick={handleExportBragDoc}>
+                Brag doc (Markdown)
+              </button>
+              <button class="secondary-btn" onClick={handleExportEntriesCSV}>
+                Entries (CSV)
+              </button>
+            </div>
+          </div>
+
+          <div class="settings-card">
+            <h3>Import</h3>
+            <p class="settings-desc">Bring in old brag lists and work journals</p>
+
             <div class="form-group">
-              <label>API Key</label>
               <input
-                type="password"
-                value={apiKey()}
-                onInput={(e) => setApiKey(e.currentTarget.value)}
-                placeholder={aiProvider() === 'openai-compatible' ? 'Your LiteLLM/proxy API key' : `Enter your ${aiProvider() === 'google' ? 'Google AI' : aiProvider()} API key`}
+                type="file"
+                accept=".csv,.md,.markdown,.txt,text/csv,text/markdown,text/plain"
+                multiple
+                onChange={(e) => {
+                  handleImportFiles(e.currentTarget.files);
+                  e.currentTarget.value = '';
+                }}
               />
+              <p class="settings-hint">
+                CSV with <code>timestamp</code> and <code>text</code> columns, or Markdown journals: Obsidian daily notes
+                (<code>2025-03-14.md</code>), Logseq journals (<code>2025_03_14.md</code>), or one file with{' '}
+                <code>## 2025-03-14</code> headings and bullet lists. Entries already captured on the same day are
+                skipped.
+              </p>
             </div>
 
-            <Show when={testResult() === 'success'}>
-              <p class="success-msg">API key verified successfully</p>
+            <Show when={importPreview()}>
+              {(preview) => (
+                <div class="import-preview">
+                  <p class="settings-desc">
+                    {preview().entries.length} new
+                    {preview().duplicates.length > 0 ? ` · ${preview().duplicates.length} already exist` : ''}
+                    {preview().errors.length > 0 ? ` · ${preview().errors.length} skipped` : ''}
+                  </p>
+                  <div class="import-preview-rows">
+                    <For each={preview().entries.slice(0, 5)}>
+                      {(entry) => (
+                        <div class="import-preview-row">
+                          <span class="entry-time">{new Date(entry.timestamp).toLocaleDateString()}</span>
+                          <span>{entry.text}</span>
+                        </div>
+                      )}
+                    </For>
+                    <Show when={preview().entries.length > 5}>
+                      <p class="settings-hint">…and {preview().entries.length - 5} more</p>
+                    </Show>
+                  </div>
+                  <For each={preview().errors.slice(0, 3)}>
+                    {(error) => (
+                      <p class="settings-hint">
+                        Row {error.row}: {error.message}
+                      </p>
+                    )}
+                  </For>
+                  <div class="settings-actions">
+                    <button
+                      class="primary-btn"
+                      onClick={handleConfirmImport}
+                      disabled={isImporting() || preview().entries.length === 0}
+                    >
+                      {isImporting() ? 'Importing...' : `Import ${preview().entries.length} entries`}
+                    </button>
+                    <button class="secondary-btn" onClick={() => setImportPreview(null)}>
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              )}
             </Show>
 
-            <Show when={testResult() === 'error'}>
-              <p class="error-msg">Invalid API key. Please check and try again.</p>
+            <Show when={importMessage()}>
+              <p class={importMessage()!.type === 'success' ? 'success-msg' : 'error-msg'}>{importMessage()!.text}</p>
             </Show>
+          </div>
+
+          <div class="settings-card">
+            <h3>Backup &amp; Restore</h3>
+            <p class="settings-desc">
+              Download entries, PRs and settings as JSON. API keys and tokens are never included.
+            </p>
+
+            <label class="toggle-label">
+              <input
+                type="checkbox"
+                checked={backupEmbeddings()}
+                onChange={(e) => setBackupEmbeddings(e.currentTarget.checked)}
+              />
+              <span class="toggle-text">Include embeddings (larger file, no re-indexing)</span>
+            </label>
 
             <div class="settings-actions">
-              <button
-                class="primary-btn"
-                onClick={handleSaveSettings}
-                disabled={isTesting() || !apiKey() || (aiProvider() === 'openai-compatible' && !baseURL())}
-              >
-                {isTesting() ? 'Testing...' : 'Save & Test'}
+              <button class="secondary-btn" onClick={handleDownloadBackup}>
+                Download backup
               </button>
+            </div>
 
-              <Show when={isConfigured()}>
-                <button class="danger-btn" onClick={handleClearSettings}>
-                  Remove Key
-                </button>
-              </Show>
+            <div class="form-group">
+              <label>Restore mode</label>
+              <select value={restoreMode()} onChange={(e) => setRestoreMode(e.currentTarget.value as RestoreMode)}>
+                <option value="merge">Merge - add missing items, keep existing ones</option>
+                <option value="replace">Replace - overwrite all local data</option>
+              </select>
             </div>
-          </div>
 
-          <div class="settings-card">
-            <h3>Embedding Status</h3>
-            <p class="settings-desc">Local AI model for semantic search</p>
-            <p class="model-status-text">
-              Status:{' '}
-              {modelStatus() === 'loading'
-                ? 'Loading...'
-                : modelStatus() === 'ready'
-                  ? 'Ready'
-                  : 'Not loaded'}
-            </p>
-            <p class="settings-desc">
-              {entries().filter((e) => e.embedding).length} / {entries().length} entries embedded
-            </p>
+            <div class="form-group">
+              <label>Restore from file</label>
+              <input
+                type="file"
+                accept="application/json,.json"
+                disabled={isRestoring()}
+                onChange={(e) => {
+                  handleRestoreBackup(e.currentTarget.files?.[0]);
+                  e.currentTarget.value = '';
+                }}
+              />
+            </div>
+
+            <Show when={backupMessage()}>
+              <p class={backupMessage()!.type === 'success' ? 'success-msg' : 'error-msg'}>{backupMessage()!.text}</p>
+            </Show>
           </div>
 
           <div class="settings-card">
@@ -1035,6 +4350,13 @@ export default function App() {
           </button>
         </div>
       </Show>
+
+      <Show when={undoEntry()}>
+        <div class="undo-toast">
+          <span>Moved to trash</span>
+          <button onClick={handleUndoDelete}>Undo</button>
+        </div>
+      </Show>
     </div>
   );
 }
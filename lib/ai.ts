@@ -1,58 +1,153 @@
-import { generateText, streamText } from 'ai';
+import {
+  APICallError,
+  LoadAPIKeyError,
+  generateObject,
+  generateText,
+  streamText,
+  type LanguageModel,
+  type LanguageModelUsage,
+  type ModelMessage,
+} from 'ai';
+import { type z } from 'zod';
 import { createOpenAI } from '@ai-sdk/openai';
 import { createAnthropic } from '@ai-sdk/anthropic';
 import { createGoogleGenerativeAI } from '@ai-sdk/google';
-import { db, getSetting, setSetting, deleteSetting, type MemoryEntry } from './db';
+import {
+  getEntries,
+  getSetting,
+  setSetting,
+  deleteSetting,
+  filterEntriesByScope,
+  type MemoryEntry,
+  type EntryScope,
+} from './db';
 import { getTimeRange } from './embeddings';
-import { getPRsForTimeRange, formatPRsForPrompt, type GitHubPR } from './github';
+import { getPRsForTimeRange, formatPRForPrompt, type GitHubPR } from './github';
+import {
+  estimateTokens,
+  getEffectiveBudget,
+  getReviewTokenBudget,
+  packCandidates,
+  rankCandidates,
+  type ContextCandidate,
+  type ContextReport,
+} from './context';
+import { formatTimeRange, getSelectedTemplate, renderReviewPrompt, type PromptTemplate } from './templates';
+import {
+  createEntryCitation,
+  createPRCitation,
+  getEntryRef,
+  getPRRef,
+  type CitationMap,
+} from './citations';
+import { MAX_OUTPUT_TOKENS, assertWithinBudget, recordUsage, type AIFeature } from './usage';
+import { createBrowserModel, createOllamaModel } from './local-ai';
+import { createPromptRedactor, createStreamRestorer, redactConversation, type Redaction } from './redact';
+
+// PR descriptions can be long - the token budget decides how many fit
+export const PR_BODY_MAX_CHARS = 4000;
 
 // Supported AI providers
-export type AIProvider = 'openai' | 'anthropic' | 'google' | 'openai-compatible';
+export type AIProvider = 'openai' | 'anthropic' | 'google' | 'openai-compatible' | 'ollama' | 'browser';
 
-interface AIConfig {
+export interface AIConfig {
   provider: AIProvider;
-  apiKey: string;
+  apiKey: string; // Empty for local providers
   model?: string;
-  baseURL?: string; // For OpenAI-compatible endpoints (LiteLLM, Ollama, etc.)
+  baseURL?: string; // For OpenAI-compatible endpoints (LiteLLM, etc.) and the Ollama host
 }
 
+export const PROVIDER_NAMES: Record<AIProvider, string> = {
+  openai: 'OpenAI',
+  anthropic: 'Anthropic',
+  google: 'Google',
+  'openai-compatible': 'OpenAI-compatible',
+  ollama: 'Ollama',
+  browser: 'In-browser',
+};
+
 // Default models per provider
-const DEFAULT_MODELS: Record<AIProvider, string> = {
+export const DEFAULT_MODELS: Record<AIProvider, string> = {
   openai: 'gpt-4o-mini',
   anthropic: 'claude-3-5-haiku-latest',
   google: 'gemini-1.5-flash',
   'openai-compatible': 'gpt-4o-mini', // User should override this
+  ollama: 'llama3.2',
+  browser: 'onnx-community/Qwen2.5-0.5B-Instruct',
 };
 
+// Run on this machine - no API key, and prompts don't leave it
+export function isLocalProvider(provider: AIProvider): boolean {
+  return provider === 'ollama' || provider === 'browser';
+}
+
 // Settings keys
 const SETTINGS_KEYS = {
   provider: 'ai_provider',
   apiKey: 'ai_api_key',
   model: 'ai_model',
   baseURL: 'ai_base_url',
+  fallbacks: 'ai_fallback_providers', // JSON list of AIConfig, tried in order after the main provider
 };
 
+// Transient errors are retried with exponential backoff and full jitter
+const MAX_ATTEMPTS_PER_PROVIDER = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 10000;
+
+// Which provider and model produced an answer
+export interface ProviderTag {
+  provider: AIProvider;
+  model: string;
+  fallback: boolean; // Not the main provider - the ones before it failed
+}
+
+// The provider rejected its API key. Not retried; surfaced so the user can fix the key.
+export class AIAuthError extends Error {
+  provider: AIProvider;
+
+  constructor(provider: AIProvider, message: string) {
+    super(message);
+    this.name = 'AIAuthError';
+    this.provider = provider;
+  }
+}
+
+type FailureKind = 'auth' | 'transient' | 'fatal';
+
+interface ProviderFailure {
+  config: AIConfig;
+  kind: FailureKind;
+  error: unknown;
+}
+
 // Get current AI config
 export async function getAIConfig(): Promise<AIConfig | null> {
   const provider = (await getSetting(SETTINGS_KEYS.provider)) as AIProvider | null;
   const apiKey = await getSetting(SETTINGS_KEYS.apiKey);
 
-  if (!provider || !apiKey) {
+  if (!provider || (!apiKey && !isLocalProvider(provider))) {
     return null;
   }
 
   const model = (await getSetting(SETTINGS_KEYS.model)) || DEFAULT_MODELS[provider];
   const baseURL = await getSetting(SETTINGS_KEYS.baseURL);
 
-  return { provider, apiKey, model, baseURL: baseURL || undefined };
+  return { provider, apiKey: apiKey ?? '', model, baseURL: baseURL || undefined };
 }
 
 // Save AI config
 export async function saveAIConfig(config: AIConfig): Promise<void> {
   await setSetting(SETTINGS_KEYS.provider, config.provider);
-  await setSetting(SETTINGS_KEYS.apiKey, config.apiKey);
+  if (config.apiKey) {
+    await setSetting(SETTINGS_KEYS.apiKey, config.apiKey);
+  } else {
+    await deleteSetting(SETTINGS_KEYS.apiKey);
+  }
   if (config.model) {
     await setSetting(SETTINGS_KEYS.model, config.model);
+  } else {
+    await deleteSetting(SETTINGS_KEYS.model);
   }
   if (config.baseURL) {
     await setSetting(SETTINGS_KEYS.baseURL, config.baseURL);
@@ -61,6 +156,43 @@ export async function saveAIConfig(config: AIConfig): Promise<void> {
   }
 }
 
+// Providers tried after the main one, in order
+export async function getFallbackProviders(): Promise<AIConfig[]> {
+  const value = await getSetting(SETTINGS_KEYS.fallbacks);
+  if (!value) return [];
+
+  try {
+    const fallbacks = JSON.parse(value);
+    return Array.isArray(fallbacks) ? fallbacks : [];
+  } catch {
+    console.error('WorthKeeping: Stored fallback providers are not valid JSON');
+    return [];
+  }
+}
+
+export async function saveFallbackProviders(fallbacks: AIConfig[]): Promise<void> {
+  if (fallbacks.length === 0) {
+    await deleteSetting(SETTINGS_KEYS.fallbacks);
+    return;
+  }
+  await setSetting(SETTINGS_KEYS.fallbacks, JSON.stringify(fallbacks));
+}
+
+// Main provider first, then the fallbacks. A local main provider only falls
+// back to other local ones - choosing it means prompts stay on this machine.
+async function getProviderChain(): Promise<AIConfig[]> {
+  const config = await getAIConfig();
+
+  if (!config) {
+    throw new Error('AI not configured. Please add your API key or choose a local model in settings.');
+  }
+
+  const fallbacks = await getFallbackProviders();
+  if (!isLocalProvider(config.provider)) return [config, ...fallbacks];
+
+  return [config, ...fallbacks.filter((fallback) => isLocalProvider(fallback.provider))];
+}
+
 // Clear AI config
 export async function clearAIConfig(): Promise<void> {
   await deleteSetting(SETTINGS_KEYS.provider);
@@ -70,7 +202,7 @@ export async function clearAIConfig(): Promise<void> {
 }
 
 // Create provider instance based on config
-function createProvider(provider: AIProvider, apiKey: string, baseURL?: string) {
+function createProvider(provider: AIProvider, apiKey: string, baseURL?: string): (modelId: string) => LanguageModel {
   switch (provider) {
     case 'openai':
       return createOpenAI({ apiKey });
@@ -83,55 +215,268 @@ function createProvider(provider: AIProvider, apiKey: string, baseURL?: string)
         throw new Error('Base URL is required for OpenAI-compatible provider');
       }
       return createOpenAI({ apiKey, baseURL });
+    case 'ollama':
+      return (modelId) => createOllamaModel(modelId, baseURL);
+    case 'browser':
+      return createBrowserModel;
     default:
       throw new Error(`Unknown provider: ${provider}`);
   }
 }
 
-// Unified AI call using Vercel AI SDK
-export async function callAI(prompt: string): Promise<string> {
-  const config = await getAIConfig();
+function getModelId(config: AIConfig): string {
+  return config.model || DEFAULT_MODELS[config.provider];
+}
 
-  if (!config) {
-    throw new Error('AI not configured. Please add your API key in settings.');
+function createModel(config: AIConfig): LanguageModel {
+  return createProvider(config.provider, config.apiKey, config.baseURL)(getModelId(config));
+}
+
+function classifyError(err: unknown): FailureKind {
+  if (LoadAPIKeyError.isInstance(err)) return 'auth';
+  if (APICallError.isInstance(err)) {
+    const status = err.statusCode ?? 0;
+    if (status === 401 || status === 403) return 'auth';
+    if (err.isRetryable || status === 408 || status === 429 || status >= 500) return 'transient';
+    return 'fatal';
   }
+  // fetch() rejects with a TypeError when the network is down
+  return err instanceof TypeError ? 'transient' : 'fatal';
+}
 
-  const { provider, apiKey, model, baseURL } = config;
-  const modelId = model || DEFAULT_MODELS[provider];
-  const providerInstance = createProvider(provider, apiKey, baseURL);
+// Full jitter, but never sooner than the provider's Retry-After
+function getRetryDelay(err: unknown, attempt: number): number {
+  const backoff = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+  const retryAfter = APICallError.isInstance(err) ? Number(err.responseHeaders?.['retry-after']) * 1000 : NaN;
+  const delay = Math.random() * backoff;
+  return Number.isFinite(retryAfter) ? Math.min(RETRY_MAX_DELAY_MS, Math.max(delay, retryAfter)) : delay;
+}
 
-  const { text } = await generateText({
-    model: providerInstance(modelId),
-    prompt,
-    maxTokens: 2000,
-    temperature: 0.7,
-  });
+function describeProvider(config: AIConfig): string {
+  return `${PROVIDER_NAMES[config.provider]} (${getModelId(config)})`;
+}
 
-  return text;
+function getErrorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
 }
 
-// Streaming AI call - returns async generator
-export async function* streamAI(prompt: string): AsyncGenerator<string, void, unknown> {
-  const config = await getAIConfig();
+// After a failed attempt: wait and return true to retry the same provider,
+// or record the failure and return false to move on to the next one
+async function shouldRetry(
+  err: unknown,
+  config: AIConfig,
+  attempt: number,
+  failures: ProviderFailure[]
+): Promise<boolean> {
+  const kind = classifyError(err);
 
-  if (!config) {
-    throw new Error('AI not configured. Please add your API key in settings.');
+  if (kind === 'transient' && attempt < MAX_ATTEMPTS_PER_PROVIDER) {
+    const delay = getRetryDelay(err, attempt);
+    console.log(
+      `WorthKeeping: ${describeProvider(config)} failed (${getErrorMessage(err)}), retrying in ${Math.round(delay)}ms`
+    );
+    await new Promise((resolve) => setTimeout(resolve, delay));
+    return true;
   }
 
-  const { provider, apiKey, model, baseURL } = config;
-  const modelId = model || DEFAULT_MODELS[provider];
-  const providerInstance = createProvider(provider, apiKey, baseURL);
+  console.error(`WorthKeeping: ${describeProvider(config)} failed:`, err);
+  failures.push({ config, kind, error: err });
+  return false;
+}
 
-  const { textStream } = streamText({
-    model: providerInstance(modelId),
-    prompt,
-    maxTokens: 2000,
-    temperature: 0.7,
-  });
+// Every provider failed. A rejected key is reported as such even if others
+// failed for other reasons - it's the one the user can fix.
+function createChainError(failures: ProviderFailure[]): Error {
+  const auth = failures.find((f) => f.kind === 'auth');
+  if (auth) {
+    return new AIAuthError(
+      auth.config.provider,
+      `${PROVIDER_NAMES[auth.config.provider]} rejected the API key (${getErrorMessage(auth.error)}). Check it in Settings.`
+    );
+  }
 
-  for await (const chunk of textStream) {
-    yield chunk;
+  if (failures.length === 1) {
+    return new Error(getErrorMessage(failures[0].error));
   }
+
+  return new Error(
+    `All AI providers failed: ${failures.map((f) => `${describeProvider(f.config)}: ${getErrorMessage(f.error)}`).join('; ')}`
+  );
+}
+
+function getProviderTag(config: AIConfig, index: number): ProviderTag {
+  return { provider: config.provider, model: getModelId(config), fallback: index > 0 };
+}
+
+// Options shared by the AI calls
+export interface AICallOptions {
+  feature?: AIFeature; // What the call is for, in the usage log
+  onProvider?: (tag: ProviderTag) => void; // Told which provider produced the answer
+}
+
+// A failure to log usage shouldn't lose the answer it was for
+async function logUsage(config: AIConfig, usage: LanguageModelUsage, feature: AIFeature = 'other'): Promise<void> {
+  try {
+    await recordUsage({
+      provider: config.provider,
+      model: getModelId(config),
+      feature,
+      inputTokens: usage.inputTokens ?? 0,
+      outputTokens: usage.outputTokens ?? 0,
+    });
+  } catch (err) {
+    console.error('WorthKeeping: Failed to record AI usage', err);
+  }
+}
+
+// Run a call against each provider in turn, retrying transient errors
+async function runWithFailover<T>(
+  run: (model: LanguageModel) => PromiseLike<{ value: T; usage: LanguageModelUsage }>,
+  options: AICallOptions
+): Promise<T> {
+  await assertWithinBudget();
+
+  const chain = await getProviderChain();
+  const failures: ProviderFailure[] = [];
+
+  for (const [index, config] of chain.entries()) {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const { value, usage } = await run(createModel(config));
+        await logUsage(config, usage, options.feature);
+        options.onProvider?.(getProviderTag(config, index));
+        return value;
+      } catch (err) {
+        if (!(await shouldRetry(err, config, attempt, failures))) break;
+      }
+    }
+  }
+
+  throw createChainError(failures);
+}
+
+// Unified AI call using Vercel AI SDK. Personal data and secrets in the
+// prompt are swapped for placeholders, which are restored in the answer.
+export async function callAI(prompt: string, options: AICallOptions = {}): Promise<string> {
+  const redactor = await createPromptRedactor();
+  const text = await runWithFailover(async (model) => {
+    const { text, usage } = await generateText({
+      model,
+      prompt: redactor ? redactor.redact(prompt) : prompt,
+      maxOutputTokens: MAX_OUTPUT_TOKENS,
+      temperature: 0.7,
+      maxRetries: 0, // Retries and failover are handled here
+    });
+    return { value: text, usage };
+  }, options);
+  return redactor ? redactor.restore(text) : text;
+}
+
+// Structured AI call - the response is parsed and validated against the schema
+export async function generateStructured<T>(
+  prompt: string,
+  schema: z.ZodType<T>,
+  options: AICallOptions & { name?: string; description?: string } = {}
+): Promise<T> {
+  const redactor = await createPromptRedactor();
+  const object = await runWithFailover(async (model) => {
+    const { object, usage } = await generateObject({
+      model,
+      schema,
+      schemaName: options.name,
+      schemaDescription: options.description,
+      prompt: redactor ? redactor.redact(prompt) : prompt,
+      maxOutputTokens: MAX_OUTPUT_TOKENS,
+      temperature: 0.4,
+      maxRetries: 0,
+    });
+    return { value: object, usage };
+  }, options);
+  return redactor ? redactor.restoreValue(object) : object;
+}
+
+// Earlier turns of a conversation, oldest first
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+function toModelMessage(turn: ChatTurn): ModelMessage {
+  return turn.role === 'user' ? { role: 'user', content: turn.content } : { role: 'assistant', content: turn.content };
+}
+
+// Streaming AI call - returns async generator. Pass history for follow-up questions.
+// Retries and failover happen only before the first chunk; text already
+// shown can't be taken back, so a failure mid-answer is thrown as-is.
+export async function* streamAI(
+  prompt: string,
+  history: ChatTurn[] = [],
+  options: AICallOptions = {}
+): AsyncGenerator<string, void, unknown> {
+  await assertWithinBudget();
+
+  const redactor = await createPromptRedactor();
+  const outgoing = redactor ? redactConversation(redactor, prompt, history) : { prompt, history };
+  const chain = await getProviderChain();
+  const failures: ProviderFailure[] = [];
+
+  for (const [index, config] of chain.entries()) {
+    for (let attempt = 1; ; attempt++) {
+      let started = false;
+      const restorer = redactor ? createStreamRestorer(redactor) : null;
+      try {
+        const { fullStream } = streamText({
+          model: createModel(config),
+          prompt:
+            outgoing.history.length > 0
+              ? [...outgoing.history.map(toModelMessage), { role: 'user', content: outgoing.prompt }]
+              : outgoing.prompt,
+          maxOutputTokens: MAX_OUTPUT_TOKENS,
+          temperature: 0.7,
+          maxRetries: 0,
+        });
+
+        // textStream swallows errors - read the full stream to see them
+        for await (const part of fullStream) {
+          if (part.type === 'error') throw part.error;
+          if (part.type === 'finish') await logUsage(config, part.totalUsage, options.feature);
+          if (part.type !== 'text-delta') continue;
+          if (!started) {
+            started = true;
+            options.onProvider?.(getProviderTag(config, index));
+          }
+          const text = restorer ? restorer.push(part.text) : part.text;
+          if (text) yield text;
+        }
+
+        if (!started) options.onProvider?.(getProviderTag(config, index));
+        const rest = restorer?.flush();
+        if (rest) yield rest;
+        return;
+      } catch (err) {
+        if (started) throw err;
+        if (!(await shouldRetry(err, config, attempt, failures))) break;
+      }
+    }
+  }
+
+  throw createChainError(failures);
+}
+
+// Exactly what streamAI would send for this prompt and history, after
+// redaction, and which values were replaced
+export interface OutgoingPreview {
+  messages: ChatTurn[];
+  redactions: Redaction[];
+}
+
+export async function previewOutgoingPrompt(prompt: string, history: ChatTurn[] = []): Promise<OutgoingPreview> {
+  const redactor = await createPromptRedactor();
+  const outgoing = redactor ? redactConversation(redactor, prompt, history) : { prompt, history };
+  return {
+    messages: [...outgoing.history, { role: 'user', content: outgoing.prompt }],
+    redactions: redactor?.redactions() ?? [],
+  };
 }
 
 // Test API key
@@ -148,7 +493,7 @@ export async function testAPIKey(
     await generateText({
       model: providerInstance(modelId),
       prompt: 'Say "OK" if you can read this.',
-      maxTokens: 10,
+      maxOutputTokens: 10,
     });
 
     return true;
@@ -158,32 +503,56 @@ export async function testAPIKey(
   }
 }
 
-// Format entries for AI context
-function formatEntriesForContext(entries: MemoryEntry[]): string {
-  return entries
-    .map((e) => {
-      const date = new Date(e.timestamp).toLocaleDateString('en-US', {
-        weekday: 'short',
-        month: 'short',
-        day: 'numeric',
-      });
-      const time = new Date(e.timestamp).toLocaleTimeString('en-US', {
-        hour: 'numeric',
-        minute: '2-digit',
-      });
-      return `- [${date} ${time}] ${e.text}`;
-    })
-    .join('\n');
-}
-
-// Build prompt for review question
-export async function buildReviewPrompt(
+// Format an entry for AI context, tagged with its citation ref
+export function formatEntryForContext(e: MemoryEntry): string {
+  const date = new Date(e.timestamp).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+  });
+  const time = new Date(e.timestamp).toLocaleTimeString('en-US', {
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+  const project = e.project ? ` (${e.project})` : '';
+  return `- [${getEntryRef(e)}] [${date} ${time}]${project} ${e.text}`;
+}
+
+// Format a PR for AI context, tagged with its citation ref
+export function formatPRForContext(pr: GitHubPR, maxBodyLength?: number): string {
+  return formatPRForPrompt(pr, maxBodyLength).replace(/^- /, `- [${getPRRef(pr)}] `);
+}
+
+// Extra knobs for buildReviewPrompt
+export interface ReviewPromptOptions {
+  scope?: EntryScope; // Limit entries to a project and/or tag
+  tokenBudget?: number; // Overrides the saved review token budget
+  template?: PromptTemplate; // Overrides the selected prompt template
+}
+
+// The entries and PRs picked for a review question, ready to put in a prompt
+export interface ReviewContext {
+  entriesSection: string; // "## My Work Log Entries:" and the entries, or ''
+  prsSection: string; // "## My GitHub Pull Requests:" and the PRs, or ''
+  entriesUsed: number;
+  prsUsed: number;
+  context?: ContextReport;
+  citations: CitationMap;
+}
+
+// Pick the entries and PRs for a question. Everything in the range is ranked
+// by relevance to the question and packed into the token budget, leaving
+// room for instructionTokens of prompt text around the data.
+export async function gatherReviewContext(
   question: string,
   timeRange: 'week' | 'month' | 'quarter' | 'year' | 'all',
-  includeGitHub: boolean = false
-): Promise<{ prompt: string; entriesUsed: number; prsUsed: number }> {
-  // Get ALL entries in time range (not semantic search - we want everything for reviews)
-  const allEntries = await db.entries.orderBy('timestamp').reverse().toArray();
+  includeGitHub: boolean,
+  options: { scope?: EntryScope; tokenBudget?: number; instructionTokens?: number } = {}
+): Promise<ReviewContext> {
+  const allEntries = filterEntriesByScope(
+    await getEntries(),
+    options.scope
+  );
 
   let entries: MemoryEntry[];
   if (timeRange === 'all') {
@@ -208,61 +577,82 @@ export async function buildReviewPrompt(
   console.log('WorthKeeping: Building review prompt with', entries.length, 'entries and', prs.length, 'PRs in', timeRange);
 
   if (entries.length === 0 && prs.length === 0) {
-    return {
-      prompt: '',
-      entriesUsed: 0,
-      prsUsed: 0,
-    };
+    return { entriesSection: '', prsSection: '', entriesUsed: 0, prsUsed: 0, citations: {} };
   }
 
-  // Build the prompt with both sources
-  let dataSection = '';
-
-  if (entries.length > 0) {
-    dataSection += `## My Work Log Entries:\n${formatEntriesForContext(entries)}\n\n`;
+  // Rank everything by relevance, then keep what fits
+  const model = (await getAIConfig())?.model;
+  const candidates: ContextCandidate[] = [
+    ...entries.map((entry) => ({ source: 'entry' as const, entry, text: formatEntryForContext(entry) })),
+    ...prs.map((pr) => ({ source: 'pr' as const, pr, text: formatPRForContext(pr, PR_BODY_MAX_CHARS) })),
+  ];
+
+  const budget = getEffectiveBudget(
+    options.tokenBudget ?? (await getReviewTokenBudget()),
+    model,
+    options.instructionTokens ?? 0
+  );
+  const { ranked, retrieval } = await rankCandidates(question, candidates);
+  const { included, report } = packCandidates(ranked, budget, model);
+
+  // Present what made it in chronologically (entries) / newest first (PRs), as before
+  const includedEntries = included
+    .flatMap((c) => (c.source === 'entry' ? [c] : []))
+    .sort((a, b) => a.entry.timestamp - b.entry.timestamp);
+  const includedPRs = included
+    .flatMap((c) => (c.source === 'pr' ? [c] : []))
+    .sort((a, b) => b.pr.createdAt - a.pr.createdAt);
+
+  // Refs the answer may cite, for turning citations into links
+  const citations: CitationMap = {};
+  for (const { entry } of includedEntries) {
+    const citation = createEntryCitation(entry);
+    citations[citation.ref] = citation;
   }
-
-  if (prs.length > 0) {
-    dataSection += `## My GitHub Pull Requests:\n${formatPRsForPrompt(prs)}\n`;
+  for (const { pr } of includedPRs) {
+    const citation = createPRCitation(pr);
+    citations[citation.ref] = citation;
   }
 
-  const prompt = `You are a performance review writing assistant. Help me articulate my accomplishments for a performance review based on my work log entries${prs.length > 0 ? ' and GitHub Pull Requests' : ''}.
-
-Question: "${question}"
-
-## Response Guidelines:
-
-**Formatting:**
-- Use markdown formatting with clear headers (##) to organize sections
-- Use bullet points (- ) for listing accomplishments, skills, and action items
-- Bold (**text**) key achievements, metrics, and outcomes
-- Keep each bullet point specific and evidence-based
-
-**Content Style:**
-- Write in professional, performance-review-ready language
-- Highlight specific achievements with quantifiable results when available
-- Connect accomplishments to business impact where evident
-- Group related work into themes (e.g., "Technical Contributions", "Collaboration", "Process Improvements")
-- Include specific examples from the entries to support each point
-${prs.length > 0 ? '- Reference specific PRs and their impact when relevant\n- Use lines changed metrics to demonstrate scope of work' : ''}
+  return {
+    entriesSection:
+      includedEntries.length > 0 ? `## My Work Log Entries:\n${includedEntries.map((c) => c.text).join('\n')}` : '',
+    prsSection:
+      includedPRs.length > 0 ? `## My GitHub Pull Requests:\n${includedPRs.map((c) => c.text).join('\n\n')}` : '',
+    entriesUsed: includedEntries.length,
+    prsUsed: includedPRs.length,
+    context: { ...report, retrieval },
+    citations,
+  };
+}
 
-**Structure your response with relevant sections like:**
-- Key Accomplishments
-- Skills Demonstrated
-- Areas of Impact
-- Growth & Development (if applicable)
+// Build prompt for review question from the selected template
+export async function buildReviewPrompt(
+  question: string,
+  timeRange: 'week' | 'month' | 'quarter' | 'year' | 'all',
+  includeGitHub: boolean = false,
+  options: ReviewPromptOptions = {}
+): Promise<{ prompt: string; entriesUsed: number; prsUsed: number; context?: ContextReport; citations?: CitationMap }> {
+  const template = options.template ?? (await getSelectedTemplate());
+  const renderPrompt = (entriesSection: string, prsSection: string) =>
+    renderReviewPrompt(template, {
+      question,
+      timeRange: formatTimeRange(timeRange),
+      sources: prsSection ? 'work log entries and GitHub Pull Requests' : 'work log entries',
+      entries: entriesSection,
+      prs: prsSection,
+    });
 
-**Important:**
-- Only reference work that appears in my data - do not invent details
-- If entries lack specifics, acknowledge what was done at a high level
-- Transform raw notes into polished, review-ready statements
+  const model = (await getAIConfig())?.model;
+  const { entriesSection, prsSection, ...review } = await gatherReviewContext(question, timeRange, includeGitHub, {
+    scope: options.scope,
+    tokenBudget: options.tokenBudget,
+    instructionTokens: estimateTokens(renderPrompt('', ''), model),
+  });
 
-${dataSection}`;
+  if (review.entriesUsed === 0 && review.prsUsed === 0) {
+    return { prompt: '', entriesUsed: 0, prsUsed: 0 };
+  }
 
-  return {
-    prompt,
-    entriesUsed: entries.length,
-    prsUsed: prs.length,
-  };
+  return { prompt: renderPrompt(entriesSection, prsSection), ...review };
 }
-
@@ -0,0 +1,106 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { db, type ChatSession, type Digest, type MemoryEntry, type StarStory } from './db';
+import { clearDatabase } from './seed';
+import { createBackup, parseBackup, restoreBackup, serializeBackup } from './backup';
+
+const entry: MemoryEntry = { id: 'entry-1', text: 'Shipped the importer', timestamp: 1_700_000_000_000 };
+
+const story: StarStory = {
+  id: 'story-1',
+  title: 'Faster imports',
+  situation: 'Imports timed out',
+  task: 'Fix them',
+  action: 'Streamed the parser',
+  result: 'Imports finish in seconds',
+  sources: [],
+  timeRange: 'quarter',
+  createdAt: 1_700_000_000_000,
+  updatedAt: 1_700_000_100_000,
+};
+
+const session: ChatSession = {
+  id: 'chat-1',
+  title: 'What did I ship?',
+  timeRange: 'month',
+  includeGitHub: false,
+  messages: [
+    { role: 'user', content: 'What did I ship?' },
+    { role: 'assistant', content: 'The importer [E-1a2b3c]' },
+  ],
+  createdAt: 1_700_000_000_000,
+  updatedAt: 1_700_000_200_000,
+};
+
+const digest: Digest = {
+  id: 'weekly:1699747200000',
+  frequency: 'weekly',
+  periodStart: 1_699_747_200_000,
+  periodEnd: 1_700_352_000_000,
+  summary: '- Shipped the importer [E-1a2b3c]',
+  entryCount: 1,
+  prCount: 0,
+  citations: {},
+  createdAt: 1_700_352_300_000,
+};
+
+async function backupRoundTrip() {
+  return parseBackup(serializeBackup(await createBackup()));
+}
+
+describe('backup', () => {
+  beforeEach(async () => {
+    await clearDatabase();
+    await db.entries.add(entry);
+    await db.starStories.add(story);
+    await db.chatSessions.add(session);
+    await db.digests.add(digest);
+  });
+
+  it('restores STAR stories, chats and digests after a replace', async () => {
+    const backup = await backupRoundTrip();
+    await clearDatabase();
+
+    const result = await restoreBackup(backup, 'replace');
+
+    expect(result).toMatchObject({ entries: 1, stories: 1, chats: 1, digests: 1 });
+    expect(await db.starStories.toArray()).toEqual([story]);
+    expect(await db.chatSessions.toArray()).toEqual([session]);
+    expect(await db.digests.toArray()).toEqual([digest]);
+  });
+
+  it('replaces local stories and chats that are not in the backup', async () => {
+    const backup = await backupRoundTrip();
+    await db.starStories.add({ ...story, id: 'story-2' });
+    await db.chatSessions.add({ ...session, id: 'chat-2' });
+    await db.digests.add({ ...digest, id: 'daily:1700352000000' });
+
+    await restoreBackup(backup, 'replace');
+
+    expect(await db.starStories.toCollection().primaryKeys()).toEqual(['story-1']);
+    expect(await db.chatSessions.toCollection().primaryKeys()).toEqual(['chat-1']);
+    expect(await db.digests.toCollection().primaryKeys()).toEqual([digest.id]);
+  });
+
+  it('keeps local copies and adds missing ones on merge', async () => {
+    const backup = await backupRoundTrip();
+    await db.starStories.update('story-1', { title: 'Edited locally' });
+    await db.chatSessions.delete('chat-1');
+    await db.digests.delete(digest.id);
+
+    const result = await restoreBackup(backup, 'merge');
+
+    expect(result).toMatchObject({ entries: 0, stories: 0, chats: 1, digests: 1 });
+    expect((await db.starStories.get('story-1'))?.title).toBe('Edited locally');
+    expect(await db.chatSessions.get('chat-1')).toEqual(session);
+    expect(await db.digests.get(digest.id)).toEqual(digest);
+  });
+
+  it('reads version 1 backups without stories, chats or digests', async () => {
+    const { starStories, chatSessions, digests, ...v1 } = await createBackup();
+    const backup = parseBackup(JSON.stringify({ ...v1, version: 1 }));
+
+    expect(backup.starStories).toEqual([]);
+    expect(backup.chatSessions).toEqual([]);
+    expect(backup.digests).toEqual([]);
+  });
+});
@@ -0,0 +1,224 @@
+import { type Table } from 'dexie';
+import {
+  db,
+  type MemoryEntry,
+  type EntryRevision,
+  type GitHubPR,
+  type Settings,
+  type StarStory,
+  type ChatSession,
+  type Digest,
+} from './db';
+import { DEFAULT_EMBEDDING_MODEL } from './embedding-models';
+import { clearVectorIndex } from './vector-index';
+
+// Backup file format - bump BACKUP_VERSION when the shape changes
+export const BACKUP_FORMAT = 'worthkeeping-backup';
+// Version 2 adds STAR stories and saved review chats, version 3 digests
+export const BACKUP_VERSION = 3;
+
+// Settings that hold credentials never go into a backup (fallback AI providers include their keys)
+const SECRET_SETTINGS = new Set(['ai_api_key', 'ai_fallback_providers', 'github_pat']);
+
+export interface Backup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  schemaVersion: number; // Dexie schema version the data was exported from
+  exportedAt: number;
+  includesEmbeddings: boolean;
+  entries: MemoryEntry[];
+  entryRevisions: EntryRevision[];
+  githubPRs: GitHubPR[];
+  settings: Settings[];
+  starStories: StarStory[];
+  chatSessions: ChatSession[];
+  digests: Digest[];
+}
+
+// merge: add anything missing, keep local copies of duplicate ids
+// replace: wipe local data (except secrets) and load the backup
+export type RestoreMode = 'merge' | 'replace';
+
+export interface RestoreResult {
+  entries: number;
+  revisions: number;
+  prs: number;
+  settings: number;
+  stories: number;
+  chats: number;
+  digests: number;
+}
+
+// Build a full backup of the database
+export async function createBackup(options?: { includeEmbeddings?: boolean }): Promise<Backup> {
+  const includeEmbeddings = options?.includeEmbeddings ?? false;
+
+  const [entries, entryRevisions, githubPRs, settings, starStories, chatSessions, digests] = await Promise.all([
+    db.entries.toArray(),
+    db.entryRevisions.toArray(),
+    db.githubPRs.toArray(),
+    db.settings.toArray(),
+    db.starStories.toArray(),
+    db.chatSessions.toArray(),
+    db.digests.toArray(),
+  ]);
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    schemaVersion: db.verno,
+    exportedAt: Date.now(),
+    includesEmbeddings: includeEmbeddings,
+    entries: includeEmbeddings
+      ? entries
+      : entries.map(({ embedding, embeddingModel, embeddingDim, ...rest }) => rest),
+    entryRevisions,
+    githubPRs: includeEmbeddings
+      ? githubPRs
+      : githubPRs.map(({ embedding, embeddingModel, embeddingDim, ...rest }) => rest),
+    settings: settings.filter((s) => !SECRET_SETTINGS.has(s.key)),
+    starStories,
+    chatSessions,
+    digests,
+  };
+}
+
+// Serialize a backup for download
+export function serializeBackup(backup: Backup): string {
+  return JSON.stringify(backup);
+}
+
+function isRecordArray(value: unknown): value is Record<string, unknown>[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'object' && item !== null);
+}
+
+// Parse and validate a backup file - throws with a readable message if invalid
+export function parseBackup(json: string): Backup {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Backup file is not valid JSON');
+  }
+
+  if (typeof data !== 'object' || data === null || (data as Backup).format !== BACKUP_FORMAT) {
+    throw new Error('Not a WorthKeeping backup file');
+  }
+
+  const backup = data as Backup;
+
+  if (typeof backup.version !== 'number' || backup.version > BACKUP_VERSION) {
+    throw new Error(`Unsupported backup version ${backup.version}. Please update WorthKeeping.`);
+  }
+
+  if (typeof backup.schemaVersion !== 'number' || backup.schemaVersion > db.verno) {
+    throw new Error(`Backup was made with a newer database schema (v${backup.schemaVersion}). Please update WorthKeeping.`);
+  }
+
+  if (!isRecordArray(backup.entries) || !isRecordArray(backup.githubPRs) || !isRecordArray(backup.settings)) {
+    throw new Error('Backup file is missing required data');
+  }
+
+  for (const entry of backup.entries) {
+    if (typeof entry.id !== 'string' || typeof entry.text !== 'string' || typeof entry.timestamp !== 'number') {
+      throw new Error('Backup contains a malformed entry');
+    }
+  }
+
+  for (const pr of backup.githubPRs) {
+    if (typeof pr.id !== 'string' || typeof pr.createdAt !== 'number') {
+      throw new Error('Backup contains a malformed pull request');
+    }
+  }
+
+  // Backups from before embeddings were tagged with a model all used the default
+  for (const entry of backup.entries) {
+    if (entry.embedding && !entry.embeddingModel) {
+      entry.embeddingModel = DEFAULT_EMBEDDING_MODEL;
+      entry.embeddingDim = entry.embedding.length;
+    }
+  }
+
+  // Older backups don't have the tables added since
+  return {
+    ...backup,
+    entryRevisions: isRecordArray(backup.entryRevisions) ? backup.entryRevisions : [],
+    starStories: isRecordArray(backup.starStories) ? backup.starStories : [],
+    chatSessions: isRecordArray(backup.chatSessions) ? backup.chatSessions : [],
+    digests: isRecordArray(backup.digests) ? backup.digests : [],
+  };
+}
+
+// Only add rows whose id isn't already in the table
+async function addMissing<T extends TInsert, TInsert>(
+  table: Table<T, string, TInsert>,
+  items: T[],
+  getKey: (item: T) => string
+): Promise<number> {
+  if (items.length === 0) return 0;
+
+  const existing = await table.bulkGet(items.map(getKey));
+  const missing = items.filter((_, i) => existing[i] === undefined);
+  if (missing.length > 0) {
+    await table.bulkAdd(missing);
+  }
+  return missing.length;
+}
+
+// Restore a validated backup
+export async function restoreBackup(backup: Backup, mode: RestoreMode): Promise<RestoreResult> {
+  const settings = backup.settings.filter((s) => !SECRET_SETTINGS.has(s.key));
+
+  // Restored embeddings aren't in the vector index - drop it so search
+  // scans everything until the caller queues a rebuild
+  await clearVectorIndex();
+
+  const tables = [db.entries, db.entryRevisions, db.githubPRs, db.settings, db.starStories, db.chatSessions, db.digests];
+  const derivedTables = [db.entrySuggestions, db.competencyClassifications, db.periodSummaries, db.jobs];
+
+  return db.transaction('rw', [...tables, ...derivedTables], async () => {
+    if (mode === 'replace') {
+      await db.entries.clear();
+      await db.entryRevisions.clear();
+      await db.githubPRs.clear();
+      await db.settings.filter((s) => !SECRET_SETTINGS.has(s.key)).delete();
+      await db.starStories.clear();
+      await db.chatSessions.clear();
+      await db.digests.clear();
+
+      // Rows derived from the old entries and PRs would point at ids that are gone
+      await db.entrySuggestions.clear();
+      await db.competencyClassifications.clear();
+      await db.periodSummaries.clear();
+      await db.jobs.where('type').anyOf('embed-entry', 'embed-pr').delete();
+
+      await db.entries.bulkPut(backup.entries);
+      await db.entryRevisions.bulkPut(backup.entryRevisions);
+      await db.githubPRs.bulkPut(backup.githubPRs);
+      await db.settings.bulkPut(settings);
+      await db.starStories.bulkPut(backup.starStories);
+      await db.chatSessions.bulkPut(backup.chatSessions);
+      await db.digests.bulkPut(backup.digests);
+
+      return {
+        entries: backup.entries.length,
+        revisions: backup.entryRevisions.length,
+        prs: backup.githubPRs.length,
+        settings: settings.length,
+        stories: backup.starStories.length,
+        chats: backup.chatSessions.length,
+        digests: backup.digests.length,
+      };
+    }
+
+    return {
+      entries: await addMissing(db.entries, backup.entries, (e) => e.id),
+      revisions: await addMissing(db.entryRevisions, backup.entryRevisions, (r) => r.id),
+      prs: await addMissing(db.githubPRs, backup.githubPRs, (pr) => pr.id),
+      settings: await addMissing(db.settings, settings, (s) => s.key),
+      stories: await addMissing(db.starStories, backup.starStories, (story) => story.id),
+      chats: await addMissing(db.chatSessions, backup.chatSessions, (session) => session.id),
+      digests: await addMissing(db.digests, backup.digests, (digest) => digest.id),
+    };
+  });
+}
@@ -0,0 +1,95 @@
+import { db, generateId, type ChatMessage, type ChatSession } from './db';
+import { type ChatTurn } from './ai';
+import { type CitationMap } from './citations';
+
+// Saved review chats. The first question in a session gets a full prompt
+// with the user's entries and PRs; follow-ups ("make that shorter") are sent
+// with the earlier turns instead of fetching data again.
+
+const TITLE_MAX_CHARS = 60;
+
+// Default title - the first question, trimmed to fit the session list
+export function getSessionTitle(question: string): string {
+  const title = question.trim().replace(/\s+/g, ' ');
+  return title.length > TITLE_MAX_CHARS ? title.slice(0, TITLE_MAX_CHARS) + '…' : title;
+}
+
+// Most recently used first
+export async function getChatSessions(): Promise<ChatSession[]> {
+  return db.chatSessions.orderBy('updatedAt').reverse().toArray();
+}
+
+export async function createChatSession(
+  session: Pick<ChatSession, 'title' | 'timeRange' | 'includeGitHub' | 'messages'>
+): Promise<ChatSession> {
+  const now = Date.now();
+  const created: ChatSession = { ...session, id: generateId(), createdAt: now, updatedAt: now };
+  await db.chatSessions.add(created);
+  return created;
+}
+
+export async function saveChatSession(
+  id: string,
+  changes: Partial<Pick<ChatSession, 'messages' | 'timeRange' | 'includeGitHub'>>
+): Promise<void> {
+  await db.chatSessions.update(id, { ...changes, updatedAt: Date.now() });
+}
+
+export async function renameChatSession(id: string, title: string): Promise<void> {
+  const trimmed = title.trim();
+  if (!trimmed) {
+    throw new Error('Session title cannot be empty');
+  }
+  await db.chatSessions.update(id, { title: trimmed });
+}
+
+export async function duplicateChatSession(id: string): Promise<ChatSession> {
+  const session = await db.chatSessions.get(id);
+  if (!session) {
+    throw new Error('Chat session not found');
+  }
+  return createChatSession({
+    title: `${session.title} (copy)`,
+    timeRange: session.timeRange,
+    includeGitHub: session.includeGitHub,
+    messages: structuredClone(session.messages),
+  });
+}
+
+export async function deleteChatSession(id: string): Promise<void> {
+  await db.chatSessions.delete(id);
+}
+
+// Turns to send with a follow-up: each answered question with its answer.
+// Notices and questions that never got an answer are left out.
+export function getChatHistory(messages: ChatMessage[]): ChatTurn[] {
+  const turns: ChatTurn[] = [];
+
+  for (let i = 0; i < messages.length - 1; i++) {
+    const question = messages[i];
+    const answer = messages[i + 1];
+    if (question.role !== 'user' || answer.role !== 'assistant' || answer.notice || !answer.content) continue;
+
+    turns.push({ role: 'user', content: question.prompt ?? question.content });
+    turns.push({ role: 'assistant', content: answer.content });
+    i++;
+  }
+
+  return turns;
+}
+
+// Every ref cited so far, so follow-up answers can keep linking to sources
+export function getSessionCitations(messages: ChatMessage[]): CitationMap | undefined {
+  const citations: CitationMap = {};
+  for (const message of messages) {
+    Object.assign(citations, message.citations);
+  }
+  return Object.keys(citations).length > 0 ? citations : undefined;
+}
+
+// Follow-up questions keep the citation rules from the first prompt
+export function buildFollowUpPrompt(question: string, hasCitations: boolean): string {
+  return hasCitations
+    ? `${question}\n\n(Keep citing the reference ids from my data, like [E-1a2b3c], after each claim.)`
+    : question;
+}
@@ -0,0 +1,162 @@
+import { type MemoryEntry, type GitHubPR } from './db';
+
+// Citations in AI answers. Every entry and PR put into a review prompt gets a
+// short reference id derived from its database id, so the same item always
+// has the same ref ("E-3k9x1a" for entries, "P-0f7qzm" for PRs). The model is
+// asked to cite refs after each claim; the answer is then post-processed to
+// turn refs into chips and flag statements with no valid citation.
+
+export interface CitationRef {
+  ref: string;
+  source: 'entry' | 'pr';
+  id: string;
+  label: string;
+  url?: string; // PR page, or the page an entry was captured on
+}
+
+export type CitationMap = Record<string, CitationRef>;
+
+export interface CitedAnswer {
+  html: string;
+  uncited: number; // Statements without a valid citation
+  invalid: number; // Refs the model made up
+}
+
+// Matches "[E-abc123]" as well as grouped refs like "[E-abc123, P-def456]"
+const CITATION_PATTERN = /\[\s*([EP]-[a-z0-9]{6}(?:\s*[,;]\s*[EP]-[a-z0-9]{6})*)\s*\]/gi;
+
+// Statements shorter than this (e.g. "Key Accomplishments:") aren't treated as claims
+const MIN_CLAIM_LENGTH = 30;
+
+// FNV-1a - small, stable, good enough to keep refs distinct within a prompt
+export function shortHash(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36).padStart(6, '0').slice(-6);
+}
+
+export function getEntryRef(entry: MemoryEntry): string {
+  return `E-${shortHash(entry.id)}`;
+}
+
+export function getPRRef(pr: GitHubPR): string {
+  return `P-${shortHash(pr.id)}`;
+}
+
+export function createEntryCitation(entry: MemoryEntry): CitationRef {
+  const text = entry.text.replace(/\s+/g, ' ');
+  return {
+    ref: getEntryRef(entry),
+    source: 'entry',
+    id: entry.id,
+    label: text.length > 80 ? text.slice(0, 80) + '…' : text,
+    url: entry.url,
+  };
+}
+
+export function createPRCitation(pr: GitHubPR): CitationRef {
+  return {
+    ref: getPRRef(pr),
+    source: 'pr',
+    id: pr.id,
+    label: `${pr.repo}#${pr.number} ${pr.title}`,
+    url: pr.url,
+  };
+}
+
+// Prompt instructions that go with ref-tagged data
+export const CITATION_INSTRUCTIONS = `**Citations:**
+- Items in my data are tagged with reference ids in square brackets, like [E-1a2b3c] for log entries or [P-4d5e6f] for pull requests
+- After every claim, cite the items that support it using those exact ids, e.g. "Cut checkout latency by 40% [E-1a2b3c][P-4d5e6f]"
+- Only cite ids that appear in my data; if nothing supports a statement, leave it out`;
+
+// PRs link straight to GitHub; entries are buttons the side panel handles
+function createChip(doc: Document, ref: string, citation: CitationRef | undefined): HTMLElement {
+  let chip: HTMLElement;
+  if (citation?.source === 'pr' && citation.url) {
+    const link = doc.createElement('a');
+    link.href = citation.url;
+    link.target = '_blank';
+    link.rel = 'noopener noreferrer';
+    chip = link;
+  } else {
+    chip = doc.createElement(citation ? 'button' : 'span');
+  }
+  chip.className = citation ? `citation-chip ${citation.source}` : 'citation-chip invalid';
+  chip.dataset.ref = ref;
+  chip.textContent = ref;
+  chip.title = citation ? citation.label : 'Unknown reference - not found in the data sent to the model';
+  return chip;
+}
+
+// Replace refs in text nodes with chips. Returns how many valid / invalid refs were found.
+function linkCitations(doc: Document, root: Element, citations: CitationMap): { valid: number; invalid: number } {
+  const counts = { valid: 0, invalid: 0 };
+  const walker = doc.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  const textNodes: Text[] = [];
+  while (walker.nextNode()) textNodes.push(walker.currentNode as Text);
+
+  for (const node of textNodes) {
+    const text = node.textContent ?? '';
+    // Leave code samples alone
+    if (node.parentElement?.closest('code, pre')) continue;
+
+    const fragment = doc.createDocumentFragment();
+    let cursor = 0;
+
+    for (const match of text.matchAll(CITATION_PATTERN)) {
+      fragment.append(text.slice(cursor, match.index));
+      for (const raw of match[1].split(/[,;]/)) {
+        const ref = raw.trim().replace(/^([ep])/, (c) => c.toUpperCase());
+        const citation = citations[ref];
+        counts[citation ? 'valid' : 'invalid']++;
+        fragment.append(createChip(doc, ref, citation));
+      }
+      cursor = match.index! + match[0].length;
+    }
+
+    if (cursor === 0) continue;
+    fragment.append(text.slice(cursor));
+    node.replaceWith(fragment);
+  }
+
+  return counts;
+}
+
+// Turn refs in rendered answer HTML into chips and flag uncited statements.
+// Pass flagUncited: false while the answer is still streaming.
+export function renderCitations(html: string, citations: CitationMap, options?: { flagUncited?: boolean }): CitedAnswer {
+  const doc = new DOMParser().parseFromString(`<div>${html}</div>`, 'text/html');
+  const root = doc.body.firstElementChild!;
+  const result: CitedAnswer = { html: '', uncited: 0, invalid: linkCitations(doc, root, citations).invalid };
+
+  if (options?.flagUncited === false) {
+    result.html = root.innerHTML;
+    return result;
+  }
+
+  // Each paragraph or list item is one statement. Nested list items are
+  // checked on their own, and items wrapping paragraphs leave it to those.
+  for (const block of Array.from(root.querySelectorAll('li, p'))) {
+    const ownNodes = Array.from(block.childNodes).filter(
+      (n) => !(n instanceof Element && /^(UL|OL)$/.test(n.tagName))
+    );
+    if (ownNodes.some((n) => n instanceof Element && n.tagName === 'P')) continue;
+
+    // A heading-like item is backed by citations in its sub-list
+    const ownText = ownNodes.map((n) => n.textContent ?? '').join('').trim();
+    const isCited = block.querySelector('.citation-chip:not(.invalid)') !== null;
+
+    if (!isCited && ownText.length >= MIN_CLAIM_LENGTH && !ownText.endsWith(':')) {
+      block.classList.add('uncited');
+      block.setAttribute('title', 'No supporting entry or PR cited');
+      result.uncited++;
+    }
+  }
+
+  result.html = root.innerHTML;
+  return result;
+}
@@ -0,0 +1,391 @@
+import { z } from 'zod';
+import {
+  db,
+  getEntries,
+  filterEntriesByScope,
+  getSetting,
+  setSetting,
+  deleteSetting,
+  type CompetencyClassification,
+  type EntryScope,
+  type GitHubPR,
+} from './db';
+import { formatEntryForContext, formatPRForContext, generateStructured } from './ai';
+import { getTimeRange } from './embeddings';
+import { getPRsForTimeRange } from './github';
+import { createEntryCitation, createPRCitation, shortHash, type CitationRef } from './citations';
+import { parseYAML } from './yaml';
+
+// Career-ladder competency mapping. A rubric (competencies with per-level
+// expectations) is imported from YAML or JSON and stored in settings. Entries
+// and PRs are classified by the AI against its competencies in batches, and
+// the results are stored per item so a view only classifies what is new,
+// edited, or was classified against an older rubric.
+
+const RUBRIC_KEY = 'competency_rubric';
+const TARGET_LEVEL_KEY = 'competency_level';
+
+// Items per classification call
+const CLASSIFY_BATCH_SIZE = 20;
+// PR descriptions are trimmed harder than in reviews - the title usually says enough
+const PR_BODY_MAX_CHARS = 1000;
+
+export interface Competency {
+  id: string;
+  name: string;
+  description?: string;
+  expectations: Record<string, string>; // Level -> what is expected at that level
+}
+
+export interface Rubric {
+  name: string;
+  levels: string[]; // Lowest first
+  competencies: Competency[];
+  importedAt: number; // Doubles as the rubric version for stored classifications
+}
+
+export interface CompetencyCoverage {
+  competency: Competency;
+  evidence: CitationRef[]; // Newest first
+}
+
+export interface CoverageReport {
+  rubric: Rubric;
+  competencies: CompetencyCoverage[];
+  gaps: Competency[]; // Competencies with no evidence in the period
+  totalItems: number;
+  unclassified: number; // Items in the period not classified against this rubric yet
+}
+
+export interface ClassificationProgress {
+  done: number;
+  total: number;
+}
+
+// An entry or PR in the period, formatted the way the classifier sees it
+interface RubricItem {
+  key: string; // Classification id
+  citation: CitationRef;
+  timestamp: number;
+  text: string;
+}
+
+const classificationSchema = z.object({
+  items: z.array(
+    z.object({
+      ref: z.string().describe('The reference id of the item, e.g. "E-1a2b3c"'),
+      competencies: z
+        .array(z.string())
+        .describe('Ids of the competencies the item shows evidence for - empty if none'),
+    })
+  ),
+});
+
+function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '');
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asText(value: unknown): string {
+  return typeof value === 'string' || typeof value === 'number' ? String(value).trim() : '';
+}
+
+// Expectations as { L4: "...", L5: "..." } or [{ level: L4, description: "..." }]
+function parseExpectations(value: unknown, competencyName: string): Record<string, string> {
+  const expectations: Record<string, string> = {};
+
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      const level = isRecord(item) ? asText(item.level) : '';
+      const text = isRecord(item) ? asText(item.expectation ?? item.description ?? item.expectations) : '';
+      if (!level || !text) {
+        throw new Error(`Expectations for "${competencyName}" need a level and a description`);
+      }
+      expectations[level] = text;
+    }
+  } else if (isRecord(value)) {
+    for (const [level, text] of Object.entries(value)) {
+      const expectation = Array.isArray(text) ? text.map(asText).filter(Boolean).join('; ') : asText(text);
+      if (expectation) expectations[level] = expectation;
+    }
+  } else if (value !== undefined && value !== '') {
+    throw new Error(`Expectations for "${competencyName}" must be a list or a level: text mapping`);
+  }
+
+  return expectations;
+}
+
+// Validate and normalize a parsed rubric file
+function normalizeRubric(data: unknown): Rubric {
+  if (!isRecord(data)) throw new Error('Rubric must be an object with a competencies list');
+
+  // Competencies as a list, or a mapping of id -> competency
+  const rawCompetencies = Array.isArray(data.competencies)
+    ? data.competencies
+    : isRecord(data.competencies)
+      ? Object.entries(data.competencies).map(([id, c]) => (isRecord(c) ? { id, ...c } : { id, name: asText(c) }))
+      : [];
+  if (rawCompetencies.length === 0) throw new Error('Rubric has no competencies');
+
+  const competencies: Competency[] = rawCompetencies.map((raw, i) => {
+    if (!isRecord(raw)) throw new Error(`Competency ${i + 1} must be an object`);
+    const name = asText(raw.name) || asText(raw.id);
+    if (!name) throw new Error(`Competency ${i + 1} is missing a name`);
+
+    return {
+      id: slugify(asText(raw.id) || name),
+      name,
+      description: asText(raw.description) || undefined,
+      expectations: parseExpectations(raw.expectations ?? raw.levels, name),
+    };
+  });
+
+  const ids = new Set<string>();
+  for (const competency of competencies) {
+    if (!competency.id) throw new Error(`Competency "${competency.name}" needs an id`);
+    if (ids.has(competency.id)) throw new Error(`Duplicate competency id "${competency.id}"`);
+    ids.add(competency.id);
+  }
+
+  // Levels in the order given, else in the order they first appear
+  const levels = Array.isArray(data.levels)
+    ? data.levels.map((l) => (isRecord(l) ? asText(l.id ?? l.name ?? l.level) : asText(l))).filter(Boolean)
+    : [];
+  for (const competency of competencies) {
+    for (const level of Object.keys(competency.expectations)) {
+      if (!levels.includes(level)) levels.push(level);
+    }
+  }
+
+  return {
+    name: asText(data.name) || 'Competency rubric',
+    levels,
+    competencies,
+    importedAt: Date.now(),
+  };
+}
+
+// Parse a rubric file - JSON if it looks like JSON, YAML otherwise
+export function parseRubric(text: string, fileName = ''): Rubric {
+  const isJSON = fileName.toLowerCase().endsWith('.json') || /^\s*[{[]/.test(text);
+
+  let data: unknown;
+  try {
+    data = isJSON ? JSON.parse(text) : parseYAML(text);
+  } catch (err) {
+    throw new Error(`Could not read rubric: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  return normalizeRubric(data);
+}
+
+export async function getRubric(): Promise<Rubric | null> {
+  const value = await getSetting(RUBRIC_KEY);
+  if (!value) return null;
+
+  try {
+    return JSON.parse(value);
+  } catch {
+    console.error('WorthKeeping: Stored competency rubric is not valid JSON');
+    return null;
+  }
+}
+
+// Replacing the rubric makes every stored classification stale, so drop them
+export async function saveRubric(rubric: Rubric): Promise<void> {
+  await setSetting(RUBRIC_KEY, JSON.stringify(rubric));
+  await db.competencyClassifications.clear();
+  console.log(`WorthKeeping: Imported rubric "${rubric.name}" with ${rubric.competencies.length} competencies`);
+}
+
+export async function removeRubric(): Promise<void> {
+  await deleteSetting(RUBRIC_KEY);
+  await deleteSetting(TARGET_LEVEL_KEY);
+  await db.competencyClassifications.clear();
+}
+
+// The level whose expectations are shown next to coverage (e.g. the next promo level)
+export async function getTargetLevel(): Promise<string | null> {
+  return getSetting(TARGET_LEVEL_KEY);
+}
+
+export async function setTargetLevel(level: string): Promise<void> {
+  await setSetting(TARGET_LEVEL_KEY, level);
+}
+
+// Entries and PRs in the period, formatted with their citation refs
+async function getRubricItems(
+  timeRange: 'week' | 'month' | 'quarter' | 'year' | 'all',
+  includeGitHub: boolean,
+  scope?: EntryScope
+): Promise<RubricItem[]> {
+  let entries = filterEntriesByScope(await getEntries(), scope);
+  if (timeRange !== 'all') {
+    const { startTime, endTime } = getTimeRange(timeRange);
+    entries = entries.filter((e) => e.timestamp >= startTime && e.timestamp <= endTime);
+  }
+
+  let prs: GitHubPR[] = [];
+  if (includeGitHub) {
+    try {
+      prs = await getPRsForTimeRange(timeRange);
+    } catch (err) {
+      console.error('Failed to fetch GitHub PRs:', err);
+    }
+  }
+
+  return [
+    ...entries.map((entry) => ({
+      key: `entry:${entry.id}`,
+      citation: createEntryCitation(entry),
+      timestamp: entry.timestamp,
+      text: formatEntryForContext(entry),
+    })),
+    ...prs.map((pr) => ({
+      key: `pr:${pr.id}`,
+      citation: createPRCitation(pr),
+      timestamp: pr.createdAt,
+      text: formatPRForContext(pr, PR_BODY_MAX_CHARS),
+    })),
+  ];
+}
+
+function isCurrent(item: RubricItem, stored: CompetencyClassification | undefined, rubric: Rubric): boolean {
+  return stored?.rubricVersion === rubric.importedAt && stored.contentHash === shortHash(item.text);
+}
+
+function formatCompetencyForPrompt(competency: Competency, level: string | null): string {
+  const description = competency.description ? ` - ${competency.description}` : '';
+  const expectation = level && competency.expectations[level];
+  return `- ${competency.id}: ${competency.name}${description}${expectation ? `\n  Expected at ${level}: ${expectation}` : ''}`;
+}
+
+function buildClassificationPrompt(rubric: Rubric, level: string | null, items: RubricItem[]): string {
+  return `You are mapping my work log to my company's career ladder ("${rubric.name}") for a promotion case.
+
+## Competencies:
+${rubric.competencies.map((c) => formatCompetencyForPrompt(c, level)).join('\n')}
+
+## Guidelines:
+- For every item below, list the ids of the competencies it shows evidence for, using only the ids above
+- An item can show several competencies. Routine work with no clear signal gets an empty list
+- Judge only what the item says - do not assume work that isn't described
+- Every item starts with a reference id in square brackets, like [E-1a2b3c] or [P-4d5e6f]. Return one result per item with that id
+
+## Items:
+${items.map((item) => item.text).join('\n')}`;
+}
+
+// Classify every item in the period that has no current classification.
+// Stored results are reused, so running this again only costs new items.
+// Returns null when confirmSend turns the batches down.
+export async function classifyCompetencies(
+  timeRange: 'week' | 'month' | 'quarter' | 'year' | 'all',
+  includeGitHub: boolean,
+  options: {
+    scope?: EntryScope;
+    onProgress?: (progress: ClassificationProgress) => void;
+    confirmSend?: (prompts: string[]) => Promise<boolean>; // Asked before the first batch is sent
+  } = {}
+): Promise<{ classified: number; cached: number } | null> {
+  const rubric = await getRubric();
+  if (!rubric) throw new Error('Import a competency rubric first');
+
+  const items = await getRubricItems(timeRange, includeGitHub, options.scope);
+  const stored = await db.competencyClassifications.bulkGet(items.map((item) => item.key));
+  const pending = items.filter((item, i) => !isCurrent(item, stored[i], rubric));
+
+  const level = await getTargetLevel();
+  const validIds = new Set(rubric.competencies.map((c) => c.id));
+
+  const batches: RubricItem[][] = [];
+  for (let start = 0; start < pending.length; start += CLASSIFY_BATCH_SIZE) {
+    batches.push(pending.slice(start, start + CLASSIFY_BATCH_SIZE));
+  }
+  const prompts = batches.map((batch) => buildClassificationPrompt(rubric, level, batch));
+  if (prompts.length > 0 && options.confirmSend && !(await options.confirmSend(prompts))) return null;
+
+  // One batch at a time to stay friendly with provider rate limits
+  let done = 0;
+  for (const [i, batch] of batches.entries()) {
+    const { items: results } = await generateStructured(prompts[i], classificationSchema, {
+      name: 'competency_classification',
+      description: 'Competencies each work item shows evidence for',
+      feature: 'competencies',
+    });
+
+    const byRef = new Map(
+      results.map((r) => [r.ref.replace(/[[\]\s]/g, '').replace(/^([ep])/, (c) => c.toUpperCase()), r.competencies])
+    );
+    const now = Date.now();
+
+    // Items the model skipped are stored with no competencies rather than retried forever
+    await db.competencyClassifications.bulkPut(
+      batch.map((item) => ({
+        id: item.key,
+        source: item.citation.source,
+        itemId: item.citation.id,
+        timestamp: item.timestamp,
+        rubricVersion: rubric.importedAt,
+        contentHash: shortHash(item.text),
+        competencies: [...new Set((byRef.get(item.citation.ref) ?? []).map(slugify))].filter((id) => validIds.has(id)),
+        classifiedAt: now,
+      }))
+    );
+
+    done += batch.length;
+    options.onProgress?.({ done, total: pending.length });
+  }
+
+  console.log(
+    `WorthKeeping: Classified ${pending.length} items against "${rubric.name}" (${items.length - pending.length} cached)`
+  );
+
+  return { classified: pending.length, cached: items.length - pending.length };
+}
+
+// Coverage per competency from stored classifications only - never calls the AI
+export async function getCompetencyCoverage(
+  timeRange: 'week' | 'month' | 'quarter' | 'year' | 'all',
+  includeGitHub: boolean,
+  scope?: EntryScope
+): Promise<CoverageReport | null> {
+  const rubric = await getRubric();
+  if (!rubric) return null;
+
+  const items = (await getRubricItems(timeRange, includeGitHub, scope)).sort((a, b) => b.timestamp - a.timestamp);
+  const stored = await db.competencyClassifications.bulkGet(items.map((item) => item.key));
+
+  const evidence = new Map<string, CitationRef[]>(rubric.competencies.map((c) => [c.id, []]));
+  let unclassified = 0;
+
+  items.forEach((item, i) => {
+    const classification = stored[i];
+    if (!isCurrent(item, classification, rubric)) {
+      unclassified++;
+      return;
+    }
+    for (const id of classification!.competencies) {
+      evidence.get(id)?.push(item.citation);
+    }
+  });
+
+  const competencies = rubric.competencies.map((competency) => ({
+    competency,
+    evidence: evidence.get(competency.id) ?? [],
+  }));
+
+  return {
+    rubric,
+    competencies,
+    gaps: competencies.filter((c) => c.evidence.length === 0).map((c) => c.competency),
+    totalItems: items.length,
+    unclassified,
+  };
+}
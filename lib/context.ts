@@ -0,0 +1,166 @@
+import { getSetting, setSetting, type MemoryEntry, type GitHubPR } from './db';
+import { semanticSearch, semanticSearchPRs } from './embeddings';
+
+// Retrieval and token budgeting for review prompts. Entries and PRs are
+// ranked by relevance to the question, then packed into the prompt until the
+// token budget runs out. Whatever doesn't fit is reported back to the UI.
+
+const REVIEW_TOKEN_BUDGET_KEY = 'review_token_budget';
+export const DEFAULT_REVIEW_TOKEN_BUDGET = 12000;
+export const MIN_REVIEW_TOKEN_BUDGET = 1000;
+
+// Room left for the model's answer when capping the budget to its context window
+const OUTPUT_RESERVE_TOKENS = 2000;
+
+// Rough characters-per-token by model family. Close enough for budgeting
+// without shipping a tokenizer for every provider.
+const CHARS_PER_TOKEN: Array<[RegExp, number]> = [
+  [/claude/i, 3.5],
+  [/gemini/i, 4],
+  [/gpt|o1|o3|o4/i, 4],
+  [/llama|mistral|qwen/i, 3.5],
+];
+const DEFAULT_CHARS_PER_TOKEN = 3.5;
+
+// Context windows for common models - unknown models get a conservative default
+const CONTEXT_WINDOWS: Array<[RegExp, number]> = [
+  [/gemini-1\.5|gemini-2/i, 1000000],
+  [/claude/i, 200000],
+  [/gpt-4o|gpt-4\.1|o1|o3|o4/i, 128000],
+  [/gpt-4-turbo/i, 128000],
+  [/gpt-3\.5/i, 16000],
+  // In-browser models - far below their real windows, so a prompt finishes in reasonable time
+  [/smollm|qwen2\.5-0\.5b|llama-3\.2-1b/i, 8000],
+];
+const DEFAULT_CONTEXT_WINDOW = 32000;
+
+export interface ContextItem {
+  source: 'entry' | 'pr';
+  id: string;
+  label: string;
+  timestamp: number;
+  tokens: number;
+  score?: number; // Similarity to the question, if the item is embedded
+}
+
+export interface ContextReport {
+  budget: number;
+  tokensUsed: number;
+  retrieval: 'semantic' | 'recency'; // recency when the embedding model wasn't available
+  included: ContextItem[];
+  dropped: ContextItem[];
+}
+
+// A candidate for the prompt, with the text it would contribute
+export type ContextCandidate =
+  | { source: 'entry'; entry: MemoryEntry; text: string }
+  | { source: 'pr'; pr: GitHubPR; text: string };
+
+export function estimateTokens(text: string, model?: string): number {
+  const ratio = CHARS_PER_TOKEN.find(([pattern]) => model && pattern.test(model))?.[1] ?? DEFAULT_CHARS_PER_TOKEN;
+  return Math.ceil(text.length / ratio);
+}
+
+export function getModelContextWindow(model?: string): number {
+  return CONTEXT_WINDOWS.find(([pattern]) => model && pattern.test(model))?.[1] ?? DEFAULT_CONTEXT_WINDOW;
+}
+
+export async function getReviewTokenBudget(): Promise<number> {
+  const value = await getSetting(REVIEW_TOKEN_BUDGET_KEY);
+  const budget = value ? parseInt(value, 10) : NaN;
+  return Number.isNaN(budget) ? DEFAULT_REVIEW_TOKEN_BUDGET : budget;
+}
+
+export async function setReviewTokenBudget(tokens: number): Promise<void> {
+  await setSetting(REVIEW_TOKEN_BUDGET_KEY, Math.max(MIN_REVIEW_TOKEN_BUDGET, Math.round(tokens)).toString());
+}
+
+function candidateId(candidate: ContextCandidate): string {
+  return candidate.source === 'entry' ? candidate.entry.id : candidate.pr.id;
+}
+
+function candidateTimestamp(candidate: ContextCandidate): number {
+  return candidate.source === 'entry' ? candidate.entry.timestamp : candidate.pr.createdAt;
+}
+
+function candidateLabel(candidate: ContextCandidate): string {
+  if (candidate.source === 'pr') {
+    return `${candidate.pr.repo}#${candidate.pr.number} ${candidate.pr.title}`;
+  }
+  const text = candidate.entry.text.replace(/\s+/g, ' ');
+  return text.length > 80 ? text.slice(0, 80) + '…' : text;
+}
+
+// Order candidates by similarity to the question. Items without an
+// embedding yet go after the scored ones, newest first.
+export async function rankCandidates(
+  question: string,
+  candidates: ContextCandidate[]
+): Promise<{ ranked: Array<{ candidate: ContextCandidate; score?: number }>; retrieval: ContextReport['retrieval'] }> {
+  const scores = new Map<string, number>();
+  let retrieval: ContextReport['retrieval'] = 'semantic';
+
+  try {
+    const [entryResults, prResults] = await Promise.all([
+      semanticSearch(question, { limit: Infinity, minScore: -1, exact: true }),
+      candidates.some((c) => c.source === 'pr')
+        ? semanticSearchPRs(question, { limit: Infinity, minScore: -1 })
+        : Promise.resolve([]),
+    ]);
+    for (const r of entryResults) scores.set(`entry:${r.entry.id}`, r.score);
+    for (const r of prResults) scores.set(`pr:${r.pr.id}`, r.score);
+  } catch (err) {
+    console.error('WorthKeeping: Semantic ranking failed, falling back to most recent', err);
+    retrieval = 'recency';
+  }
+
+  const ranked = candidates
+    .map((candidate) => ({ candidate, score: scores.get(`${candidate.source}:${candidateId(candidate)}`) }))
+    .sort((a, b) => {
+      if (a.score !== undefined && b.score !== undefined) return b.score - a.score;
+      if (a.score !== undefined) return -1;
+      if (b.score !== undefined) return 1;
+      return candidateTimestamp(b.candidate) - candidateTimestamp(a.candidate);
+    });
+
+  return { ranked, retrieval };
+}
+
+// Greedily take the most relevant candidates that fit in the budget
+export function packCandidates(
+  ranked: Array<{ candidate: ContextCandidate; score?: number }>,
+  budget: number,
+  model?: string
+): { included: ContextCandidate[]; report: Omit<ContextReport, 'retrieval'> } {
+  const included: ContextCandidate[] = [];
+  const report: Omit<ContextReport, 'retrieval'> = { budget, tokensUsed: 0, included: [], dropped: [] };
+
+  for (const { candidate, score } of ranked) {
+    // +1 for the newline joining items
+    const tokens = estimateTokens(candidate.text, model) + 1;
+    const item: ContextItem = {
+      source: candidate.source,
+      id: candidateId(candidate),
+      label: candidateLabel(candidate),
+      timestamp: candidateTimestamp(candidate),
+      tokens,
+      score,
+    };
+
+    if (report.tokensUsed + tokens <= budget) {
+      included.push(candidate);
+      report.included.push(item);
+      report.tokensUsed += tokens;
+    } else {
+      report.dropped.push(item);
+    }
+  }
+
+  return { included, report };
+}
+
+// Budget available for context, capped to what the model can take
+export function getEffectiveBudget(budget: number, model: string | undefined, promptTokens: number): number {
+  const window = getModelContextWindow(model) - OUTPUT_RESERVE_TOKENS - promptTokens;
+  return Math.max(0, Math.min(budget - promptTokens, window));
+}
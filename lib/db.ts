@@ -1,4 +1,13 @@
 import Dexie, { type EntityTable } from 'dexie';
+import type { ContextReport } from './context';
+import type { CitationMap, CitationRef } from './citations';
+import type { AIProvider, ProviderTag } from './ai';
+import type { AIFeature } from './usage';
+import type { DigestFrequency } from './digest-settings';
+
+// Kinds of work an entry can be filed under (suggested by AI, set by the user)
+export const ENTRY_CATEGORIES = ['shipped', 'fixed', 'reviewed', 'mentored', 'learned', 'incident'] as const;
+export type EntryCategory = (typeof ENTRY_CATEGORIES)[number];
 
 // Core data model - minimal, no structure imposed on user
 export interface MemoryEntry {
@@ -7,9 +16,40 @@ export interface MemoryEntry {
   timestamp: number;
   url?: string;
   title?: string;
-  embedding?: number[]; // 384-dimensional vector from MiniLM
+  embedding?: number[]; // Vector from the model named in embeddingModel
+  embeddingModel?: string; // Model id that produced the embedding
+  embeddingDim?: number;
+  tags?: string[]; // Lowercase labels, e.g. parsed from #hashtags
+  project?: string;
+  category?: EntryCategory;
+  deletedAt?: number; // Set when moved to trash; purged after retention period
+}
+
+// Optional filter for scoping views and prompts to a project or tag
+export interface EntryScope {
+  project?: string;
+  tag?: string;
+}
+
+// Snapshot of an entry taken before each edit
+export interface EntryRevision {
+  id: string;
+  entryId: string;
+  text: string;
+  timestamp: number;
+  url?: string;
+  title?: string;
+  tags?: string[];
+  project?: string;
+  category?: EntryCategory;
+  editedAt: number; // When this version was replaced
 }
 
+// Fields the user can edit on an entry
+export type EntryChanges = Partial<
+  Pick<MemoryEntry, 'text' | 'timestamp' | 'url' | 'title' | 'tags' | 'project' | 'category'>
+>;
+
 // GitHub PR data model
 export interface GitHubPR {
   id: string; // PR node_id from GitHub
@@ -24,6 +64,143 @@ export interface GitHubPR {
   additions: number;
   deletions: number;
   fetchedAt: number; // When we fetched this PR
+  embedding?: number[]; // Title + description, same models as entries
+  embeddingModel?: string;
+  embeddingDim?: number;
+}
+
+// Background job (embeddings etc.) - persisted so work survives restarts
+export interface Job {
+  id: string; // `${type}:${key}` so the same work is never queued twice
+  type: string;
+  payload: Record<string, unknown>;
+  status: 'pending' | 'running' | 'failed';
+  attempts: number;
+  runAt: number; // Earliest time to (re)try
+  createdAt: number;
+  lastError?: string;
+}
+
+// Approximate nearest-neighbour index (IVF) - one row per model with the
+// trained cluster centroids, plus one row per entry saying which cluster it's in
+export interface VectorIndexMeta {
+  model: string;
+  centroids: number[][];
+  trainedSize: number; // Vectors in the index when it was trained
+  size: number; // Vectors currently assigned
+  trainedAt: number;
+}
+
+export interface VectorAssignment {
+  entryId: string;
+  model: string;
+  list: number; // Index into centroids
+}
+
+// Cached AI summary of one week or month of work (map step of map-reduce reviews)
+export interface PeriodSummary {
+  id: string; // `${granularity}:${periodStart}:${scopeKey}`
+  granularity: 'week' | 'month';
+  periodStart: number;
+  periodEnd: number;
+  contentHash: string; // SHA-256 of the entries and PRs summarized - stale if it changes
+  summary: string;
+  entryCount: number;
+  prCount: number;
+  model?: string;
+  createdAt: number;
+}
+
+// One message in a review chat
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  prompt?: string; // What was actually sent for a user turn, if more than the question
+  notice?: boolean; // Errors and "no data" replies - shown, but never sent back to the model
+  entriesUsed?: number;
+  prsUsed?: number;
+  context?: ContextReport; // What was packed into the prompt and what didn't fit
+  summaries?: { periods: number; generated: number; granularity: 'week' | 'month' }; // Map-reduce answers
+  digests?: number; // Answers over saved digests instead of the entries
+  citations?: CitationMap; // Refs the answer can cite
+  provider?: ProviderTag; // Which provider answered - may be a fallback
+}
+
+// Saved review conversation
+export interface ChatSession {
+  id: string;
+  title: string;
+  timeRange: 'week' | 'month' | 'quarter' | 'year' | 'all';
+  includeGitHub: boolean;
+  messages: ChatMessage[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Situation / Task / Action / Result story generated from entries and PRs
+export interface StarStory {
+  id: string;
+  title: string;
+  situation: string;
+  task: string;
+  action: string;
+  result: string;
+  sources: CitationRef[]; // Entries and PRs the story is based on
+  focus?: string; // What the user asked the stories to be about
+  timeRange: 'week' | 'month' | 'quarter' | 'year' | 'all';
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Which rubric competencies an entry or PR shows evidence for (AI-classified)
+export interface CompetencyClassification {
+  id: string; // `${source}:${itemId}`
+  source: 'entry' | 'pr';
+  itemId: string;
+  timestamp: number; // Entry time or PR creation time, for period queries
+  rubricVersion: number; // importedAt of the rubric used - stale after a re-import
+  contentHash: string; // Hash of the text classified - stale after edits
+  competencies: string[]; // Competency ids
+  classifiedAt: number;
+}
+
+// AI suggestions for an entry, waiting for the user to accept or reject them.
+// Each field is cleared once it's been decided; the row stays so the entry
+// isn't suggested for again.
+export interface EntrySuggestion {
+  entryId: string;
+  sourceText: string; // Entry text the suggestions were made for - the rewrite is stale if it changed
+  tags?: string[];
+  category?: EntryCategory;
+  rewrite?: string;
+  model?: string;
+  createdAt: number;
+}
+
+// Tokens used by one successful AI call, as reported by the provider
+export interface AIUsageRecord {
+  id: string;
+  timestamp: number;
+  provider: AIProvider;
+  model: string;
+  feature: AIFeature;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+// A summary of one day or week, written in the background on a schedule
+export interface Digest {
+  id: string; // `${frequency}:${periodStart}`
+  frequency: DigestFrequency;
+  periodStart: number;
+  periodEnd: number;
+  summary: string; // Markdown, with the refs of the entries and PRs each point is based on
+  entryCount: number;
+  prCount: number;
+  citations: CitationMap;
+  model?: string;
+  createdAt: number;
+  readAt?: number; // Unread digests are marked in the archive
 }
 
 // Settings storage
@@ -37,11 +214,35 @@ const db = new Dexie('WorthKeepingDB') as Dexie & {
   entries: EntityTable<MemoryEntry, 'id'>;
   settings: EntityTable<Settings, 'key'>;
   githubPRs: EntityTable<GitHubPR, 'id'>;
+  entryRevisions: EntityTable<EntryRevision, 'id'>;
+  jobs: EntityTable<Job, 'id'>;
+  vectorIndexes: EntityTable<VectorIndexMeta, 'model'>;
+  vectorAssignments: EntityTable<VectorAssignment, 'entryId'>;
+  periodSummaries: EntityTable<PeriodSummary, 'id'>;
+  chatSessions: EntityTable<ChatSession, 'id'>;
+  starStories: EntityTable<StarStory, 'id'>;
+  competencyClassifications: EntityTable<CompetencyClassification, 'id'>;
+  aiUsage: EntityTable<AIUsageRecord, 'id'>;
+  entrySuggestions: EntityTable<EntrySuggestion, 'entryId'>;
+  digests: EntityTable<Digest, 'id'>;
 };
 
 // Schema - indexed for time-based queries
 // Version 2 adds embedding field and settings table
 // Version 3 adds GitHub PRs table
+// Version 4 adds multi-entry tags index and project index on entries
+// Version 5 adds entry revisions table for edit history
+// Version 6 adds deletedAt index for soft delete (trash)
+// Version 7 adds persistent background job queue
+// Version 8 records which model produced each embedding
+// Version 9 adds the persisted ANN vector index
+// Version 10 adds cached period summaries for long-range reviews
+// Version 11 adds saved review chat sessions
+// Version 12 adds generated STAR stories
+// Version 13 adds stored competency classifications
+// Version 14 adds the AI token usage log
+// Version 15 adds AI suggestions for entries
+// Version 16 adds scheduled digests
 db.version(1).stores({
   entries: 'id, timestamp',
 });
@@ -57,6 +258,176 @@ db.version(3).stores({
   githubPRs: 'id, repo, createdAt, mergedAt',
 });
 
+db.version(4)
+  .stores({
+    entries: 'id, timestamp, *tags, project',
+    settings: 'key',
+    githubPRs: 'id, repo, createdAt, mergedAt',
+  })
+  .upgrade((tx) =>
+    // Backfill tags from hashtags already typed into existing entries
+    tx
+      .table('entries')
+      .toCollection()
+      .modify((entry: MemoryEntry) => {
+        const tags = extractTags(entry.text);
+        if (tags.length > 0) {
+          entry.tags = tags;
+        }
+      })
+  );
+
+db.version(5).stores({
+  entries: 'id, timestamp, *tags, project',
+  settings: 'key',
+  githubPRs: 'id, repo, createdAt, mergedAt',
+  entryRevisions: 'id, entryId, editedAt',
+});
+
+db.version(6).stores({
+  entries: 'id, timestamp, *tags, project, deletedAt',
+  settings: 'key',
+  githubPRs: 'id, repo, createdAt, mergedAt',
+  entryRevisions: 'id, entryId, editedAt',
+});
+
+db.version(7).stores({
+  entries: 'id, timestamp, *tags, project, deletedAt',
+  settings: 'key',
+  githubPRs: 'id, repo, createdAt, mergedAt',
+  entryRevisions: 'id, entryId, editedAt',
+  jobs: 'id, type, status, runAt',
+});
+
+db.version(8)
+  .stores({
+    entries: 'id, timestamp, *tags, project, deletedAt',
+    settings: 'key',
+    githubPRs: 'id, repo, createdAt, mergedAt',
+    entryRevisions: 'id, entryId, editedAt',
+    jobs: 'id, type, status, runAt',
+  })
+  .upgrade((tx) =>
+    // Every embedding so far came from MiniLM
+    tx
+      .table('entries')
+      .toCollection()
+      .modify((entry: MemoryEntry) => {
+        if (entry.embedding && !entry.embeddingModel) {
+          entry.embeddingModel = 'Xenova/all-MiniLM-L6-v2';
+          entry.embeddingDim = entry.embedding.length;
+        }
+      })
+  );
+
+db.version(9).stores({
+  entries: 'id, timestamp, *tags, project, deletedAt',
+  settings: 'key',
+  githubPRs: 'id, repo, createdAt, mergedAt',
+  entryRevisions: 'id, entryId, editedAt',
+  jobs: 'id, type, status, runAt',
+  vectorIndexes: 'model',
+  vectorAssignments: 'entryId, [model+list]',
+});
+
+db.version(10).stores({
+  entries: 'id, timestamp, *tags, project, deletedAt',
+  settings: 'key',
+  githubPRs: 'id, repo, createdAt, mergedAt',
+  entryRevisions: 'id, entryId, editedAt',
+  jobs: 'id, type, status, runAt',
+  vectorIndexes: 'model',
+  vectorAssignments: 'entryId, [model+list]',
+  periodSummaries: 'id, periodStart',
+});
+
+db.version(11).stores({
+  entries: 'id, timestamp, *tags, project, deletedAt',
+  settings: 'key',
+  githubPRs: 'id, repo, createdAt, mergedAt',
+  entryRevisions: 'id, entryId, editedAt',
+  jobs: 'id, type, status, runAt',
+  vectorIndexes: 'model',
+  vectorAssignments: 'entryId, [model+list]',
+  periodSummaries: 'id, periodStart',
+  chatSessions: 'id, updatedAt',
+});
+
+db.version(12).stores({
+  entries: 'id, timestamp, *tags, project, deletedAt',
+  settings: 'key',
+  githubPRs: 'id, repo, createdAt, mergedAt',
+  entryRevisions: 'id, entryId, editedAt',
+  jobs: 'id, type, status, runAt',
+  vectorIndexes: 'model',
+  vectorAssignments: 'entryId, [model+list]',
+  periodSummaries: 'id, periodStart',
+  chatSessions: 'id, updatedAt',
+  starStories: 'id, createdAt',
+});
+
+db.version(13).stores({
+  entries: 'id, timestamp, *tags, project, deletedAt',
+  settings: 'key',
+  githubPRs: 'id, repo, createdAt, mergedAt',
+  entryRevisions: 'id, entryId, editedAt',
+  jobs: 'id, type, status, runAt',
+  vectorIndexes: 'model',
+  vectorAssignments: 'entryId, [model+list]',
+  periodSummaries: 'id, periodStart',
+  chatSessions: 'id, updatedAt',
+  starStories: 'id, createdAt',
+  competencyClassifications: 'id, timestamp',
+});
+
+db.version(14).stores({
+  entries: 'id, timestamp, *tags, project, deletedAt',
+  settings: 'key',
+  githubPRs: 'id, repo, createdAt, mergedAt',
+  entryRevisions: 'id, entryId, editedAt',
+  jobs: 'id, type, status, runAt',
+  vectorIndexes: 'model',
+  vectorAssignments: 'entryId, [model+list]',
+  periodSummaries: 'id, periodStart',
+  chatSessions: 'id, updatedAt',
+  starStories: 'id, createdAt',
+  competencyClassifications: 'id, timestamp',
+  aiUsage: 'id, timestamp',
+});
+
+db.version(15).stores({
+  entries: 'id, timestamp, *tags, project, deletedAt',
+  settings: 'key',
+  githubPRs: 'id, repo, createdAt, mergedAt',
+  entryRevisions: 'id, entryId, editedAt',
+  jobs: 'id, type, status, runAt',
+  vectorIndexes: 'model',
+  vectorAssignments: 'entryId, [model+list]',
+  periodSummaries: 'id, periodStart',
+  chatSessions: 'id, updatedAt',
+  starStories: 'id, createdAt',
+  competencyClassifications: 'id, timestamp',
+  aiUsage: 'id, timestamp',
+  entrySuggestions: 'entryId, createdAt',
+});
+
+db.version(16).stores({
+  entries: 'id, timestamp, *tags, project, deletedAt',
+  settings: 'key',
+  githubPRs: 'id, repo, createdAt, mergedAt',
+  entryRevisions: 'id, entryId, editedAt',
+  jobs: 'id, type, status, runAt',
+  vectorIndexes: 'model',
+  vectorAssignments: 'entryId, [model+list]',
+  periodSummaries: 'id, periodStart',
+  chatSessions: 'id, updatedAt',
+  starStories: 'id, createdAt',
+  competencyClassifications: 'id, timestamp',
+  aiUsage: 'id, timestamp',
+  entrySuggestions: 'entryId, createdAt',
+  digests: 'id, periodStart',
+});
+
 export { db };
 
 // Helper to generate unique IDs
@@ -64,33 +435,71 @@ export function generateId(): string {
   return `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
 }
 
+// Normalize a tag: lowercase, no leading #, no whitespace
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#+/, '').replace(/\s+/g, '-').toLowerCase();
+}
+
+// Extract #hashtags from entry text
+export function extractTags(text: string): string[] {
+  const tags = new Set<string>();
+  for (const match of text.matchAll(/(?:^|\s)#([\w-]+)/g)) {
+    tags.add(normalizeTag(match[1]));
+  }
+  return Array.from(tags);
+}
+
+// Merge tag lists, dropping empties and duplicates
+function mergeTags(...lists: Array<string[] | undefined>): string[] {
+  const tags = new Set<string>();
+  for (const list of lists) {
+    for (const tag of list ?? []) {
+      const normalized = normalizeTag(tag);
+      if (normalized) tags.add(normalized);
+    }
+  }
+  return Array.from(tags);
+}
+
 // Save a new memory entry
-export async function saveEntry(text: string, context?: { url?: string; title?: string }): Promise<MemoryEntry> {
+export async function saveEntry(
+  text: string,
+  context?: { url?: string; title?: string; tags?: string[]; project?: string }
+): Promise<MemoryEntry> {
+  const tags = mergeTags(extractTags(text), context?.tags);
+  const project = context?.project?.trim();
+
   const entry: MemoryEntry = {
     id: generateId(),
     text: text.trim(),
     timestamp: Date.now(),
     url: context?.url,
     title: context?.title,
+    tags: tags.length > 0 ? tags : undefined,
+    project: project || undefined,
   };
 
   await db.entries.add(entry);
   return entry;
 }
 
+// Trashed entries are hidden from every query except the trash view
+const isLive = (entry: MemoryEntry): boolean => !entry.deletedAt;
+
 // Get entries for a time range
 export async function getEntries(options?: {
   startTime?: number;
   endTime?: number;
   limit?: number;
 }): Promise<MemoryEntry[]> {
-  let query = db.entries.orderBy('timestamp').reverse();
+  let query = db.entries.orderBy('timestamp').reverse().filter(isLive);
 
   if (options?.startTime !== undefined) {
     query = db.entries
       .where('timestamp')
       .between(options.startTime, options.endTime ?? Date.now(), true, true)
-      .reverse();
+      .reverse()
+      .filter(isLive);
   }
 
   if (options?.limit) {
@@ -100,6 +509,131 @@ export async function getEntries(options?: {
   return query.toArray();
 }
 
+// Add imported entries in bulk (ids must not already exist)
+export async function importEntries(entries: MemoryEntry[]): Promise<number> {
+  await db.entries.bulkAdd(entries);
+  return entries.length;
+}
+
+// Get entries with a given tag, newest first
+export async function getEntriesByTag(tag: string): Promise<MemoryEntry[]> {
+  const entries = await db.entries.where('tags').equals(normalizeTag(tag)).filter(isLive).toArray();
+  return entries.sort((a, b) => b.timestamp - a.timestamp);
+}
+
+// Get entries for a given project, newest first
+export async function getEntriesByProject(project: string): Promise<MemoryEntry[]> {
+  const entries = await db.entries.where('project').equals(project).filter(isLive).toArray();
+  return entries.sort((a, b) => b.timestamp - a.timestamp);
+}
+
+// Get every tag in use
+export async function getAllTags(): Promise<string[]> {
+  const entries = await db.entries.filter(isLive).toArray();
+  return Array.from(new Set(entries.flatMap((e) => e.tags ?? []))).sort();
+}
+
+// Get every project in use
+export async function getAllProjects(): Promise<string[]> {
+  const entries = await db.entries.filter(isLive).toArray();
+  return Array.from(new Set(entries.flatMap((e) => (e.project ? [e.project] : [])))).sort();
+}
+
+// Filter an in-memory entry list by scope (for reactive views)
+export function filterEntriesByScope(entries: MemoryEntry[], scope?: EntryScope): MemoryEntry[] {
+  if (!scope?.project && !scope?.tag) return entries;
+
+  const tag = scope.tag ? normalizeTag(scope.tag) : undefined;
+  return entries.filter((entry) => {
+    if (scope.project && entry.project !== scope.project) return false;
+    if (tag && !entry.tags?.includes(tag)) return false;
+    return true;
+  });
+}
+
+// Edit an entry, keeping the previous version as a revision.
+// Clears the embedding when text changes so it gets regenerated.
+export async function updateEntry(
+  id: string,
+  changes: EntryChanges
+): Promise<{ entry: MemoryEntry; textChanged: boolean } | null> {
+  return db.transaction('rw', db.entries, db.entryRevisions, db.vectorAssignments, async () => {
+    const current = await db.entries.get(id);
+    if (!current) return null;
+
+    const next: MemoryEntry = { ...current };
+    if (changes.text !== undefined) next.text = changes.text.trim();
+    if (changes.timestamp !== undefined) next.timestamp = changes.timestamp;
+    if ('url' in changes) next.url = changes.url?.trim() || undefined;
+    if ('title' in changes) next.title = changes.title?.trim() || undefined;
+    if ('project' in changes) next.project = changes.project?.trim() || undefined;
+    if ('category' in changes) next.category = changes.category;
+    if ('tags' in changes) {
+      const tags = mergeTags(changes.tags);
+      next.tags = tags.length > 0 ? tags : undefined;
+    }
+
+    const textChanged = next.text !== current.text;
+    const unchanged =
+      !textChanged &&
+      next.timestamp === current.timestamp &&
+      next.url === current.url &&
+      next.title === current.title &&
+      next.project === current.project &&
+      next.category === current.category &&
+      (next.tags ?? []).join(',') === (current.tags ?? []).join(',');
+
+    if (unchanged) return { entry: current, textChanged: false };
+
+    await db.entryRevisions.add({
+      id: generateId(),
+      entryId: current.id,
+      text: current.text,
+      timestamp: current.timestamp,
+      url: current.url,
+      title: current.title,
+      tags: current.tags,
+      project: current.project,
+      category: current.category,
+      editedAt: Date.now(),
+    });
+
+    if (textChanged) {
+      delete next.embedding;
+      delete next.embeddingModel;
+      delete next.embeddingDim;
+      await db.vectorAssignments.delete(id);
+    }
+
+    await db.entries.put(next);
+    return { entry: next, textChanged };
+  });
+}
+
+// Get previous versions of an entry, newest first
+export async function getEntryRevisions(entryId: string): Promise<EntryRevision[]> {
+  const revisions = await db.entryRevisions.where('entryId').equals(entryId).toArray();
+  return revisions.sort((a, b) => b.editedAt - a.editedAt);
+}
+
+// Restore an entry to a previous version (the current version becomes a revision)
+export async function restoreEntryRevision(
+  revisionId: string
+): Promise<{ entry: MemoryEntry; textChanged: boolean } | null> {
+  const revision = await db.entryRevisions.get(revisionId);
+  if (!revision) return null;
+
+  return updateEntry(revision.entryId, {
+    text: revision.text,
+    timestamp: revision.timestamp,
+    url: revision.url,
+    title: revision.title,
+    tags: revision.tags,
+    project: revision.project,
+    category: revision.category,
+  });
+}
+
 // Get entries grouped by day
 export async function getEntriesGroupedByDay(): Promise<Map<string, MemoryEntry[]>> {
   const entries = await getEntries();
@@ -122,9 +656,68 @@ export async function getEntriesGroupedByDay(): Promise<Map<string, MemoryEntry[
   return grouped;
 }
 
-// Delete an entry
-export async function deleteEntry(id: string): Promise<void> {
-  await db.entries.delete(id);
+// Move an entry to the trash (soft delete)
+export async function trashEntry(id: string): Promise<void> {
+  await db.entries.update(id, { deletedAt: Date.now() });
+}
+
+// Bring an entry back from the trash
+export async function restoreEntry(id: string): Promise<void> {
+  await db.entries.update(id, { deletedAt: undefined });
+}
+
+// Permanently delete an entry along with its edit history
+export async function purgeEntry(id: string): Promise<void> {
+  await db.transaction('rw', [db.entries, db.entryRevisions, db.vectorAssignments, db.entrySuggestions], async () => {
+    await db.entries.delete(id);
+    await db.entryRevisions.where('entryId').equals(id).delete();
+    await db.vectorAssignments.delete(id);
+    await db.entrySuggestions.delete(id);
+  });
+}
+
+// Get trashed entries, most recently deleted first
+export async function getTrashedEntries(): Promise<MemoryEntry[]> {
+  return db.entries.where('deletedAt').above(0).reverse().sortBy('deletedAt');
+}
+
+// Permanently delete everything in the trash
+export async function emptyTrash(): Promise<number> {
+  const ids = (await db.entries.where('deletedAt').above(0).primaryKeys()) as string[];
+  for (const id of ids) {
+    await purgeEntry(id);
+  }
+  return ids.length;
+}
+
+// Trash retention
+const TRASH_RETENTION_KEY = 'trash_retention_days';
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+export async function getTrashRetentionDays(): Promise<number> {
+  const value = await getSetting(TRASH_RETENTION_KEY);
+  const days = value ? parseInt(value, 10) : NaN;
+  return Number.isNaN(days) ? DEFAULT_TRASH_RETENTION_DAYS : days;
+}
+
+export async function setTrashRetentionDays(days: number): Promise<void> {
+  await setSetting(TRASH_RETENTION_KEY, Math.max(1, Math.round(days)).toString());
+}
+
+// Purge entries that have been in the trash longer than the retention period
+export async function purgeExpiredEntries(): Promise<number> {
+  const days = await getTrashRetentionDays();
+  const cutoff = Date.now() - days * 24 * 60 * 60 * 1000;
+  const ids = (await db.entries.where('deletedAt').between(0, cutoff, false, true).primaryKeys()) as string[];
+
+  for (const id of ids) {
+    await purgeEntry(id);
+  }
+
+  if (ids.length > 0) {
+    console.log(`WorthKeeping: Purged ${ids.length} expired entries from trash`);
+  }
+  return ids.length;
 }
 
 // Get today's entries
@@ -145,19 +738,43 @@ export async function getThisWeekEntries(): Promise<MemoryEntry[]> {
   return getEntries({ startTime: startOfWeek.getTime() });
 }
 
-// Update entry with embedding
-export async function updateEntryEmbedding(id: string, embedding: number[]): Promise<void> {
-  await db.entries.update(id, { embedding });
+// Update entry with embedding. Pass the text that was embedded so a
+// concurrent edit doesn't get a stale vector written over it. Returns
+// whether the embedding was written.
+export async function updateEntryEmbedding(
+  id: string,
+  embedding: number[],
+  model: string,
+  embeddedText?: string
+): Promise<boolean> {
+  let written = false;
+  await db.entries
+    .where('id')
+    .equals(id)
+    .modify((entry) => {
+      if (embeddedText === undefined || entry.text === embeddedText) {
+        entry.embedding = embedding;
+        entry.embeddingModel = model;
+        entry.embeddingDim = embedding.length;
+        written = true;
+      }
+    });
+  return written;
 }
 
-// Get entries without embeddings (for background processing)
-export async function getEntriesWithoutEmbeddings(): Promise<MemoryEntry[]> {
-  return db.entries.filter((entry) => !entry.embedding).toArray();
+// Does the entry (or PR) have an embedding from this model?
+export function hasEmbeddingFrom(item: Pick<MemoryEntry, 'embedding' | 'embeddingModel'>, model: string): boolean {
+  return !!item.embedding && item.embeddingModel === model;
 }
 
-// Get all entries with embeddings (for semantic search)
-export async function getEntriesWithEmbeddings(): Promise<MemoryEntry[]> {
-  return db.entries.filter((entry) => !!entry.embedding).toArray();
+// Get entries missing an embedding from the given model (for background processing)
+export async function getEntriesWithoutEmbeddings(model: string): Promise<MemoryEntry[]> {
+  return db.entries.filter((entry) => isLive(entry) && !hasEmbeddingFrom(entry, model)).toArray();
+}
+
+// Get all entries embedded with the given model (for semantic search)
+export async function getEntriesWithEmbeddings(model: string): Promise<MemoryEntry[]> {
+  return db.entries.filter((entry) => isLive(entry) && hasEmbeddingFrom(entry, model)).toArray();
 }
 
 // Settings helpers
@@ -178,12 +795,59 @@ export async function deleteSetting(key: string): Promise<void> {
 
 // Save or update a GitHub PR (upsert)
 export async function upsertGitHubPR(pr: GitHubPR): Promise<void> {
-  await db.githubPRs.put(pr);
+  await upsertGitHubPRs([pr]);
 }
 
-// Save multiple GitHub PRs (bulk upsert)
+// Save multiple GitHub PRs (bulk upsert). Keeps existing embeddings for
+// PRs whose title, description and repo haven't changed since last sync.
 export async function upsertGitHubPRs(prs: GitHubPR[]): Promise<void> {
-  await db.githubPRs.bulkPut(prs);
+  await db.transaction('rw', db.githubPRs, async () => {
+    const existing = await db.githubPRs.bulkGet(prs.map((pr) => pr.id));
+
+    await db.githubPRs.bulkPut(
+      prs.map((pr, i) => {
+        const current = existing[i];
+        if (current?.embedding && current.title === pr.title && current.body === pr.body && current.repo === pr.repo) {
+          return {
+            ...pr,
+            embedding: current.embedding,
+            embeddingModel: current.embeddingModel,
+            embeddingDim: current.embeddingDim,
+          };
+        }
+        return pr;
+      })
+    );
+  });
+}
+
+// Store a PR embedding, unless the title or description changed since it was computed
+export async function updateGitHubPREmbedding(
+  id: string,
+  embedding: number[],
+  model: string,
+  embedded: Pick<GitHubPR, 'title' | 'body'>
+): Promise<void> {
+  await db.githubPRs
+    .where('id')
+    .equals(id)
+    .modify((pr) => {
+      if (pr.title === embedded.title && pr.body === embedded.body) {
+        pr.embedding = embedding;
+        pr.embeddingModel = model;
+        pr.embeddingDim = embedding.length;
+      }
+    });
+}
+
+// PRs missing an embedding from the given model
+export async function getGitHubPRsWithoutEmbeddings(model: string): Promise<GitHubPR[]> {
+  return db.githubPRs.filter((pr) => !hasEmbeddingFrom(pr, model)).toArray();
+}
+
+// PRs embedded with the given model (for semantic search)
+export async function getGitHubPRsWithEmbeddings(model: string): Promise<GitHubPR[]> {
+  return db.githubPRs.filter((pr) => hasEmbeddingFrom(pr, model)).toArray();
 }
 
 // Get all GitHub PRs
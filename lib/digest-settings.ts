@@ -0,0 +1,150 @@
+import { deleteSetting, getSetting, setSetting } from './db';
+
+// Schedule for background digests. Kept apart from digests.ts so the
+// background can set alarms and show notifications without loading the AI SDK.
+
+const DIGEST_SETTINGS_KEY = 'digest_settings';
+const DIGEST_TO_OPEN_KEY = 'digest_to_open';
+const SKIPPED_DIGESTS_KEY = 'skipped_digests';
+
+export const DIGEST_ALARM = 'digest';
+export const DIGEST_NOTIFICATION_PREFIX = 'digest:';
+
+// Give the last captures of a period a few minutes before it's summarized
+const ALARM_DELAY_MS = 5 * 60 * 1000;
+
+// How many missed days or weeks are caught up after the browser was closed,
+// so a long break doesn't queue a flood of AI calls
+export const MAX_CATCH_UP_PERIODS = 14;
+
+// Skipped digests are only remembered while the catch-up can still reach them
+const SKIP_MEMORY_MS = (MAX_CATCH_UP_PERIODS + 1) * 7 * 24 * 60 * 60 * 1000;
+
+export type DigestFrequency = 'daily' | 'weekly';
+
+export interface DigestSettings {
+  enabled: boolean;
+  frequency: DigestFrequency;
+  since?: number; // When digests were turned on or the frequency changed - earlier periods aren't digested
+}
+
+const DEFAULT_DIGEST_SETTINGS: DigestSettings = { enabled: false, frequency: 'weekly' };
+
+export async function getDigestSettings(): Promise<DigestSettings> {
+  const value = await getSetting(DIGEST_SETTINGS_KEY);
+  if (!value) return DEFAULT_DIGEST_SETTINGS;
+
+  try {
+    return { ...DEFAULT_DIGEST_SETTINGS, ...JSON.parse(value) };
+  } catch {
+    console.error('WorthKeeping: Stored digest settings are not valid JSON');
+    return DEFAULT_DIGEST_SETTINGS;
+  }
+}
+
+export async function saveDigestSettings(settings: DigestSettings): Promise<void> {
+  const previous = await getDigestSettings();
+  const restarted = settings.enabled && (!previous.enabled || previous.frequency !== settings.frequency);
+  const since = restarted ? Date.now() : previous.since;
+  await setSetting(DIGEST_SETTINGS_KEY, JSON.stringify({ ...settings, since }));
+}
+
+// The day or week containing `time`. Weeks start on Sunday, like the rest of the app.
+export function getDigestPeriod(frequency: DigestFrequency, time: number): { start: number; end: number } {
+  const date = new Date(time);
+  const days = frequency === 'weekly' ? 7 : 1;
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate() - (frequency === 'weekly' ? date.getDay() : 0));
+  const end = new Date(start.getFullYear(), start.getMonth(), start.getDate() + days);
+  return { start: start.getTime(), end: end.getTime() };
+}
+
+// The most recent day or week that has ended
+export function getLastCompletedPeriod(frequency: DigestFrequency, now = Date.now()): { start: number; end: number } {
+  return getDigestPeriod(frequency, getDigestPeriod(frequency, now).start - 1);
+}
+
+// Completed periods from the one containing `since` up to the last one, oldest
+// first and at most MAX_CATCH_UP_PERIODS. Without `since` (digests turned on
+// before it was recorded) only the last period.
+export function getCompletedPeriods(
+  frequency: DigestFrequency,
+  since: number | undefined,
+  now = Date.now()
+): Array<{ start: number; end: number }> {
+  let period = getLastCompletedPeriod(frequency, now);
+  const first = since === undefined ? period.start : getDigestPeriod(frequency, since).start;
+
+  const periods: Array<{ start: number; end: number }> = [];
+  while (period.start >= first && periods.length < MAX_CATCH_UP_PERIODS) {
+    periods.unshift(period);
+    period = getDigestPeriod(frequency, period.start - 1);
+  }
+  return periods;
+}
+
+export function getDigestId(frequency: DigestFrequency, periodStart: number): string {
+  return `${frequency}:${periodStart}`;
+}
+
+export function formatDigestPeriod(frequency: DigestFrequency, periodStart: number): string {
+  const start = new Date(periodStart);
+  if (frequency === 'weekly') {
+    return `Week of ${start.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`;
+  }
+  return start.toLocaleDateString('en-US', { weekday: 'long', month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+// Digests that won't be written (again): ones the user deleted, and periods
+// that ended with nothing to summarize
+export async function getSkippedDigestIds(): Promise<Set<string>> {
+  const value = await getSetting(SKIPPED_DIGESTS_KEY);
+  if (!value) return new Set();
+
+  try {
+    const ids = JSON.parse(value);
+    return new Set(Array.isArray(ids) ? ids : []);
+  } catch {
+    console.error('WorthKeeping: Stored skipped digests are not valid JSON');
+    return new Set();
+  }
+}
+
+export async function skipDigest(id: string): Promise<void> {
+  const cutoff = Date.now() - SKIP_MEMORY_MS;
+  const ids = [...(await getSkippedDigestIds())].filter((skipped) => Number(skipped.split(':')[1]) >= cutoff);
+  if (!ids.includes(id)) ids.push(id);
+  await setSetting(SKIPPED_DIGESTS_KEY, JSON.stringify(ids));
+}
+
+// Set the alarm for just after the current period ends. Each run sets the
+// next one rather than repeating, so daylight saving can't shift it.
+export async function scheduleDigestAlarm(): Promise<void> {
+  await browser.alarms.clear(DIGEST_ALARM);
+
+  const settings = await getDigestSettings();
+  if (!settings.enabled) return;
+
+  const when = getDigestPeriod(settings.frequency, Date.now()).end + ALARM_DELAY_MS;
+  await browser.alarms.create(DIGEST_ALARM, { when });
+  console.log(`WorthKeeping: Next ${settings.frequency} digest at ${new Date(when).toLocaleString()}`);
+}
+
+// Ask the background to reschedule after the settings change
+export async function requestDigestSchedule(): Promise<void> {
+  try {
+    await browser.runtime.sendMessage({ type: 'SCHEDULE_DIGEST' });
+  } catch (err) {
+    console.error('WorthKeeping: Failed to schedule digests', err);
+  }
+}
+
+// Digest the side panel should show when it next opens (from a notification click)
+export async function setDigestToOpen(id: string): Promise<void> {
+  await setSetting(DIGEST_TO_OPEN_KEY, id);
+}
+
+export async function takeDigestToOpen(): Promise<string | null> {
+  const id = await getSetting(DIGEST_TO_OPEN_KEY);
+  if (id) await deleteSetting(DIGEST_TO_OPEN_KEY);
+  return id;
+}
@@ -0,0 +1,166 @@
+import { db, getEntries, getGitHubPRsInRange, type Digest } from './db';
+import { callAI, formatEntryForContext, formatPRForContext, getAIConfig } from './ai';
+import { getTimeRange } from './embeddings';
+import { createEntryCitation, createPRCitation, type CitationMap } from './citations';
+import { formatDigestPeriod, getDigestId, skipDigest, type DigestFrequency } from './digest-settings';
+import { formatTimeRange, renderReviewPrompt, type PromptTemplate } from './templates';
+
+// Digests are summaries of a day or week, written in the background after it
+// ends (see the alarm in the background script). They're kept as an archive
+// that can be read in Review and used in place of the raw entries when asking
+// about a longer period.
+
+export interface DigestReviewPrompt {
+  prompt: string;
+  digestsUsed: number;
+  entriesUsed: number;
+  prsUsed: number;
+  citations: CitationMap;
+}
+
+function buildDigestPrompt(label: string, data: string): string {
+  return `Write a short digest of my work for ${label}, to read now and to use later when writing a performance review.
+
+- Start with the 2-3 most notable things, then group the rest as bullet points by theme or project
+- Keep concrete details: names of features, systems, ticket ids, PR titles, metrics and outcomes
+- Mention collaboration, mentoring and incidents when they appear
+- Only include what is in the data - do not invent details
+- Keep the reference ids in square brackets (like [E-1a2b3c] or [P-4d5e6f]) of the items each point is based on
+- Use markdown, without an introduction or conclusion
+
+${data}`;
+}
+
+// Write and save the digest for a period. Returns null when there was
+// nothing to summarize or no provider is set up. Only an empty period is
+// skipped for good - without a provider it's tried again on the next run.
+export async function generateDigest(
+  frequency: DigestFrequency,
+  periodStart: number,
+  periodEnd: number
+): Promise<Digest | null> {
+  const label = formatDigestPeriod(frequency, periodStart);
+  if (!(await getAIConfig())) {
+    console.log(`WorthKeeping: Skipping digest for ${label} - no AI provider set up`);
+    return null;
+  }
+
+  const [entries, prs] = await Promise.all([
+    getEntries({ startTime: periodStart, endTime: periodEnd - 1 }),
+    getGitHubPRsInRange(periodStart, periodEnd - 1),
+  ]);
+  if (entries.length === 0 && prs.length === 0) {
+    console.log(`WorthKeeping: Nothing to digest for ${label}`);
+    if (periodEnd <= Date.now()) await skipDigest(getDigestId(frequency, periodStart));
+    return null;
+  }
+
+  const sortedEntries = [...entries].sort((a, b) => a.timestamp - b.timestamp);
+  const sections: string[] = [];
+  if (sortedEntries.length > 0) {
+    sections.push(`## Work Log Entries:\n${sortedEntries.map(formatEntryForContext).join('\n')}`);
+  }
+  if (prs.length > 0) {
+    sections.push(`## GitHub Pull Requests:\n${prs.map((pr) => formatPRForContext(pr)).join('\n\n')}`);
+  }
+
+  const citations: CitationMap = {};
+  for (const citation of [...sortedEntries.map(createEntryCitation), ...prs.map(createPRCitation)]) {
+    citations[citation.ref] = citation;
+  }
+
+  let model: string | undefined;
+  const summary = await callAI(buildDigestPrompt(label, sections.join('\n\n')), {
+    feature: 'digest',
+    onProvider: (tag) => (model = tag.model),
+  });
+
+  const digest: Digest = {
+    id: getDigestId(frequency, periodStart),
+    frequency,
+    periodStart,
+    periodEnd,
+    summary: summary.trim(),
+    entryCount: entries.length,
+    prCount: prs.length,
+    citations,
+    model,
+    createdAt: Date.now(),
+  };
+  await db.digests.put(digest);
+  console.log(`WorthKeeping: Wrote digest for ${label}`);
+
+  return digest;
+}
+
+// Newest first
+export async function getDigests(): Promise<Digest[]> {
+  return db.digests.orderBy('periodStart').reverse().toArray();
+}
+
+export async function markDigestRead(id: string): Promise<void> {
+  await db.digests.update(id, { readAt: Date.now() });
+}
+
+// Remembered so the background doesn't write it again
+export async function deleteDigest(id: string): Promise<void> {
+  await skipDigest(id);
+  await db.digests.delete(id);
+}
+
+// Digests for periods that started in the time range
+export function filterDigestsByRange(
+  digests: Digest[],
+  timeRange: 'week' | 'month' | 'quarter' | 'year' | 'all'
+): Digest[] {
+  const startTime = timeRange === 'all' ? 0 : getTimeRange(timeRange).startTime;
+  return digests.filter((digest) => digest.periodStart >= startTime);
+}
+
+// The digests a review over the time range is based on. Daily digests inside
+// a week that has a weekly digest are left out so nothing is counted twice.
+export function selectReviewDigests(
+  digests: Digest[],
+  timeRange: 'week' | 'month' | 'quarter' | 'year' | 'all'
+): Digest[] {
+  const inRange = filterDigestsByRange(digests, timeRange);
+  const weeks = inRange.filter((digest) => digest.frequency === 'weekly');
+
+  return inRange.filter(
+    (digest) =>
+      digest.frequency === 'weekly' ||
+      !weeks.some((week) => digest.periodStart >= week.periodStart && digest.periodStart < week.periodEnd)
+  );
+}
+
+// Review prompt that answers the question over saved digests instead of the
+// raw entries, so a quarter fits in one prompt
+export async function buildDigestReviewPrompt(
+  question: string,
+  timeRange: 'week' | 'month' | 'quarter' | 'year' | 'all',
+  template: PromptTemplate
+): Promise<DigestReviewPrompt> {
+  const digests = selectReviewDigests(await getDigests(), timeRange).reverse();
+
+  const citations: CitationMap = {};
+  for (const digest of digests) Object.assign(citations, digest.citations);
+
+  const sections = digests.map(
+    (digest) => `### ${formatDigestPeriod(digest.frequency, digest.periodStart)}\n${digest.summary}`
+  );
+  const prompt = renderReviewPrompt(template, {
+    question,
+    timeRange: formatTimeRange(timeRange),
+    sources: 'digests of my work log',
+    entries: sections.length > 0 ? `## Digests (oldest first):\n${sections.join('\n\n')}` : '',
+    prs: '',
+  });
+
+  return {
+    prompt,
+    digestsUsed: digests.length,
+    entriesUsed: digests.reduce((sum, digest) => sum + digest.entryCount, 0),
+    prsUsed: digests.reduce((sum, digest) => sum + digest.prCount, 0),
+    citations,
+  };
+}
@@ -0,0 +1,71 @@
+import { getSetting, setSetting } from './db';
+
+// Local embedding models that run in the browser via Transformers.js.
+// Kept separate from embeddings.ts so the background can read the current
+// model without pulling in the ONNX runtime.
+
+export interface EmbeddingModel {
+  id: string; // HuggingFace model id - stored on each embedding
+  name: string;
+  dim: number;
+  pooling: 'mean' | 'cls';
+  size: string; // Approximate download size
+  description: string;
+}
+
+export const EMBEDDING_MODELS: EmbeddingModel[] = [
+  {
+    id: 'Xenova/all-MiniLM-L6-v2',
+    name: 'MiniLM L6',
+    dim: 384,
+    pooling: 'mean',
+    size: '23 MB',
+    description: 'Small and fast - good default',
+  },
+  {
+    id: 'Xenova/bge-small-en-v1.5',
+    name: 'BGE Small (English)',
+    dim: 384,
+    pooling: 'cls',
+    size: '33 MB',
+    description: 'Better English retrieval quality, slightly slower',
+  },
+  {
+    id: 'Xenova/paraphrase-multilingual-MiniLM-L12-v2',
+    name: 'Multilingual MiniLM L12',
+    dim: 384,
+    pooling: 'mean',
+    size: '118 MB',
+    description: 'For notes written in languages other than English',
+  },
+  {
+    id: 'Xenova/all-mpnet-base-v2',
+    name: 'MPNet Base',
+    dim: 768,
+    pooling: 'mean',
+    size: '110 MB',
+    description: 'Highest quality, noticeably slower to index',
+  },
+];
+
+// Model used before embeddings were tagged with their model
+export const DEFAULT_EMBEDDING_MODEL = 'Xenova/all-MiniLM-L6-v2';
+
+const EMBEDDING_MODEL_KEY = 'embedding_model';
+
+export function findEmbeddingModel(id: string): EmbeddingModel | undefined {
+  return EMBEDDING_MODELS.find((m) => m.id === id);
+}
+
+// Currently selected model (falls back to the default if the setting is unknown)
+export async function getEmbeddingModel(): Promise<EmbeddingModel> {
+  const id = await getSetting(EMBEDDING_MODEL_KEY);
+  return findEmbeddingModel(id ?? '') ?? findEmbeddingModel(DEFAULT_EMBEDDING_MODEL)!;
+}
+
+export async function setEmbeddingModel(id: string): Promise<void> {
+  if (!findEmbeddingModel(id)) {
+    throw new Error(`Unknown embedding model: ${id}`);
+  }
+  await setSetting(EMBEDDING_MODEL_KEY, id);
+}
@@ -1,10 +1,16 @@
 import { pipeline, env, type FeatureExtractionPipeline } from '@huggingface/transformers';
 import {
+  db,
   type MemoryEntry,
+  type GitHubPR,
   updateEntryEmbedding,
-  getEntriesWithoutEmbeddings,
   getEntriesWithEmbeddings,
+  hasEmbeddingFrom,
+  updateGitHubPREmbedding,
+  getGitHubPRsWithEmbeddings,
 } from './db';
+import { getEmbeddingModel, type EmbeddingModel } from './embedding-models';
+import { getCandidateEntries, indexEntryVector } from './vector-index';
 
 // Configure Transformers.js for Chrome extension environment
 // Must be set before any model loading
@@ -25,36 +31,51 @@ env.useBrowserCache = true;
 
 console.log('WorthKeeping: WASM path configured to', wasmPath);
 
-// Model config - small but effective
-const MODEL_NAME = 'Xenova/all-MiniLM-L6-v2';
-const EMBEDDING_DIM = 384;
-
-// Singleton pipeline
+// Singleton pipeline - reloaded when the selected model changes
 let embeddingPipeline: FeatureExtractionPipeline | null = null;
+let loadedModelId: string | null = null;
 let isLoadingModel = false;
 let modelLoadPromise: Promise<FeatureExtractionPipeline> | null = null;
+let loadingModelId: string | null = null;
 
-// Load the embedding model (lazy, singleton)
-async function getEmbeddingPipeline(): Promise<FeatureExtractionPipeline> {
-  if (embeddingPipeline) {
+// Load the embedding model (lazy, singleton per model)
+async function getEmbeddingPipeline(model: EmbeddingModel): Promise<FeatureExtractionPipeline> {
+  if (embeddingPipeline && loadedModelId === model.id) {
     return embeddingPipeline;
   }
 
-  if (modelLoadPromise) {
+  if (modelLoadPromise && loadingModelId === model.id) {
     return modelLoadPromise;
   }
 
+  // Switching models - free the old one
+  if (embeddingPipeline) {
+    embeddingPipeline.dispose();
+    embeddingPipeline = null;
+    loadedModelId = null;
+  }
+
   isLoadingModel = true;
-  console.log('WorthKeeping: Loading embedding model...');
+  loadingModelId = model.id;
+  console.log('WorthKeeping: Loading embedding model', model.id);
 
-  modelLoadPromise = pipeline('feature-extraction', MODEL_NAME, {
+  modelLoadPromise = pipeline('feature-extraction', model.id, {
     dtype: 'fp32',
-  }).then((pipe) => {
-    embeddingPipeline = pipe as FeatureExtractionPipeline;
-    isLoadingModel = false;
-    console.log('WorthKeeping: Embedding model loaded');
-    return embeddingPipeline;
-  });
+  })
+    .then((pipe) => {
+      embeddingPipeline = pipe as FeatureExtractionPipeline;
+      loadedModelId = model.id;
+      console.log('WorthKeeping: Embedding model loaded');
+      return embeddingPipeline;
+    })
+    .finally(() => {
+      // A newer load for a different model may have started meanwhile
+      if (loadingModelId === model.id) {
+        isLoadingModel = false;
+        modelLoadPromise = null;
+        loadingModelId = null;
+      }
+    });
 
   return modelLoadPromise;
 }
@@ -69,45 +90,56 @@ export function isModelReady(): boolean {
   return embeddingPipeline !== null;
 }
 
-// Generate embedding for text
-export async function generateEmbedding(text: string): Promise<number[]> {
-  const pipe = await getEmbeddingPipeline();
-  const output = await pipe(text, { pooling: 'mean', normalize: true });
+// Generate embedding for text (uses the selected model unless one is given)
+export async function generateEmbedding(text: string, model?: EmbeddingModel): Promise<number[]> {
+  const activeModel = model ?? (await getEmbeddingModel());
+  const pipe = await getEmbeddingPipeline(activeModel);
+  const output = await pipe(text, { pooling: activeModel.pooling, normalize: true });
 
   // Convert to array
   const embedding = Array.from(output.data as Float32Array);
-  return embedding.slice(0, EMBEDDING_DIM);
+  return embedding.slice(0, activeModel.dim);
 }
 
-// Generate embedding for an entry and save it
-export async function embedEntry(entry: MemoryEntry): Promise<void> {
-  try {
-    const embedding = await generateEmbedding(entry.text);
-    await updateEntryEmbedding(entry.id, embedding);
-    console.log('WorthKeeping: Embedded entry', entry.id);
-  } catch (err) {
-    console.error('WorthKeeping: Failed to embed entry', entry.id, err);
+// Generate embedding for an entry and save it (throws so the job queue can retry)
+export async function embedEntry(entry: MemoryEntry, model?: EmbeddingModel): Promise<void> {
+  const activeModel = model ?? (await getEmbeddingModel());
+  const embedding = await generateEmbedding(entry.text, activeModel);
+  if (!(await updateEntryEmbedding(entry.id, embedding, activeModel.id, entry.text))) {
+    // Edited while embedding - the edit queued a fresh job for the new text
+    return;
   }
+  await indexEntryVector(entry.id, embedding, activeModel.id);
+  console.log('WorthKeeping: Embedded entry', entry.id);
 }
 
-// Process all entries without embeddings (background job)
-export async function processUnembeddedEntries(): Promise<number> {
-  const entries = await getEntriesWithoutEmbeddings();
+// Job handler - embed the current version of an entry if it still needs it
+export async function embedEntryById(entryId: string): Promise<void> {
+  const entry = await db.entries.get(entryId);
+  if (!entry || entry.deletedAt) return;
 
-  if (entries.length === 0) {
-    return 0;
-  }
+  const model = await getEmbeddingModel();
+  if (hasEmbeddingFrom(entry, model.id)) return;
+  await embedEntry(entry, model);
+}
 
-  console.log(`WorthKeeping: Processing ${entries.length} unembedded entries`);
+// Text used to embed a PR - the description is truncated like in prompts
+function getPREmbeddingText(pr: GitHubPR): string {
+  const body = pr.body.length > 1000 ? pr.body.slice(0, 1000) : pr.body;
+  return body.trim() ? `${pr.title}\n\n${body}` : pr.title;
+}
 
-  // Process in batches to avoid blocking
-  for (const entry of entries) {
-    await embedEntry(entry);
-    // Small delay to not block UI
-    await new Promise((r) => setTimeout(r, 50));
-  }
+// Job handler - embed a synced PR if it still needs it
+export async function embedPRById(prId: string): Promise<void> {
+  const pr = await db.githubPRs.get(prId);
+  if (!pr) return;
+
+  const model = await getEmbeddingModel();
+  if (hasEmbeddingFrom(pr, model.id)) return;
 
-  return entries.length;
+  const embedding = await generateEmbedding(getPREmbeddingText(pr), model);
+  await updateGitHubPREmbedding(pr.id, embedding, model.id, pr);
+  console.log('WorthKeeping: Embedded PR', pr.repo, pr.number);
 }
 
 // Cosine similarity between two vectors
@@ -125,6 +157,17 @@ function cosineSimilarity(a: number[], b: number[]): number {
   return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
 }
 
+// The search view looks up entries and PRs for the same query back to back
+let lastQueryEmbedding: { key: string; embedding: number[] } | null = null;
+
+async function getQueryEmbedding(query: string, model: EmbeddingModel): Promise<number[]> {
+  const key = `${model.id}\n${query}`;
+  if (lastQueryEmbedding?.key !== key) {
+    lastQueryEmbedding = { key, embedding: await generateEmbedding(query, model) };
+  }
+  return lastQueryEmbedding.embedding;
+}
+
 // Semantic search - find entries similar to query
 export async function semanticSearch(
   query: string,
@@ -133,15 +176,22 @@ export async function semanticSearch(
     minScore?: number;
     startTime?: number;
     endTime?: number;
+    exact?: boolean; // Skip the ANN index and score every entry
   }
 ): Promise<Array<{ entry: MemoryEntry; score: number }>> {
-  const { limit = 10, minScore = 0.3, startTime, endTime } = options ?? {};
+  const { limit = 10, minScore = 0.3, startTime, endTime, exact = false } = options ?? {};
 
   // Generate query embedding
-  const queryEmbedding = await generateEmbedding(query);
+  const model = await getEmbeddingModel();
+  const queryEmbedding = await getQueryEmbedding(query, model);
 
-  // Get all entries with embeddings
-  let entries = await getEntriesWithEmbeddings();
+  // Nearby clusters from the vector index, or everything for small histories.
+  // Only vectors from the same model are comparable - entries still
+  // waiting to be re-indexed after a model switch are left out
+  const candidates = exact ? null : await getCandidateEntries(queryEmbedding, model.id);
+  let entries = (candidates ?? (await getEntriesWithEmbeddings(model.id))).filter(
+    (entry) => entry.embedding!.length === queryEmbedding.length
+  );
 
   // Filter by time range if specified
   if (startTime !== undefined || endTime !== undefined) {
@@ -165,6 +215,35 @@ export async function semanticSearch(
   return results;
 }
 
+// Semantic search over synced GitHub PRs (few enough to always scan exactly)
+export async function semanticSearchPRs(
+  query: string,
+  options?: {
+    limit?: number;
+    minScore?: number;
+    startTime?: number;
+    endTime?: number;
+  }
+): Promise<Array<{ pr: GitHubPR; score: number }>> {
+  const { limit = 10, minScore = 0.3, startTime, endTime } = options ?? {};
+
+  const model = await getEmbeddingModel();
+  const queryEmbedding = await getQueryEmbedding(query, model);
+
+  const prs = (await getGitHubPRsWithEmbeddings(model.id)).filter((pr) => {
+    if (pr.embedding!.length !== queryEmbedding.length) return false;
+    if (startTime && pr.createdAt < startTime) return false;
+    if (endTime && pr.createdAt > endTime) return false;
+    return true;
+  });
+
+  return prs
+    .map((pr) => ({ pr, score: cosineSimilarity(queryEmbedding, pr.embedding!) }))
+    .filter((r) => r.score >= minScore)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
 // Get time range helpers
 export function getTimeRange(range: 'today' | 'week' | 'month' | 'quarter' | 'year'): {
   startTime: number;
@@ -207,7 +286,7 @@ export function getTimeRange(range: 'today' | 'week' | 'month' | 'quarter' | 'ye
 // Preload the model (call early to warm up)
 export async function preloadModel(): Promise<void> {
   try {
-    await getEmbeddingPipeline();
+    await getEmbeddingPipeline(await getEmbeddingModel());
   } catch (err) {
     console.error('WorthKeeping: Failed to preload model', err);
   }
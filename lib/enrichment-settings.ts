@@ -0,0 +1,46 @@
+import { getSetting, setSetting } from './db';
+
+// Settings for AI entry enrichment. Kept apart from enrichment.ts so the
+// background can check them when an entry is captured without loading the AI SDK.
+
+const ENRICHMENT_KEY = 'entry_enrichment';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface EnrichmentSettings {
+  enabled: boolean;
+  since: number; // Only entries from this time on are enriched
+}
+
+const DEFAULT_ENRICHMENT_SETTINGS: EnrichmentSettings = { enabled: false, since: 0 };
+
+export async function getEnrichmentSettings(): Promise<EnrichmentSettings> {
+  const value = await getSetting(ENRICHMENT_KEY);
+  if (!value) return DEFAULT_ENRICHMENT_SETTINGS;
+
+  try {
+    return { ...DEFAULT_ENRICHMENT_SETTINGS, ...JSON.parse(value) };
+  } catch {
+    console.error('WorthKeeping: Stored enrichment settings are not valid JSON');
+    return DEFAULT_ENRICHMENT_SETTINGS;
+  }
+}
+
+// Turning it on covers entries captured from now on - older ones are opt-in
+export async function setEnrichmentEnabled(enabled: boolean): Promise<EnrichmentSettings> {
+  const current = await getEnrichmentSettings();
+  const settings = {
+    enabled,
+    since: enabled && !current.enabled ? Date.now() : current.since,
+  };
+  await setSetting(ENRICHMENT_KEY, JSON.stringify(settings));
+  return settings;
+}
+
+// Also enrich entries from the last `days` days
+export async function enrichEarlierEntries(days: number): Promise<EnrichmentSettings> {
+  const current = await getEnrichmentSettings();
+  const settings = { ...current, since: Math.min(current.since || Date.now(), Date.now() - days * DAY_MS) };
+  await setSetting(ENRICHMENT_KEY, JSON.stringify(settings));
+  return settings;
+}
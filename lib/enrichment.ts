@@ -0,0 +1,158 @@
+import { z } from 'zod';
+import {
+  db,
+  getEntries,
+  getAllTags,
+  normalizeTag,
+  updateEntry,
+  ENTRY_CATEGORIES,
+  type EntrySuggestion,
+  type MemoryEntry,
+} from './db';
+import { formatEntryForContext, generateStructured, getAIConfig } from './ai';
+import { getEntryRef } from './citations';
+import { getEnrichmentSettings } from './enrichment-settings';
+
+// AI enrichment of raw captures. New entries go to the configured provider in
+// batches for suggested tags, a category and an impact-oriented rewrite.
+// Nothing is applied until the user accepts it in History, and an accepted
+// rewrite goes through updateEntry so the original text is kept as a revision.
+
+// Entries per AI call
+export const ENRICH_BATCH_SIZE = 10;
+const MAX_SUGGESTED_TAGS = 3;
+
+export type SuggestionKind = 'tags' | 'category' | 'rewrite';
+
+const enrichmentSchema = z.object({
+  entries: z.array(
+    z.object({
+      ref: z.string().describe('Reference id of the entry, e.g. "E-1a2b3c"'),
+      tags: z.array(z.string()).describe('Up to 3 short lowercase tags for what the entry is about'),
+      category: z.enum([...ENTRY_CATEGORIES, 'none'] as const).describe('The kind of work, or "none" if no category fits'),
+      rewrite: z
+        .string()
+        .describe('The entry rewritten to show its impact, or an empty string if it is already clear'),
+    })
+  ),
+});
+
+function buildEnrichmentPrompt(entries: MemoryEntry[], existingTags: string[]): string {
+  return `You are helping me turn quick notes from my work log into entries that will still make sense at performance review time.
+
+## Guidelines:
+- Every entry starts with a reference id in square brackets, like [E-1a2b3c]. Return one result per entry with that id
+- tags: up to ${MAX_SUGGESTED_TAGS} short lowercase tags for the area, technology or team.${existingTags.length > 0 ? ` Reuse these existing tags where they fit: ${existingTags.join(', ')}` : ''}
+- category: shipped (released a feature or change), fixed (a bug or problem), reviewed (code or design review), mentored (helped or taught someone), learned (picked up a skill), incident (outage or on-call), or "none"
+- rewrite: first person, past tense, one or two sentences that lead with what changed and why it mattered. Keep every fact, name and number, and add nothing that isn't in the entry. Use an empty string if the entry is already clear
+
+## Entries:
+${entries.map(formatEntryForContext).join('\n')}`;
+}
+
+// Live entries in the enrichment window that have never had suggestions, newest first
+async function getEntriesToEnrich(since: number): Promise<MemoryEntry[]> {
+  const entries = await getEntries({ startTime: since });
+  const done = new Set(await db.entrySuggestions.toCollection().primaryKeys());
+  return entries.filter((entry) => !done.has(entry.id));
+}
+
+export async function getPendingEnrichmentCount(): Promise<number> {
+  const settings = await getEnrichmentSettings();
+  return settings.enabled ? (await getEntriesToEnrich(settings.since)).length : 0;
+}
+
+// Enrich one batch and store the suggestions. Returns how many entries are
+// still waiting, so the job can queue itself again.
+export async function enrichNextBatch(): Promise<{ enriched: number; remaining: number }> {
+  const settings = await getEnrichmentSettings();
+  if (!settings.enabled || !(await getAIConfig())) return { enriched: 0, remaining: 0 };
+
+  const pending = await getEntriesToEnrich(settings.since);
+  if (pending.length === 0) return { enriched: 0, remaining: 0 };
+
+  const batch = pending.slice(0, ENRICH_BATCH_SIZE);
+  let model: string | undefined;
+  const { entries: results } = await generateStructured(
+    buildEnrichmentPrompt(batch, await getAllTags()),
+    enrichmentSchema,
+    {
+      name: 'entry_enrichment',
+      description: 'Suggested tags, category and rewrite for each work log entry',
+      feature: 'enrichment',
+      onProvider: (tag) => (model = tag.model),
+    }
+  );
+
+  const byRef = new Map(results.map((r) => [r.ref.replace(/[[\]\s]/g, '').replace(/^e/, 'E'), r]));
+  const now = Date.now();
+
+  // Entries the model skipped get an empty row rather than being retried forever
+  await db.entrySuggestions.bulkPut(
+    batch.map((entry): EntrySuggestion => {
+      const result = byRef.get(getEntryRef(entry));
+      const tags = [...new Set((result?.tags ?? []).map(normalizeTag))]
+        .filter((tag) => tag && !entry.tags?.includes(tag))
+        .slice(0, MAX_SUGGESTED_TAGS);
+      const category = result?.category === 'none' || result?.category === entry.category ? undefined : result?.category;
+      const rewrite = result?.rewrite.trim();
+
+      return {
+        entryId: entry.id,
+        sourceText: entry.text,
+        tags: tags.length > 0 ? tags : undefined,
+        category,
+        rewrite: rewrite && rewrite !== entry.text ? rewrite : undefined,
+        model,
+        createdAt: now,
+      };
+    })
+  );
+
+  console.log(`WorthKeeping: Enriched ${batch.length} entries (${pending.length - batch.length} waiting)`);
+  return { enriched: batch.length, remaining: pending.length - batch.length };
+}
+
+function hasOpenSuggestion(suggestion: EntrySuggestion): boolean {
+  return Boolean(suggestion.tags || suggestion.category || suggestion.rewrite);
+}
+
+// Suggestions still waiting for a decision
+export async function getOpenSuggestions(): Promise<EntrySuggestion[]> {
+  return db.entrySuggestions.filter(hasOpenSuggestion).toArray();
+}
+
+// A rewrite only applies to the text it was written from
+export function isRewriteCurrent(suggestion: EntrySuggestion, entry: MemoryEntry): boolean {
+  return Boolean(suggestion.rewrite) && suggestion.sourceText === entry.text;
+}
+
+// Drop a suggestion once it's been decided - accepted or rejected
+export async function dismissSuggestion(entryId: string, kind: SuggestionKind): Promise<void> {
+  await db.entrySuggestions.update(entryId, { [kind]: undefined });
+}
+
+// Apply a suggestion to the entry. Returns updateEntry's result so the caller
+// can re-embed when the text changed.
+export async function acceptSuggestion(
+  entryId: string,
+  kind: SuggestionKind
+): Promise<{ entry: MemoryEntry; textChanged: boolean } | null> {
+  const [suggestion, entry] = await Promise.all([db.entrySuggestions.get(entryId), db.entries.get(entryId)]);
+  if (!suggestion || !entry) return null;
+
+  let result: { entry: MemoryEntry; textChanged: boolean } | null = null;
+  if (kind === 'tags' && suggestion.tags) {
+    result = await updateEntry(entryId, { tags: [...(entry.tags ?? []), ...suggestion.tags] });
+  } else if (kind === 'category' && suggestion.category) {
+    result = await updateEntry(entryId, { category: suggestion.category });
+  } else if (kind === 'rewrite' && suggestion.rewrite) {
+    if (!isRewriteCurrent(suggestion, entry)) {
+      throw new Error('This entry was edited after the rewrite was suggested');
+    }
+    result = await updateEntry(entryId, { text: suggestion.rewrite });
+  }
+
+  await dismissSuggestion(entryId, kind);
+  return result;
+}
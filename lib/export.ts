@@ -1,4 +1,4 @@
-import type { GitHubPR } from './db';
+import type { GitHubPR, MemoryEntry, StarStory } from './db';
 
 // Escape CSV field (handle commas, quotes, newlines)
 function escapeCSVField(value: string | number | null): string {
@@ -53,9 +53,148 @@ export function exportPRsToCSV(prs: GitHubPR[]): string {
   return csvContent;
 }
 
+// Column order for entry CSV export - parseEntriesCSV in import.ts reads the same headers
+export const ENTRY_CSV_HEADERS = ['id', 'timestamp', 'text', 'url', 'title', 'tags', 'project', 'category'];
+
+// Export memory entries to CSV (round-trips through parseEntriesCSV)
+export function exportEntriesToCSV(entries: MemoryEntry[]): string {
+  const rows = entries.map((entry) => [
+    entry.id,
+    new Date(entry.timestamp).toISOString(),
+    entry.text,
+    entry.url ?? '',
+    entry.title ?? '',
+    (entry.tags ?? []).join(';'),
+    entry.project ?? '',
+    entry.category ?? '',
+  ]);
+
+  return [ENTRY_CSV_HEADERS.join(','), ...rows.map((row) => row.map((cell) => escapeCSVField(cell)).join(','))].join(
+    '\n'
+  );
+}
+
+// Brag document grouping
+export type BragDocGrouping = 'week' | 'month';
+
+// Start of the period a timestamp falls in (weeks start on Sunday, like the rest of the app)
+function getPeriodStart(timestamp: number, groupBy: BragDocGrouping): Date {
+  const date = new Date(timestamp);
+  if (groupBy === 'month') {
+    return new Date(date.getFullYear(), date.getMonth(), 1);
+  }
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  start.setDate(start.getDate() - start.getDay());
+  return start;
+}
+
+function formatPeriodHeading(start: Date, groupBy: BragDocGrouping): string {
+  if (groupBy === 'month') {
+    return start.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+  }
+  return `Week of ${start.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`;
+}
+
+function formatShortDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+}
+
+// Escape characters that would break markdown link text
+function escapeLinkText(text: string): string {
+  return text.replace(/[[\]]/g, '\\$&');
+}
+
+function formatEntryLine(entry: MemoryEntry): string {
+  let line = `- ${formatShortDate(entry.timestamp)} — ${entry.text.replace(/\n+/g, ' ')}`;
+  if (entry.url) {
+    line += ` ([${escapeLinkText(entry.title || entry.url)}](${entry.url}))`;
+  }
+  return line;
+}
+
+function formatPRLine(pr: GitHubPR): string {
+  const status = pr.mergedAt ? 'merged' : pr.state;
+  return `- ${formatShortDate(pr.mergedAt ?? pr.createdAt)} — **PR** [${escapeLinkText(pr.title)}](${pr.url}) (${pr.repo}, ${status}, +${pr.additions}/-${pr.deletions})`;
+}
+
+// Export entries and PRs as a Markdown brag document, grouped by week or month
+export function exportBragDocument(
+  entries: MemoryEntry[],
+  prs: GitHubPR[],
+  options: { groupBy: BragDocGrouping; title?: string; rangeLabel?: string }
+): string {
+  const items = [
+    ...entries.map((entry) => ({ time: entry.timestamp, line: formatEntryLine(entry) })),
+    ...prs.map((pr) => ({ time: pr.mergedAt ?? pr.createdAt, line: formatPRLine(pr) })),
+  ].sort((a, b) => a.time - b.time);
+
+  const periods = new Map<number, { heading: string; lines: string[] }>();
+  for (const item of items) {
+    const start = getPeriodStart(item.time, options.groupBy);
+    const key = start.getTime();
+    if (!periods.has(key)) {
+      periods.set(key, { heading: formatPeriodHeading(start, options.groupBy), lines: [] });
+    }
+    periods.get(key)!.lines.push(item.line);
+  }
+
+  const summary = [`${entries.length} entries`, prs.length > 0 ? `${prs.length} pull requests` : '']
+    .filter(Boolean)
+    .join(', ');
+
+  const sections = [`# ${options.title || 'Brag Document'}`, ''];
+  if (options.rangeLabel) {
+    sections.push(`_${options.rangeLabel} · ${summary}_`, '');
+  } else {
+    sections.push(`_${summary}_`, '');
+  }
+
+  for (const { heading, lines } of periods.values()) {
+    sections.push(`## ${heading}`, '', ...lines, '');
+  }
+
+  return sections.join('\n');
+}
+
+// Export STAR stories as Markdown, with links to the entries and PRs behind each
+export function exportStarStories(stories: StarStory[], title = 'STAR Stories'): string {
+  const sections = [`# ${title}`, ''];
+
+  for (const story of stories) {
+    sections.push(
+      `## ${story.title}`,
+      '',
+      `**Situation:** ${story.situation}`,
+      '',
+      `**Task:** ${story.task}`,
+      '',
+      `**Action:** ${story.action}`,
+      '',
+      `**Result:** ${story.result}`,
+      ''
+    );
+
+    if (story.sources.length > 0) {
+      sections.push('_Sources:_', '');
+      for (const source of story.sources) {
+        const label = escapeLinkText(source.label);
+        sections.push(`- ${source.source === 'pr' ? 'PR' : 'Entry'}: ${source.url ? `[${label}](${source.url})` : label}`);
+      }
+      sections.push('');
+    }
+  }
+
+  return sections.join('\n');
+}
+
 // Trigger CSV download in browser
 export function downloadCSV(content: string, filename: string): void {
-  const blob = new Blob([content], { type: 'text/csv;charset=utf-8;' });
+  downloadFile(content, filename, 'text/csv;charset=utf-8;');
+}
+
+// Trigger a file download in browser
+export function downloadFile(content: string, filename: string, mimeType: string): void {
+  const blob = new Blob([content], { type: mimeType });
   const url = URL.createObjectURL(blob);
 
   const link = document.createElement('a');
@@ -72,7 +211,7 @@ export function downloadCSV(content: string, filename: string): void {
 }
 
 // Helper to generate timestamped filename
-export function generateExportFilename(prefix: string = 'github-prs'): string {
+export function generateExportFilename(prefix: string = 'github-prs', extension: string = 'csv'): string {
   const date = new Date().toISOString().split('T')[0];
-  return `${prefix}-${date}.csv`;
+  return `${prefix}-${date}.${extension}`;
 }
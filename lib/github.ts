@@ -280,31 +280,31 @@ export async function getGitHubSyncStatus(): Promise<SyncStatus> {
   };
 }
 
+// Format a single PR for an LLM prompt
+export function formatPRForPrompt(pr: GitHubPR, maxBodyLength = 500): string {
+  const date = new Date(pr.createdAt).toLocaleDateString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+  });
+  const mergedLabel = pr.mergedAt ? ' [MERGED]' : pr.state === 'open' ? ' [OPEN]' : '';
+
+  let entry = `- [${date}] ${pr.title}${mergedLabel} (${pr.repo}, +${pr.additions}/-${pr.deletions})`;
+
+  if (pr.body && pr.body.trim()) {
+    // Truncate long descriptions
+    const desc = pr.body.length > maxBodyLength ? pr.body.slice(0, maxBodyLength) + '...' : pr.body;
+    entry += `\n  Description: ${desc.replace(/\n/g, ' ')}`;
+  }
+
+  return entry;
+}
+
 // Format PRs for LLM prompt
-export function formatPRsForPrompt(prs: GitHubPR[]): string {
+export function formatPRsForPrompt(prs: GitHubPR[], maxBodyLength = 500): string {
   if (prs.length === 0) return '';
 
-  return prs
-    .map((pr) => {
-      const date = new Date(pr.createdAt).toLocaleDateString('en-US', {
-        month: 'short',
-        day: 'numeric',
-        year: 'numeric',
-      });
-      const lines = pr.additions + pr.deletions;
-      const mergedLabel = pr.mergedAt ? ' [MERGED]' : pr.state === 'open' ? ' [OPEN]' : '';
-
-      let entry = `- [${date}] ${pr.title}${mergedLabel} (${pr.repo}, +${pr.additions}/-${pr.deletions})`;
-
-      if (pr.body && pr.body.trim()) {
-        // Truncate long descriptions
-        const desc = pr.body.length > 500 ? pr.body.slice(0, 500) + '...' : pr.body;
-        entry += `\n  Description: ${desc.replace(/\n/g, ' ')}`;
-      }
-
-      return entry;
-    })
-    .join('\n\n');
+  return prs.map((pr) => formatPRForPrompt(pr, maxBodyLength)).join('\n\n');
 }
 
 // Get PRs for a specific time range (used by buildReviewPrompt)
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import type { MemoryEntry } from './db';
+import { exportEntriesToCSV } from './export';
+import { parseCSV, parseEntriesCSV } from './import';
+
+const entries: MemoryEntry[] = [
+  {
+    id: 'entry-1',
+    text: 'Shipped the "fast" importer, finally\nand wrote the runbook',
+    timestamp: Date.UTC(2025, 2, 14, 9, 30),
+    url: 'https://example.com/pr/1?a=1,b=2',
+    title: 'Importer, v2',
+    tags: ['shipping', 'importer'],
+    project: 'data-platform',
+    category: 'shipped',
+  },
+  {
+    id: 'entry-2',
+    text: 'Mentored a new hire',
+    timestamp: Date.UTC(2025, 2, 15, 17, 0),
+  },
+];
+
+describe('parseEntriesCSV', () => {
+  it('round-trips entries written by exportEntriesToCSV', () => {
+    const { entries: parsed, errors } = parseEntriesCSV(exportEntriesToCSV(entries));
+
+    expect(errors).toEqual([]);
+    expect(parsed).toEqual(entries);
+  });
+
+  it('reads spreadsheet exports with a BOM, CRLF and friendlier headers', () => {
+    const csv =
+      '\uFEFFDate,Accomplishment,Link,Tags,Type\r\n2025-03-14,"Fixed the ""retry"" bug",https://example.com,Bugs; On-Call,Fixed\r\n';
+
+    const { entries: parsed, errors } = parseEntriesCSV(csv);
+
+    expect(errors).toEqual([]);
+    expect(parsed).toHaveLength(1);
+    expect(parsed[0]).toMatchObject({
+      text: 'Fixed the "retry" bug',
+      timestamp: new Date('2025-03-14').getTime(),
+      url: 'https://example.com',
+      tags: ['bugs', 'on-call'],
+      category: 'fixed',
+    });
+  });
+
+  it('reports rows with missing text or a bad date', () => {
+    const csv = 'timestamp,text\nnot a date,Something\n2025-03-14,\n';
+
+    expect(parseEntriesCSV(csv).errors).toEqual([
+      { row: 2, message: 'Invalid date "not a date"' },
+      { row: 3, message: 'Empty text' },
+    ]);
+  });
+
+  it('drops categories the app does not have', () => {
+    const { entries: parsed } = parseEntriesCSV('date,text,category\n2025-03-14,Wrote docs,documentation\n');
+
+    expect(parsed[0].category).toBeUndefined();
+  });
+});
+
+describe('parseCSV', () => {
+  it('keeps line breaks and commas inside quoted fields and drops blank lines', () => {
+    expect(parseCSV('a,b\n"one\ntwo","x,y"\n\n')).toEqual([
+      ['a', 'b'],
+      ['one\ntwo', 'x,y'],
+    ]);
+  });
+});
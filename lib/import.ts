@@ -0,0 +1,360 @@
+import {
+  db,
+  generateId,
+  normalizeTag,
+  extractTags,
+  getEntries,
+  ENTRY_CATEGORIES,
+  type EntryCategory,
+  type MemoryEntry,
+} from './db';
+
+// Result of parsing an import file, shown to the user before anything is saved
+export interface ImportPreview {
+  entries: MemoryEntry[]; // New entries that will be added
+  duplicates: MemoryEntry[]; // Entries already in the database (skipped)
+  errors: Array<{ row: number; message: string }>;
+}
+
+// Parse CSV text into rows of fields (RFC 4180: quoted fields, escaped quotes, multi-line cells)
+export function parseCSV(text: string): string[][] {
+  // Strip UTF-8 BOM added by Excel and friends
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      // Treat CRLF as a single line break
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  // Last row (no trailing newline)
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ''));
+}
+
+// Accept ISO strings, plain dates, or epoch milliseconds
+function parseTimestamp(value: string): number | null {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  if (/^\d{10,13}$/.test(trimmed)) {
+    const n = parseInt(trimmed, 10);
+    return trimmed.length === 10 ? n * 1000 : n;
+  }
+
+  const time = new Date(trimmed).getTime();
+  return Number.isNaN(time) ? null : time;
+}
+
+// Header aliases so spreadsheets with friendlier column names still import
+const CSV_COLUMN_ALIASES: Record<string, keyof MemoryEntry> = {
+  id: 'id',
+  timestamp: 'timestamp',
+  date: 'timestamp',
+  time: 'timestamp',
+  text: 'text',
+  entry: 'text',
+  note: 'text',
+  accomplishment: 'text',
+  url: 'url',
+  link: 'url',
+  title: 'title',
+  tags: 'tags',
+  project: 'project',
+  category: 'category',
+  type: 'category',
+};
+
+// Unknown categories are dropped rather than failing the row
+function parseCategory(value: string | undefined): EntryCategory | undefined {
+  const category = value?.trim().toLowerCase();
+  return ENTRY_CATEGORIES.find((c) => c === category);
+}
+
+// Parse a CSV of entries (as written by exportEntriesToCSV, or a spreadsheet with similar columns)
+export function parseEntriesCSV(text: string): Omit<ImportPreview, 'duplicates'> {
+  const rows = parseCSV(text);
+  const errors: ImportPreview['errors'] = [];
+
+  if (rows.length === 0) {
+    return { entries: [], errors: [{ row: 0, message: 'File is empty' }] };
+  }
+
+  const columns = rows[0].map((header) => CSV_COLUMN_ALIASES[header.trim().toLowerCase()]);
+  if (!columns.includes('text')) {
+    return { entries: [], errors: [{ row: 1, message: 'Missing a "text" column' }] };
+  }
+  if (!columns.includes('timestamp')) {
+    return { entries: [], errors: [{ row: 1, message: 'Missing a "timestamp" or "date" column' }] };
+  }
+
+  const entries: MemoryEntry[] = [];
+
+  rows.slice(1).forEach((cells, index) => {
+    const rowNumber = index + 2; // 1-based, after header
+    const values: Partial<Record<keyof MemoryEntry, string>> = {};
+    columns.forEach((column, i) => {
+      if (column && cells[i] !== undefined) values[column] = cells[i];
+    });
+
+    const entryText = values.text?.trim();
+    if (!entryText) {
+      errors.push({ row: rowNumber, message: 'Empty text' });
+      return;
+    }
+
+    const timestamp = parseTimestamp(values.timestamp ?? '');
+    if (timestamp === null) {
+      errors.push({ row: rowNumber, message: `Invalid date "${values.timestamp ?? ''}"` });
+      return;
+    }
+
+    const tags = (values.tags ?? '')
+      .split(/[;,]/)
+      .map(normalizeTag)
+      .filter(Boolean);
+
+    entries.push({
+      id: values.id?.trim() || generateId(),
+      text: entryText,
+      timestamp,
+      url: values.url?.trim() || undefined,
+      title: values.title?.trim() || undefined,
+      tags: tags.length > 0 ? tags : undefined,
+      project: values.project?.trim() || undefined,
+      category: parseCategory(values.category),
+    });
+  });
+
+  return { entries, errors };
+}
+
+// Journal import (Obsidian daily notes, Logseq journals, single-file brag docs)
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_PATTERN = '(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\\.?';
+
+function makeDate(year: number, month: number, day: number): Date | null {
+  const date = new Date(year, month, day);
+  // Reject rollovers like Feb 31
+  return date.getMonth() === month && date.getDate() === day ? date : null;
+}
+
+// Find a calendar date in text: 2025-03-14, 2025_03_14, 2025/03/14, March 14th, 2025, 14 Mar 2025
+export function parseDateText(text: string): Date | null {
+  const iso = text.match(/(\d{4})[-_/.](\d{1,2})[-_/.](\d{1,2})/);
+  if (iso) {
+    return makeDate(parseInt(iso[1], 10), parseInt(iso[2], 10) - 1, parseInt(iso[3], 10));
+  }
+
+  const monthFirst = text.match(new RegExp(`${MONTH_PATTERN}\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})`, 'i'));
+  if (monthFirst) {
+    const month = MONTHS.indexOf(monthFirst[1].toLowerCase());
+    return makeDate(parseInt(monthFirst[3], 10), month, parseInt(monthFirst[2], 10));
+  }
+
+  const dayFirst = text.match(new RegExp(`(\\d{1,2})(?:st|nd|rd|th)?\\s+${MONTH_PATTERN},?\\s+(\\d{4})`, 'i'));
+  if (dayFirst) {
+    const month = MONTHS.indexOf(dayFirst[2].toLowerCase());
+    return makeDate(parseInt(dayFirst[3], 10), month, parseInt(dayFirst[1], 10));
+  }
+
+  return null;
+}
+
+// Turn Obsidian/Logseq markup into plain text, keeping hashtags
+function cleanJournalText(text: string): string {
+  return text
+    .replace(/#\[\[([^\]]+)\]\]/g, (_, tag: string) => `#${tag.replace(/\s+/g, '-')}`) // #[[multi word tag]]
+    .replace(/\[\[([^\]|]+)\|([^\]]+)\]\]/g, '$2') // [[Page|alias]]
+    .replace(/\[\[([^\]]+)\]\]/g, '$1') // [[Page]]
+    .replace(/^(TODO|DONE|LATER|NOW|DOING)\s+/, '') // Logseq task markers
+    .replace(/^\[[ xX]\]\s+/, '') // Markdown checkboxes
+    .trim();
+}
+
+const BULLET_RE = /^(\s*)(?:[-*+]|\d+[.)])\s+(.*)$/;
+const HEADING_RE = /^#{1,6}\s+(.*)$/;
+const PROPERTY_RE = /^\s*[\w-]+::\s/; // Logseq block properties
+const TIME_RE = /^(?:\*\*)?(\d{1,2}):(\d{2})(?:\*\*)?\s*[-–—:]?\s+/;
+const LEADING_DATE_RE = /^(?:\*\*)?(\d{4}[-_/.]\d{1,2}[-_/.]\d{1,2})(?:\*\*)?\s*[-–—:]?\s+/;
+
+// Parse a Markdown or plain-text journal into entries.
+// Dates come from the file name (daily notes), date headings, or a date at the start of a bullet.
+export function parseJournal(text: string, fileName?: string): Omit<ImportPreview, 'duplicates'> {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const errors: ImportPreview['errors'] = [];
+  const drafts: Array<{ date: Date; time?: [number, number]; lines: string[] }> = [];
+
+  let currentDate: Date | null = fileName ? parseDateText(fileName) : null;
+  let current: (typeof drafts)[number] | null = null;
+  let inFrontmatter = lines[0]?.trim() === '---';
+  let missingDateReported = false;
+
+  lines.forEach((rawLine, index) => {
+    if (inFrontmatter) {
+      if (index > 0 && rawLine.trim() === '---') inFrontmatter = false;
+      return;
+    }
+
+    if (!rawLine.trim() || PROPERTY_RE.test(rawLine)) return;
+
+    const heading = rawLine.match(HEADING_RE);
+    if (heading) {
+      // Date headings start a new day; other headings are just section titles
+      const date = parseDateText(heading[1]);
+      if (date) currentDate = date;
+      current = null;
+      return;
+    }
+
+    const bullet = rawLine.match(BULLET_RE);
+    const indented = /^\s+/.test(rawLine);
+    let content = bullet ? bullet[2] : rawLine.trim();
+
+    // Nested bullets and indented continuation lines belong to the entry above
+    if (indented && current) {
+      const cleaned = cleanJournalText(content);
+      if (cleaned) current.lines.push(cleaned);
+      return;
+    }
+
+    let date = currentDate;
+    const leadingDate = content.match(LEADING_DATE_RE);
+    if (leadingDate) {
+      date = parseDateText(leadingDate[1]);
+      content = content.slice(leadingDate[0].length);
+    }
+
+    let time: [number, number] | undefined;
+    const leadingTime = content.match(TIME_RE);
+    if (leadingTime) {
+      time = [parseInt(leadingTime[1], 10), parseInt(leadingTime[2], 10)];
+      content = content.slice(leadingTime[0].length);
+    }
+
+    const cleaned = cleanJournalText(content);
+    if (!cleaned) return;
+
+    if (!date) {
+      if (!missingDateReported) {
+        errors.push({ row: index + 1, message: 'Lines before the first date heading were skipped' });
+        missingDateReported = true;
+      }
+      current = null;
+      return;
+    }
+
+    current = { date, time, lines: [cleaned] };
+    drafts.push(current);
+  });
+
+  // Spread untimed entries across the morning so same-day order is preserved
+  const perDay = new Map<number, number>();
+  const entries = drafts.map((draft): MemoryEntry => {
+    const dayKey = draft.date.getTime();
+    const position = perDay.get(dayKey) ?? 0;
+    perDay.set(dayKey, position + 1);
+
+    const timestamp = new Date(draft.date);
+    if (draft.time) {
+      timestamp.setHours(draft.time[0], draft.time[1], 0, 0);
+    } else {
+      timestamp.setHours(9, position, 0, 0);
+    }
+
+    const entryText = draft.lines.join('\n');
+    const tags = extractTags(entryText);
+    return {
+      id: generateId(),
+      text: entryText,
+      timestamp: timestamp.getTime(),
+      tags: tags.length > 0 ? tags : undefined,
+    };
+  });
+
+  return { entries, errors };
+}
+
+// Normalize text for duplicate detection: case, punctuation and whitespace don't count
+function normalizeForDedupe(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function dedupeKey(entry: MemoryEntry): string {
+  const date = new Date(entry.timestamp);
+  return `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}|${normalizeForDedupe(entry.text)}`;
+}
+
+// Split parsed entries into new ones and ones already in the database.
+// Duplicates match by id, or by the same normalized text on the same day.
+export async function buildImportPreview(parsed: Omit<ImportPreview, 'duplicates'>): Promise<ImportPreview> {
+  const existing = await db.entries.bulkGet(parsed.entries.map((e) => e.id));
+  const seenKeys = new Set((await getEntries()).map(dedupeKey));
+  const seenIds = new Set<string>();
+  const entries: MemoryEntry[] = [];
+  const duplicates: MemoryEntry[] = [];
+
+  parsed.entries.forEach((entry, i) => {
+    const key = dedupeKey(entry);
+    if (existing[i] || seenIds.has(entry.id) || seenKeys.has(key)) {
+      duplicates.push(entry);
+    } else {
+      seenIds.add(entry.id);
+      seenKeys.add(key);
+      entries.push(entry);
+    }
+  });
+
+  return { entries, duplicates, errors: parsed.errors };
+}
+
+// Combine results from several files into one preview input
+export function mergeParsedImports(results: Array<Omit<ImportPreview, 'duplicates'>>): Omit<ImportPreview, 'duplicates'> {
+  return {
+    entries: results.flatMap((r) => r.entries),
+    errors: results.flatMap((r) => r.errors),
+  };
+}
@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { db } from './db';
+import { clearDatabase } from './seed';
+import { getDigestId, getDigestPeriod, MAX_CATCH_UP_PERIODS, saveDigestSettings } from './digest-settings';
+import { saveAIConfig } from './ai';
+import { deleteDigest, generateDigest } from './digests';
+import { queueDueDigests } from './jobs';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Noon, so adding whole days never crosses midnight on a daylight saving change
+const enabledAt = new Date(2026, 2, 2, 12).getTime();
+
+async function queuedPeriods(): Promise<number[]> {
+  const jobs = await db.jobs.where('type').equals('generate-digest').toArray();
+  return jobs.map((job) => job.payload.periodStart as number).sort((a, b) => a - b);
+}
+
+function dayStart(time: number): number {
+  return getDigestPeriod('daily', time).start;
+}
+
+describe('queueDueDigests', () => {
+  beforeEach(async () => {
+    await clearDatabase();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(enabledAt);
+    await saveDigestSettings({ enabled: true, frequency: 'daily' });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('catches up every day missed since digests were turned on', async () => {
+    vi.setSystemTime(enabledAt + 3 * DAY);
+
+    expect(await queueDueDigests()).toBe(true);
+    expect(await queuedPeriods()).toEqual([0, 1, 2].map((days) => dayStart(enabledAt + days * DAY)));
+  });
+
+  it('catches up at most MAX_CATCH_UP_PERIODS', async () => {
+    vi.setSystemTime(enabledAt + 40 * DAY);
+
+    await queueDueDigests();
+
+    const periods = await queuedPeriods();
+    expect(periods).toHaveLength(MAX_CATCH_UP_PERIODS);
+    expect(periods.at(-1)).toBe(dayStart(enabledAt + 39 * DAY));
+  });
+
+  it('does not queue a deleted digest again', async () => {
+    const periodStart = dayStart(enabledAt);
+    const id = getDigestId('daily', periodStart);
+    await db.digests.add({
+      id,
+      frequency: 'daily',
+      periodStart,
+      periodEnd: dayStart(enabledAt + DAY),
+      summary: '- Shipped the importer',
+      entryCount: 1,
+      prCount: 0,
+      citations: {},
+      createdAt: enabledAt + DAY,
+    });
+    await deleteDigest(id);
+    vi.setSystemTime(enabledAt + 2 * DAY);
+
+    await queueDueDigests();
+
+    expect(await queuedPeriods()).toEqual([dayStart(enabledAt + DAY)]);
+  });
+
+  it('does not queue a period again once it ended with nothing to digest', async () => {
+    await saveAIConfig({ provider: 'openai', apiKey: 'sk-test' });
+    vi.setSystemTime(enabledAt + DAY);
+    const start = dayStart(enabledAt);
+
+    expect(await generateDigest('daily', start, dayStart(enabledAt + DAY))).toBeNull();
+
+    expect(await queueDueDigests()).toBe(false);
+  });
+
+  it('queues a period again when there was no provider to write it', async () => {
+    vi.setSystemTime(enabledAt + DAY);
+    const start = dayStart(enabledAt);
+
+    expect(await generateDigest('daily', start, dayStart(enabledAt + DAY))).toBeNull();
+
+    expect(await queuedPeriods()).toEqual([]);
+    expect(await queueDueDigests()).toBe(true);
+    expect(await queuedPeriods()).toEqual([start]);
+  });
+});
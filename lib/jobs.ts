@@ -0,0 +1,253 @@
+import { db, getEntriesWithoutEmbeddings, getGitHubPRsWithoutEmbeddings, type Job } from './db';
+import { getEmbeddingModel } from './embedding-models';
+import { getEnrichmentSettings } from './enrichment-settings';
+import { getCompletedPeriods, getDigestId, getDigestSettings, getSkippedDigestIds } from './digest-settings';
+
+// Persistent job queue. Jobs live in IndexedDB so work queued while the
+// side panel is closed (or the service worker is asleep) isn't lost.
+// The offscreen document registers handlers and drains the queue.
+
+export type JobType = 'embed-entry' | 'embed-pr' | 'build-vector-index' | 'enrich-entries' | 'generate-digest';
+
+type JobHandler = (payload: Record<string, unknown>) => Promise<void>;
+
+// Retry config - exponential backoff: 2s, 4s, 8s, ... capped at 10 minutes
+const MAX_ATTEMPTS = 5;
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 10 * 60 * 1000;
+
+const handlers = new Map<string, JobHandler>();
+let isRunning = false;
+let wakeTimer: ReturnType<typeof setTimeout> | null = null;
+
+export interface JobProgress {
+  pending: number;
+  running: number;
+  failed: number;
+}
+
+// Register the function that performs a job type (called by the job runner context)
+export function registerJobHandler(type: JobType, handler: JobHandler): void {
+  handlers.set(type, handler);
+}
+
+// Queue a job. Re-queuing the same type + key replaces the existing job.
+export async function enqueueJob(type: JobType, key: string, payload: Record<string, unknown>): Promise<void> {
+  const now = Date.now();
+  await db.jobs.put({
+    id: `${type}:${key}`,
+    type,
+    payload,
+    status: 'pending',
+    attempts: 0,
+    runAt: now,
+    createdAt: now,
+  });
+}
+
+// Queue embedding jobs for specific entries
+export async function enqueueEmbeddingJobs(entryIds: string[]): Promise<void> {
+  const now = Date.now();
+  await db.jobs.bulkPut(
+    entryIds.map((entryId) => ({
+      id: `embed-entry:${entryId}`,
+      type: 'embed-entry',
+      payload: { entryId },
+      status: 'pending' as const,
+      attempts: 0,
+      runAt: now,
+      createdAt: now,
+    }))
+  );
+}
+
+// Queue embedding jobs for GitHub PRs
+export async function enqueuePREmbeddingJobs(prIds: string[]): Promise<void> {
+  const now = Date.now();
+  await db.jobs.bulkPut(
+    prIds.map((prId) => ({
+      id: `embed-pr:${prId}`,
+      type: 'embed-pr',
+      payload: { prId },
+      status: 'pending' as const,
+      attempts: 0,
+      runAt: now,
+      createdAt: now,
+    }))
+  );
+}
+
+// Queue every entry that is still missing an embedding from the current model.
+// Also used to re-index after switching models - already converted entries are skipped.
+export async function queueUnembeddedEntries(): Promise<number> {
+  const model = await getEmbeddingModel();
+  const entries = await getEntriesWithoutEmbeddings(model.id);
+  if (entries.length > 0) {
+    await enqueueEmbeddingJobs(entries.map((e) => e.id));
+    console.log(`WorthKeeping: Queued ${entries.length} entries for embedding`);
+  }
+  return entries.length;
+}
+
+// Queue every synced PR that is still missing an embedding from the current model
+export async function queueUnembeddedPRs(): Promise<number> {
+  const model = await getEmbeddingModel();
+  const prs = await getGitHubPRsWithoutEmbeddings(model.id);
+  if (prs.length > 0) {
+    await enqueuePREmbeddingJobs(prs.map((pr) => pr.id));
+    console.log(`WorthKeeping: Queued ${prs.length} PRs for embedding`);
+  }
+  return prs.length;
+}
+
+// Queue a pass of AI enrichment if it's turned on. One job covers every
+// waiting entry - it works through them a batch at a time.
+export async function queueEnrichment(): Promise<boolean> {
+  if (!(await getEnrichmentSettings()).enabled) return false;
+  await enqueueJob('enrich-entries', 'pending', {});
+  return true;
+}
+
+// Queue a digest for each day or week that ended since digests were turned on
+// and hasn't been written, skipped or queued yet. Safe to call on every alarm
+// and startup - missed alarms are caught up here (see MAX_CATCH_UP_PERIODS).
+export async function queueDueDigests(): Promise<boolean> {
+  const settings = await getDigestSettings();
+  if (!settings.enabled) return false;
+
+  const skipped = await getSkippedDigestIds();
+  let queued = false;
+
+  for (const period of getCompletedPeriods(settings.frequency, settings.since)) {
+    const id = getDigestId(settings.frequency, period.start);
+    if (skipped.has(id) || (await db.digests.get(id))) continue;
+
+    // A failed job is queued again; a pending one keeps its place and attempts
+    const job = await db.jobs.get(`generate-digest:${id}`);
+    if (job && job.status !== 'failed') continue;
+
+    await enqueueJob('generate-digest', id, {
+      frequency: settings.frequency,
+      periodStart: period.start,
+      periodEnd: period.end,
+    });
+    queued = true;
+  }
+  return queued;
+}
+
+// Ask the background to make sure the job runner is up and draining the queue
+export async function requestJobProcessing(): Promise<void> {
+  try {
+    await browser.runtime.sendMessage({ type: 'PROCESS_JOBS' });
+  } catch (err) {
+    console.error('WorthKeeping: Failed to request job processing', err);
+  }
+}
+
+// Jobs that call the AI provider rather than index anything
+const AI_JOB_TYPES = new Set<string>(['enrich-entries', 'generate-digest']);
+
+// Queue counts for progress display. AI jobs are left out - enrichment has
+// its own count in Settings and digests announce themselves.
+export async function getJobProgress(): Promise<JobProgress> {
+  const count = (status: Job['status']) =>
+    db.jobs
+      .where('status')
+      .equals(status)
+      .filter((job) => !AI_JOB_TYPES.has(job.type))
+      .count();
+  const [pending, running, failed] = await Promise.all([count('pending'), count('running'), count('failed')]);
+  return { pending, running, failed };
+}
+
+// Give failed jobs another round of attempts
+export async function retryFailedJobs(): Promise<number> {
+  return db.jobs
+    .where('status')
+    .equals('failed')
+    .modify({ status: 'pending', attempts: 0, runAt: Date.now(), lastError: undefined });
+}
+
+function getRetryDelay(attempts: number): number {
+  const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+  // Jitter so a burst of failures doesn't retry in lockstep
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+// Atomically pick the next due job and mark it running
+async function claimNextJob(): Promise<Job | null> {
+  return db.transaction('rw', db.jobs, async () => {
+    const job = await db.jobs
+      .where('runAt')
+      .belowOrEqual(Date.now())
+      .filter((j) => j.status === 'pending' && handlers.has(j.type))
+      .first();
+
+    if (!job) return null;
+
+    await db.jobs.update(job.id, { status: 'running' });
+    return job;
+  });
+}
+
+async function runJob(job: Job): Promise<void> {
+  try {
+    await handlers.get(job.type)!(job.payload);
+    // Only remove if it wasn't re-queued while running (e.g. the entry was edited again)
+    await db.jobs.where('id').equals(job.id).and((j) => j.status === 'running').delete();
+  } catch (err) {
+    const attempts = job.attempts + 1;
+    const lastError = err instanceof Error ? err.message : String(err);
+    console.error(`WorthKeeping: Job ${job.id} failed (attempt ${attempts})`, err);
+
+    await db.jobs
+      .where('id')
+      .equals(job.id)
+      .and((j) => j.status === 'running')
+      .modify(
+        attempts >= MAX_ATTEMPTS
+          ? { status: 'failed', attempts, lastError }
+          : { status: 'pending', attempts, lastError, runAt: Date.now() + getRetryDelay(attempts) }
+      );
+  }
+}
+
+// Wake up again when the next delayed retry is due
+async function scheduleWake(): Promise<void> {
+  const next = await db.jobs
+    .where('status')
+    .equals('pending')
+    .filter((j) => handlers.has(j.type))
+    .sortBy('runAt');
+
+  if (wakeTimer) clearTimeout(wakeTimer);
+  wakeTimer = null;
+
+  if (next.length > 0) {
+    const delay = Math.max(0, next[0].runAt - Date.now());
+    wakeTimer = setTimeout(() => runJobs(), delay);
+  }
+}
+
+// Drain all due jobs. Safe to call repeatedly - only one loop runs at a time.
+export async function runJobs(): Promise<void> {
+  if (isRunning) return;
+  isRunning = true;
+
+  try {
+    // Jobs left 'running' by a runner that was torn down mid-job
+    await db.jobs.where('status').equals('running').modify({ status: 'pending' });
+
+    let job: Job | null;
+    while ((job = await claimNextJob())) {
+      await runJob(job);
+      // Small delay to keep the runner from hogging the CPU
+      await new Promise((r) => setTimeout(r, 50));
+    }
+  } finally {
+    isRunning = false;
+  }
+
+  await scheduleWake();
+}
@@ -0,0 +1,92 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { clearDatabase } from './seed';
+import { callAI, saveAIConfig, saveFallbackProviders, streamAI, type ProviderTag } from './ai';
+import { MAX_OUTPUT_TOKENS } from './usage';
+
+// A fake in-browser model that records what it was asked to generate
+const generateCalls = vi.hoisted(() => [] as Array<Record<string, unknown>>);
+
+vi.mock('@huggingface/transformers', () => {
+  class TextStreamer {
+    constructor(_tokenizer: unknown, readonly options: { callback_function: (text: string) => void }) {}
+  }
+  const tokenizer = { apply_chat_template: () => [1, 2, 3], encode: (text: string) => text.split(' ') };
+  const pipe = Object.assign(
+    async (_messages: unknown, options: Record<string, unknown> & { streamer: TextStreamer }) => {
+      generateCalls.push(options);
+      options.streamer.options.callback_function('OK');
+    },
+    { tokenizer, dispose: () => {} }
+  );
+  return {
+    env: { backends: { onnx: { wasm: {} } } },
+    pipeline: async () => pipe,
+    TextStreamer,
+  };
+});
+
+async function readAll(stream: AsyncIterable<string>): Promise<string> {
+  let text = '';
+  for await (const chunk of stream) text += chunk;
+  return text;
+}
+
+describe('output token cap for local models', () => {
+  beforeEach(async () => {
+    await clearDatabase();
+    generateCalls.length = 0;
+    vi.unstubAllGlobals();
+  });
+
+  it('sends it to Ollama as num_predict', async () => {
+    const requests: Array<{ options: { num_predict?: number; num_ctx: number } }> = [];
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (_url: string, init: RequestInit) => {
+        requests.push(JSON.parse(init.body as string));
+        return new Response(JSON.stringify({ message: { content: 'OK' }, done: true, done_reason: 'stop' }));
+      })
+    );
+    await saveAIConfig({ provider: 'ollama', apiKey: '', model: 'llama3.2', baseURL: 'http://localhost:11434' });
+
+    expect(await callAI('Summarize my week')).toBe('OK');
+    expect(requests[0].options.num_predict).toBe(MAX_OUTPUT_TOKENS);
+    expect(requests[0].options.num_ctx).toBeGreaterThanOrEqual(MAX_OUTPUT_TOKENS);
+  });
+
+  it('passes it to the in-browser model as max_new_tokens', async () => {
+    await saveAIConfig({ provider: 'browser', apiKey: '', model: 'onnx-community/Qwen2.5-0.5B-Instruct' });
+
+    expect(await callAI('Summarize my week')).toBe('OK');
+    expect(await readAll(streamAI('Summarize my week'))).toBe('OK');
+    expect(generateCalls.map((call) => call.max_new_tokens)).toEqual([MAX_OUTPUT_TOKENS, MAX_OUTPUT_TOKENS]);
+  });
+});
+
+describe('fallbacks for a local main provider', () => {
+  beforeEach(async () => {
+    await clearDatabase();
+    vi.unstubAllGlobals();
+  });
+
+  it('skips cloud providers and answers with a local one', async () => {
+    const urls: string[] = [];
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (url: string) => {
+        urls.push(url);
+        return new Response(JSON.stringify({ error: 'model "llama3.2" not found' }), { status: 404 });
+      })
+    );
+    await saveAIConfig({ provider: 'ollama', apiKey: '', model: 'llama3.2', baseURL: 'http://localhost:11434' });
+    await saveFallbackProviders([
+      { provider: 'openai', apiKey: 'sk-test', model: 'gpt-4o-mini' },
+      { provider: 'browser', apiKey: '', model: 'onnx-community/Qwen2.5-0.5B-Instruct' },
+    ]);
+
+    let tag: ProviderTag | undefined;
+    expect(await callAI('Summarize my week', { onProvider: (t) => (tag = t) })).toBe('OK');
+    expect(tag).toMatchObject({ provider: 'browser', fallback: true });
+    expect(urls.every((url) => url.startsWith('http://localhost:11434/'))).toBe(true);
+  });
+});
@@ -0,0 +1,419 @@
+import { APICallError, type LanguageModel } from 'ai';
+import { pipeline, env, TextStreamer, type TextGenerationPipeline } from '@huggingface/transformers';
+
+// Local models that need no API key: Ollama through its native API, and
+// small instruction-tuned models run in the browser with Transformers.js.
+// Both are wrapped as AI SDK language models, so retries, failover, usage
+// logging and structured output work the same as for hosted providers.
+
+export const DEFAULT_OLLAMA_URL = 'http://localhost:11434';
+
+// Matches the default context window in lib/context.ts, which sizes review prompts
+const OLLAMA_MAX_CONTEXT_TOKENS = 32768;
+const OLLAMA_DEFAULT_OUTPUT_TOKENS = 2000;
+
+// The AI SDK's model interface, taken from `ai` rather than @ai-sdk/provider
+type LocalLanguageModel = Extract<LanguageModel, { specificationVersion: 'v3' }>;
+type CallOptions = Parameters<LocalLanguageModel['doGenerate']>[0];
+type GenerateResult = Awaited<ReturnType<LocalLanguageModel['doGenerate']>>;
+type StreamResult = Awaited<ReturnType<LocalLanguageModel['doStream']>>;
+type StreamPart = StreamResult['stream'] extends ReadableStream<infer P> ? P : never;
+
+interface LocalMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface BrowserModel {
+  id: string; // HuggingFace model id (ONNX weights)
+  name: string;
+  size: string; // Approximate download size
+  description: string;
+}
+
+export const BROWSER_MODELS: BrowserModel[] = [
+  {
+    id: 'onnx-community/Qwen2.5-0.5B-Instruct',
+    name: 'Qwen2.5 0.5B Instruct',
+    size: '470 MB',
+    description: 'Good default - short summaries and follow-ups',
+  },
+  {
+    id: 'HuggingFaceTB/SmolLM2-360M-Instruct',
+    name: 'SmolLM2 360M Instruct',
+    size: '260 MB',
+    description: 'Smallest and fastest, English only',
+  },
+  {
+    id: 'onnx-community/Llama-3.2-1B-Instruct',
+    name: 'Llama 3.2 1B Instruct',
+    size: '1.1 GB',
+    description: 'Best quality, needs a fast machine',
+  },
+];
+
+export interface OllamaModel {
+  name: string;
+  size: number; // Bytes on disk
+}
+
+function toUsage(inputTokens?: number, outputTokens?: number): GenerateResult['usage'] {
+  return {
+    inputTokens: { total: inputTokens, noCache: inputTokens, cacheRead: undefined, cacheWrite: undefined },
+    outputTokens: { total: outputTokens, text: outputTokens, reasoning: undefined },
+  };
+}
+
+function toFinishReason(reason: string | undefined): GenerateResult['finishReason'] {
+  return { unified: reason === 'length' ? 'length' : 'stop', raw: reason };
+}
+
+// Flatten the SDK prompt to plain text messages - local models here take no files or tools
+function toLocalMessages(options: CallOptions): LocalMessage[] {
+  const messages: LocalMessage[] = options.prompt.flatMap((message): LocalMessage[] => {
+    if (message.role === 'system') return [{ role: 'system', content: message.content }];
+    if (message.role === 'tool') return [];
+    const content = message.content
+      .map((part) => (part.type === 'text' ? part.text : ''))
+      .join('');
+    return [{ role: message.role, content }];
+  });
+
+  // Small models have no JSON mode - ask for it in the prompt instead
+  const format = options.responseFormat;
+  if (format?.type === 'json') {
+    messages.unshift({
+      role: 'system',
+      content: `Reply with a single JSON value and nothing else.${format.schema ? ` It must match this JSON schema: ${JSON.stringify(format.schema)}` : ''}`,
+    });
+  }
+
+  return messages;
+}
+
+// Stream a generate function as AI SDK stream parts
+function createTextStream(
+  run: (onText: (text: string) => void) => Promise<{ usage: GenerateResult['usage']; reason?: string }>
+): ReadableStream<StreamPart> {
+  return new ReadableStream<StreamPart>({
+    async start(controller) {
+      controller.enqueue({ type: 'stream-start', warnings: [] });
+      controller.enqueue({ type: 'text-start', id: 'text' });
+      try {
+        const { usage, reason } = await run((delta) => controller.enqueue({ type: 'text-delta', id: 'text', delta }));
+        controller.enqueue({ type: 'text-end', id: 'text' });
+        controller.enqueue({ type: 'finish', usage, finishReason: toFinishReason(reason) });
+      } catch (error) {
+        controller.enqueue({ type: 'error', error });
+      }
+      controller.close();
+    },
+  });
+}
+
+// --- Ollama ---
+
+interface OllamaChatChunk {
+  message?: { content: string };
+  done: boolean;
+  done_reason?: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
+  error?: string;
+}
+
+function normalizeOllamaURL(baseURL?: string): string {
+  return (baseURL?.trim() || DEFAULT_OLLAMA_URL).replace(/\/+$/, '').replace(/\/api$/, '');
+}
+
+// Hosts listed in optional_host_permissions (wxt.config.ts). The extension
+// can't ask for access to any other site.
+const OLLAMA_HOSTS = ['localhost', '127.0.0.1'];
+
+// Origin permission pattern for an Ollama host, e.g. "http://localhost/*"
+export function getOllamaOriginPattern(baseURL?: string): string {
+  const url = new URL(normalizeOllamaURL(baseURL));
+  if (url.protocol !== 'http:' || !OLLAMA_HOSTS.includes(url.hostname)) {
+    throw new Error('Ollama has to run on this computer - use http://localhost or http://127.0.0.1');
+  }
+  return `${url.protocol}//${url.hostname}/*`;
+}
+
+// Network failures stay TypeErrors so they're retried like any other provider's
+async function fetchOllama(baseURL: string | undefined, path: string, init?: RequestInit): Promise<Response> {
+  const url = `${normalizeOllamaURL(baseURL)}${path}`;
+
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch (err) {
+    if (err instanceof DOMException && err.name === 'AbortError') throw err;
+    throw new TypeError(`Could not reach Ollama at ${normalizeOllamaURL(baseURL)} - is it running?`);
+  }
+
+  if (response.ok) return response;
+
+  const body = await response.text();
+  let message = body;
+  try {
+    message = JSON.parse(body).error ?? body;
+  } catch {
+    // Not JSON - use the text as is
+  }
+
+  // Ollama rejects browser origins it doesn't know. Not an API key problem, so not reported as one.
+  if (response.status === 403) {
+    throw new Error(
+      'Ollama refused the request from the extension. Set OLLAMA_ORIGINS=chrome-extension://* and restart Ollama.'
+    );
+  }
+
+  throw new APICallError({
+    message: `Ollama: ${message || response.statusText}`,
+    url,
+    requestBodyValues: init?.body ? JSON.parse(String(init.body)) : {},
+    statusCode: response.status,
+    responseHeaders: Object.fromEntries(response.headers.entries()),
+    responseBody: body,
+    isRetryable: response.status === 429 || response.status >= 500,
+  });
+}
+
+// Installed models, largest first
+export async function listOllamaModels(baseURL?: string): Promise<OllamaModel[]> {
+  const response = await fetchOllama(baseURL, '/api/tags');
+  const { models } = (await response.json()) as { models?: OllamaModel[] };
+  return (models ?? []).map(({ name, size }) => ({ name, size })).sort((a, b) => b.size - a.size);
+}
+
+// Ollama cuts prompts to its default context size (2-4k tokens) without saying
+// so. Ask for enough room for the prompt and the answer, in steps of 4k.
+function getOllamaContextSize(messages: LocalMessage[], maxOutputTokens = OLLAMA_DEFAULT_OUTPUT_TOKENS): number {
+  const promptTokens = Math.ceil(messages.reduce((sum, m) => sum + m.content.length, 0) / 3);
+  const needed = Math.ceil((promptTokens + maxOutputTokens) / 4096) * 4096;
+  return Math.min(OLLAMA_MAX_CONTEXT_TOKENS, needed);
+}
+
+function buildOllamaRequest(modelId: string, options: CallOptions, stream: boolean) {
+  const format = options.responseFormat?.type === 'json' ? (options.responseFormat.schema ?? 'json') : undefined;
+  const messages = toLocalMessages({ ...options, responseFormat: undefined });
+  return {
+    model: modelId,
+    messages,
+    stream,
+    format,
+    options: {
+      num_ctx: getOllamaContextSize(messages, options.maxOutputTokens),
+      temperature: options.temperature,
+      num_predict: options.maxOutputTokens,
+      top_p: options.topP,
+      top_k: options.topK,
+      stop: options.stopSequences,
+    },
+  };
+}
+
+async function* readNDJSON<T>(body: ReadableStream<Uint8Array>): AsyncGenerator<T> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      if (line.trim()) yield JSON.parse(line) as T;
+    }
+  }
+
+  if (buffer.trim()) yield JSON.parse(buffer) as T;
+}
+
+export function createOllamaModel(modelId: string, baseURL?: string): LocalLanguageModel {
+  const post = (options: CallOptions, stream: boolean) =>
+    fetchOllama(baseURL, '/api/chat', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(buildOllamaRequest(modelId, options, stream)),
+      signal: options.abortSignal,
+    });
+
+  return {
+    specificationVersion: 'v3',
+    provider: 'ollama',
+    modelId,
+    supportedUrls: {},
+
+    async doGenerate(options) {
+      const response = await post(options, false);
+      const result = (await response.json()) as OllamaChatChunk;
+      return {
+        content: [{ type: 'text', text: result.message?.content ?? '' }],
+        finishReason: toFinishReason(result.done_reason),
+        usage: toUsage(result.prompt_eval_count, result.eval_count),
+        warnings: [],
+      };
+    },
+
+    async doStream(options) {
+      const response = await post(options, true);
+      if (!response.body) throw new Error('Ollama returned an empty response');
+      const body = response.body;
+
+      return {
+        stream: createTextStream(async (onText) => {
+          for await (const chunk of readNDJSON<OllamaChatChunk>(body)) {
+            if (chunk.error) throw new Error(`Ollama: ${chunk.error}`);
+            if (chunk.message?.content) onText(chunk.message.content);
+            if (chunk.done) {
+              return { usage: toUsage(chunk.prompt_eval_count, chunk.eval_count), reason: chunk.done_reason };
+            }
+          }
+          return { usage: toUsage() };
+        }),
+      };
+    },
+  };
+}
+
+// --- In-browser generation ---
+
+// Same WASM files as the embedding model
+if (env.backends.onnx.wasm) {
+  env.backends.onnx.wasm.wasmPaths =
+    typeof chrome !== 'undefined' && chrome.runtime?.getURL ? chrome.runtime.getURL('wasm/') : '/wasm/';
+}
+env.allowLocalModels = false;
+env.useBrowserCache = true;
+
+// One generator at a time - these models take hundreds of MB of memory
+let generator: TextGenerationPipeline | null = null;
+let generatorModelId: string | null = null;
+let generatorPromise: Promise<TextGenerationPipeline> | null = null;
+let loadingGeneratorId: string | null = null;
+
+export function findBrowserModel(id: string): BrowserModel | undefined {
+  return BROWSER_MODELS.find((m) => m.id === id);
+}
+
+// Load (downloading on first use) a browser model. onProgress gets 0-100.
+export async function loadBrowserModel(
+  modelId: string,
+  onProgress?: (percent: number) => void
+): Promise<TextGenerationPipeline> {
+  if (!findBrowserModel(modelId)) {
+    throw new Error(`Unknown in-browser model: ${modelId}`);
+  }
+  if (generator && generatorModelId === modelId) return generator;
+  if (generatorPromise && loadingGeneratorId === modelId) return generatorPromise;
+
+  if (generator) {
+    generator.dispose();
+    generator = null;
+    generatorModelId = null;
+  }
+
+  loadingGeneratorId = modelId;
+  console.log('WorthKeeping: Loading in-browser model', modelId);
+
+  // Track progress across all of the model's files
+  const files = new Map<string, { loaded: number; total: number }>();
+  const webgpu = typeof navigator !== 'undefined' && 'gpu' in navigator;
+
+  generatorPromise = pipeline('text-generation', modelId, {
+    dtype: 'q4f16',
+    device: webgpu ? 'webgpu' : 'wasm',
+    progress_callback: (info) => {
+      if (info.status !== 'progress' || !onProgress) return;
+      files.set(info.file, { loaded: info.loaded, total: info.total });
+      const totals = [...files.values()].reduce((sum, f) => ({ loaded: sum.loaded + f.loaded, total: sum.total + f.total }));
+      onProgress(totals.total > 0 ? Math.round((totals.loaded / totals.total) * 100) : 0);
+    },
+  })
+    .then((pipe) => {
+      generator = pipe as TextGenerationPipeline;
+      generatorModelId = modelId;
+      console.log('WorthKeeping: In-browser model loaded');
+      return generator;
+    })
+    .finally(() => {
+      if (loadingGeneratorId === modelId) {
+        generatorPromise = null;
+        loadingGeneratorId = null;
+      }
+    });
+
+  return generatorPromise;
+}
+
+async function generateInBrowser(
+  modelId: string,
+  options: CallOptions,
+  onText?: (text: string) => void
+): Promise<{ text: string; usage: GenerateResult['usage']; reason: string }> {
+  const pipe = await loadBrowserModel(modelId);
+  const messages = toLocalMessages(options);
+  const maxNewTokens = options.maxOutputTokens ?? 1024;
+  const temperature = options.temperature ?? 0.7;
+
+  let text = '';
+  const streamer = new TextStreamer(pipe.tokenizer, {
+    skip_prompt: true,
+    skip_special_tokens: true,
+    callback_function: (chunk: string) => {
+      text += chunk;
+      onText?.(chunk);
+    },
+  });
+
+  await pipe(messages, {
+    max_new_tokens: maxNewTokens,
+    temperature,
+    do_sample: temperature > 0,
+    streamer,
+  });
+
+  const inputIds = pipe.tokenizer.apply_chat_template(messages, {
+    add_generation_prompt: true,
+    tokenize: true,
+    return_tensor: false,
+  }) as number[];
+  const outputTokens = pipe.tokenizer.encode(text).length;
+
+  return {
+    text,
+    usage: toUsage(inputIds.length, outputTokens),
+    reason: outputTokens >= maxNewTokens ? 'length' : 'stop',
+  };
+}
+
+export function createBrowserModel(modelId: string): LocalLanguageModel {
+  return {
+    specificationVersion: 'v3',
+    provider: 'browser',
+    modelId,
+    supportedUrls: {},
+
+    async doGenerate(options) {
+      const { text, usage, reason } = await generateInBrowser(modelId, options);
+      return {
+        content: [{ type: 'text', text }],
+        finishReason: toFinishReason(reason),
+        usage,
+        warnings: [],
+      };
+    },
+
+    async doStream(options) {
+      return {
+        stream: createTextStream(async (onText) => {
+          const { usage, reason } = await generateInBrowser(modelId, options, onText);
+          return { usage, reason };
+        }),
+      };
+    },
+  };
+}
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { createRedactor, createStreamRestorer, DEFAULT_REDACTION_SETTINGS, type RedactionSettings } from './redact';
+
+function redactorWith(settings: Partial<RedactionSettings> = {}) {
+  return createRedactor({ ...DEFAULT_REDACTION_SETTINGS, ...settings });
+}
+
+function streamThrough(text: string, chunkSizes: number[], redactor = redactorWith()): string {
+  const restorer = createStreamRestorer(redactor);
+  let output = '';
+  let start = 0;
+  for (const size of chunkSizes) {
+    output += restorer.push(text.slice(start, start + size));
+    start += size;
+  }
+  output += restorer.push(text.slice(start));
+  return output + restorer.flush();
+}
+
+describe('createRedactor', () => {
+  it('replaces each distinct value with a numbered placeholder and restores it', () => {
+    const redactor = redactorWith();
+    const text = 'Mailed ana@example.com, then ana@example.com again and bo@example.com from 10.0.0.12';
+
+    const redacted = redactor.redact(text);
+
+    expect(redacted).toBe('Mailed [EMAIL_1], then [EMAIL_1] again and [EMAIL_2] from [IP_1]');
+    expect(redactor.restore(redacted)).toBe(text);
+  });
+
+  it('redacts only the query string of a URL', () => {
+    const redactor = redactorWith();
+
+    const redacted = redactor.redact('See https://dash.example.com/board?user=ana&team=core#top for details');
+
+    expect(redacted).toBe('See https://dash.example.com/board?[QUERY_1]#top for details');
+    expect(redactor.redactions()).toEqual([{ placeholder: '[QUERY_1]', original: 'user=ana&team=core' }]);
+  });
+
+  it('catches a secret inside a URL query before the query rule runs', () => {
+    const redactor = redactorWith();
+    const key = `sk-${'a'.repeat(32)}`;
+
+    const redacted = redactor.redact(`curl https://api.example.com/v1?key=${key}`);
+
+    expect(redacted).not.toContain(key);
+    expect(redacted).toBe('curl https://api.example.com/v1?[QUERY_1][SECRET_1]');
+    expect(redactor.restore(redacted)).toBe(`curl https://api.example.com/v1?key=${key}`);
+  });
+
+  it('leaves placeholders from earlier rules alone when later rules match their text', () => {
+    const redactor = redactorWith({ terms: ['email', 'Acme'], patterns: ['EMAIL_\\d+'] });
+
+    const redacted = redactor.redact('Sent Acme an email from ana@example.com');
+
+    expect(redacted).toBe('Sent [TERM_2] an [TERM_1] from [EMAIL_1]');
+    expect(redactor.restore(redacted)).toBe('Sent Acme an email from ana@example.com');
+  });
+
+  it('restores placeholders the model wrote without brackets, and leaves unknown ones', () => {
+    const redactor = redactorWith();
+    redactor.redact('ana@example.com and bo@example.com');
+
+    expect(redactor.restore('Thanks EMAIL_1, cc [EMAIL_2 and [EMAIL_3]')).toBe(
+      'Thanks ana@example.com, cc bo@example.com and [EMAIL_3]'
+    );
+  });
+
+  it('restores every string inside structured output', () => {
+    const redactor = redactorWith();
+    redactor.redact('ana@example.com');
+
+    expect(redactor.restoreValue({ stories: [{ title: 'Helped [EMAIL_1]', sources: ['E-1a2b3c'] }] })).toEqual({
+      stories: [{ title: 'Helped ana@example.com', sources: ['E-1a2b3c'] }],
+    });
+  });
+
+  it('sends text unchanged when no rule matches', () => {
+    const redactor = redactorWith();
+
+    expect(redactor.redact('Shipped the importer [E-1a2b3c]')).toBe('Shipped the importer [E-1a2b3c]');
+  });
+});
+
+describe('createStreamRestorer', () => {
+  const answer = 'Thanks to [EMAIL_1] and [EMAIL_2] for the review.';
+  const restored = 'Thanks to ana@example.com and bo@example.com for the review.';
+
+  function redactorForAnswer() {
+    const redactor = redactorWith();
+    redactor.redact('ana@example.com bo@example.com');
+    return redactor;
+  }
+
+  it('restores a placeholder split across chunks', () => {
+    // Splits inside "[EM|AIL_1]", right before "[EMAIL_2]" and inside "[EMAI|L_2]"
+    expect(streamThrough(answer, [13, 11, 5], redactorForAnswer())).toBe(restored);
+  });
+
+  it('gives the same result for every split point', () => {
+    for (let i = 1; i < answer.length; i++) {
+      expect(streamThrough(answer, [i], redactorForAnswer())).toBe(restored);
+    }
+  });
+
+  it('holds back a placeholder at the very end until flush', () => {
+    const restorer = createStreamRestorer(redactorForAnswer());
+
+    expect(restorer.push('Thanks to [EMAIL_1')).toBe('Thanks to ');
+    expect(restorer.flush()).toBe('ana@example.com');
+  });
+
+  it('does not hold back text that cannot be a placeholder', () => {
+    const restorer = createStreamRestorer(redactorForAnswer());
+
+    expect(restorer.push('All done.')).toBe('All done.');
+    expect(restorer.push(` ${'A'.repeat(40)}`)).toBe(` ${'A'.repeat(40)}`);
+  });
+});
@@ -0,0 +1,256 @@
+import { getSetting, setSetting } from './db';
+
+// Redaction of personal data and secrets before anything is sent to an AI
+// provider. Built-in detectors (emails, API keys, IPs, URL query strings,
+// internal hostnames) run first, then the user's own regexes and terms. Each
+// distinct value becomes a numbered placeholder like [EMAIL_1]; the same
+// redactor turns placeholders in the answer back into the original values,
+// so nothing changes for the user except what leaves the browser.
+
+const REDACTION_SETTINGS_KEY = 'redaction_settings';
+
+// Held back at the end of a streamed chunk in case it's the start of a placeholder
+const MAX_PLACEHOLDER_LENGTH = 24;
+
+export type DetectorId = 'secrets' | 'urlQuery' | 'email' | 'ip' | 'internalHost';
+
+interface Detector {
+  label: string;
+  kind: string; // Placeholder prefix
+  patterns: RegExp[];
+  valueGroup?: number; // Redact only this capture group, keeping the rest of the match
+}
+
+// In the order they run - secrets first so a key inside a URL is caught whole
+export const DETECTORS: Record<DetectorId, Detector> = {
+  secrets: {
+    label: 'API keys and tokens',
+    kind: 'SECRET',
+    patterns: [
+      /\bsk-(?:proj-|ant-)?[A-Za-z0-9_-]{20,}/g, // OpenAI, Anthropic
+      /\bgh[pousr]_[A-Za-z0-9]{36,}\b/g, // GitHub
+      /\bgithub_pat_[A-Za-z0-9_]{22,}/g,
+      /\bAKIA[0-9A-Z]{16}\b/g, // AWS access key id
+      /\bAIza[0-9A-Za-z_-]{35}\b/g, // Google
+      /\bxox[abprs]-[A-Za-z0-9-]{10,}/g, // Slack
+      /\beyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g, // JWT
+    ],
+  },
+  urlQuery: {
+    label: 'URL query strings',
+    kind: 'QUERY',
+    patterns: [/https?:\/\/[^\s?#"'<>)\]]+\?([^\s#"'<>)\]]+)/g],
+    valueGroup: 1,
+  },
+  email: {
+    label: 'Email addresses',
+    kind: 'EMAIL',
+    patterns: [/\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g],
+  },
+  ip: {
+    label: 'IP addresses',
+    kind: 'IP',
+    patterns: [
+      /\b(?:25[0-5]|2[0-4]\d|1?\d?\d)(?:\.(?:25[0-5]|2[0-4]\d|1?\d?\d)){3}\b/g,
+      /\b(?:[0-9a-fA-F]{1,4}:){7}[0-9a-fA-F]{1,4}\b/g,
+    ],
+  },
+  internalHost: {
+    label: 'Internal hostnames (.internal, .corp, .local, .lan)',
+    kind: 'HOST',
+    patterns: [/\b[a-z0-9-]+(?:\.[a-z0-9-]+)*\.(?:internal|corp|local|lan|intranet)\b/gi],
+  },
+};
+
+export interface RedactionSettings {
+  enabled: boolean;
+  detectors: Record<DetectorId, boolean>;
+  patterns: string[]; // User regexes, matched case-insensitively
+  terms: string[]; // Customer names, codenames... matched as whole words, any case
+}
+
+export const DEFAULT_REDACTION_SETTINGS: RedactionSettings = {
+  enabled: true,
+  detectors: { secrets: true, urlQuery: true, email: true, ip: true, internalHost: true },
+  patterns: [],
+  terms: [],
+};
+
+// One replaced value
+export interface Redaction {
+  placeholder: string;
+  original: string;
+}
+
+export interface Redactor {
+  redact(text: string): string;
+  restore(text: string): string;
+  restoreValue<T>(value: T): T; // Restores every string inside objects and arrays
+  redactions(): Redaction[];
+}
+
+export async function getRedactionSettings(): Promise<RedactionSettings> {
+  const value = await getSetting(REDACTION_SETTINGS_KEY);
+  if (!value) return DEFAULT_REDACTION_SETTINGS;
+
+  try {
+    const saved = JSON.parse(value);
+    return {
+      ...DEFAULT_REDACTION_SETTINGS,
+      ...saved,
+      detectors: { ...DEFAULT_REDACTION_SETTINGS.detectors, ...saved.detectors },
+    };
+  } catch {
+    console.error('WorthKeeping: Stored redaction settings are not valid JSON');
+    return DEFAULT_REDACTION_SETTINGS;
+  }
+}
+
+// Throws if a user pattern isn't a valid regex
+export function validateRedactionPatterns(patterns: string[]): void {
+  for (const pattern of patterns) {
+    let regex: RegExp;
+    try {
+      regex = new RegExp(pattern, 'gi');
+    } catch {
+      throw new Error(`Invalid pattern: ${pattern}`);
+    }
+    if (regex.test('')) throw new Error(`Pattern matches empty text: ${pattern}`);
+  }
+}
+
+export async function saveRedactionSettings(settings: RedactionSettings): Promise<void> {
+  const cleaned: RedactionSettings = {
+    ...settings,
+    patterns: settings.patterns.map((p) => p.trim()).filter(Boolean),
+    terms: settings.terms.map((t) => t.trim()).filter(Boolean),
+  };
+  validateRedactionPatterns(cleaned.patterns);
+  await setSetting(REDACTION_SETTINGS_KEY, JSON.stringify(cleaned));
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Whole-word match where the term starts or ends with a word character
+function termPattern(term: string): RegExp {
+  const start = /^\w/.test(term) ? '\\b' : '';
+  const end = /\w$/.test(term) ? '\\b' : '';
+  return new RegExp(`${start}${escapeRegExp(term)}${end}`, 'gi');
+}
+
+export function createRedactor(settings: RedactionSettings): Redactor {
+  const byValue = new Map<string, string>();
+  const byPlaceholder = new Map<string, string>();
+  const counters = new Map<string, number>();
+
+  const rules: Detector[] = (Object.keys(DETECTORS) as DetectorId[])
+    .filter((id) => settings.detectors[id])
+    .map((id) => DETECTORS[id]);
+  if (settings.patterns.length > 0) {
+    rules.push({ label: 'Custom patterns', kind: 'REDACTED', patterns: settings.patterns.map((p) => new RegExp(p, 'gi')) });
+  }
+  if (settings.terms.length > 0) {
+    rules.push({ label: 'Terms', kind: 'TERM', patterns: settings.terms.map(termPattern) });
+  }
+
+  // The same value always gets the same placeholder
+  const getPlaceholder = (kind: string, value: string): string => {
+    const key = `${kind}:${value}`;
+    let placeholder = byValue.get(key);
+    if (!placeholder) {
+      const n = (counters.get(kind) ?? 0) + 1;
+      counters.set(kind, n);
+      placeholder = `[${kind}_${n}]`;
+      byValue.set(key, placeholder);
+      byPlaceholder.set(placeholder, value);
+    }
+    return placeholder;
+  };
+
+  // Placeholders from earlier rules are left alone
+  const replaceOutsidePlaceholders = (text: string, replace: (part: string) => string): string =>
+    text
+      .split(/(\[[A-Z]+_\d+\])/)
+      .map((part, i) => (i % 2 === 1 && byPlaceholder.has(part) ? part : replace(part)))
+      .join('');
+
+  const redact = (text: string): string => {
+    let result = text;
+    for (const rule of rules) {
+      for (const pattern of rule.patterns) {
+        result = replaceOutsidePlaceholders(result, (part) =>
+          part.replace(pattern, (match, ...groups) => {
+            if (rule.valueGroup === undefined) return getPlaceholder(rule.kind, match);
+            const value = groups[rule.valueGroup - 1] as string;
+            return match.slice(0, match.length - value.length) + getPlaceholder(rule.kind, value);
+          })
+        );
+      }
+    }
+    return result;
+  };
+
+  // Models sometimes drop the brackets - accept "EMAIL_1" as well as "[EMAIL_1]"
+  const restore = (text: string): string =>
+    byPlaceholder.size === 0
+      ? text
+      : text.replace(/\[?\b([A-Z]+_\d+)\b\]?/g, (match, name: string) => byPlaceholder.get(`[${name}]`) ?? match);
+
+  const restoreValue = <T,>(value: T): T => {
+    if (typeof value === 'string') return restore(value) as T;
+    if (Array.isArray(value)) return value.map(restoreValue) as T;
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, restoreValue(v)])) as T;
+    }
+    return value;
+  };
+
+  return {
+    redact,
+    restore,
+    restoreValue,
+    redactions: () => [...byPlaceholder.entries()].map(([placeholder, original]) => ({ placeholder, original })),
+  };
+}
+
+// Redactor for an outgoing call, or null when redaction is off
+export async function createPromptRedactor(): Promise<Redactor | null> {
+  const settings = await getRedactionSettings();
+  return settings.enabled ? createRedactor(settings) : null;
+}
+
+// Redact a prompt and the turns before it. Earlier turns go first so
+// placeholders are numbered the same way every time the chat is sent.
+export function redactConversation<T extends { content: string }>(
+  redactor: Redactor,
+  prompt: string,
+  history: T[]
+): { prompt: string; history: T[] } {
+  const redactedHistory = history.map((turn) => ({ ...turn, content: redactor.redact(turn.content) }));
+  return { prompt: redactor.redact(prompt), history: redactedHistory };
+}
+
+// Restore placeholders in a streamed answer. A placeholder can be split across
+// chunks, so a possible placeholder start at the end of a chunk is held back
+// until the next one arrives.
+export function createStreamRestorer(redactor: Redactor): { push(chunk: string): string; flush(): string } {
+  let pending = '';
+
+  return {
+    push(chunk: string): string {
+      pending += chunk;
+      const tail = pending.match(/\[?(?:[A-Z][A-Z_]*\d*)?$/)?.[0] ?? '';
+      const held = tail.length <= MAX_PLACEHOLDER_LENGTH ? tail : '';
+      const ready = pending.slice(0, pending.length - held.length);
+      pending = held;
+      return redactor.restore(ready);
+    },
+    flush(): string {
+      const rest = redactor.restore(pending);
+      pending = '';
+      return rest;
+    },
+  };
+}
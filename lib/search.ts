@@ -0,0 +1,315 @@
+import { type MemoryEntry, type GitHubPR } from './db';
+import { semanticSearch, semanticSearchPRs } from './embeddings';
+
+// Hybrid search: BM25 keyword scoring over an in-memory inverted index,
+// fused with semantic (embedding) results using reciprocal rank fusion.
+// Keyword search catches exact terms like ticket ids ("PAY-1234") and repo
+// names that embeddings tend to blur; semantic search catches paraphrases.
+// Entries and synced GitHub PRs are searched together.
+
+// BM25 parameters (standard defaults)
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Title words count for less than words the user actually wrote
+const TITLE_WEIGHT = 0.5;
+
+// RRF constant - dampens the advantage of the very top ranks
+const RRF_K = 60;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is', 'it',
+  'of', 'on', 'or', 'that', 'the', 'to', 'was', 'were', 'with', 'what', 'did', 'i', 'my', 'me',
+]);
+
+// Words that only describe a time filter - ignored in the query when one was parsed
+const TIME_WORDS = new Set([
+  'today', 'yesterday', 'this', 'last', 'past', 'week', 'weeks', 'month', 'months',
+  'quarter', 'year', 'days', 'day', 'q1', 'q2', 'q3', 'q4',
+]);
+
+interface Token {
+  terms: string[]; // Index terms: the whole token plus its parts if compound
+  start: number;
+  end: number;
+}
+
+// Something that can show up in search results
+export type SearchHit = { source: 'entry'; entry: MemoryEntry } | { source: 'pr'; pr: GitHubPR };
+
+interface SearchDocument {
+  key: string; // `entry:<id>` or `pr:<id>`
+  hit: SearchHit;
+  timestamp: number;
+  repo?: string;
+}
+
+export interface SearchIndex {
+  postings: Map<string, Map<string, number>>; // term -> document key -> weighted term frequency
+  docLengths: Map<string, number>;
+  avgDocLength: number;
+  docs: Map<string, SearchDocument>;
+}
+
+export type SearchResult = SearchHit & {
+  key: string;
+  score: number; // Fused score - only meaningful for ordering
+  semanticScore?: number; // Cosine similarity, if it matched semantically
+  keywordScore?: number; // BM25 score, if it matched on keywords
+  terms: string[]; // Query terms, for highlighting
+};
+
+export interface SearchOptions {
+  limit?: number;
+  minScore?: number;
+  startTime?: number;
+  endTime?: number;
+  repo?: string; // owner/repo - PRs from it, and entries captured on its pages
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+// Very light suffix stripping so "fixed", "fixes" and "fixing" share a term
+function stem(word: string): string {
+  if (word.length <= 4 || /\d/.test(word)) return word;
+  return word.replace(/(ing|ed|es|s)$/, '');
+}
+
+// Split text into tokens. Hyphenated / dotted / slashed runs like "PAY-1234",
+// "owner/repo" or "v2.1" stay whole so exact ids match, and their parts are
+// indexed too so "pay" or "repo" alone still finds them.
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /[\p{L}\p{N}]+(?:[-_./#][\p{L}\p{N}]+)*/gu;
+
+  for (const match of text.matchAll(pattern)) {
+    const raw = match[0].toLowerCase();
+    const parts = raw.split(/[-_./#]/);
+    const terms = parts.length > 1 ? [raw, ...parts.map(stem)] : [stem(raw)];
+
+    tokens.push({ terms, start: match.index!, end: match.index! + match[0].length });
+  }
+
+  return tokens;
+}
+
+// Terms to look up for a query (stopwords dropped, duplicates removed)
+export function getQueryTerms(query: string, options?: { ignoreTimeWords?: boolean }): string[] {
+  const terms = new Set<string>();
+
+  for (const token of tokenize(query)) {
+    for (const term of token.terms) {
+      if (STOPWORDS.has(term)) continue;
+      if (options?.ignoreTimeWords && TIME_WORDS.has(term)) continue;
+      terms.add(term);
+    }
+  }
+
+  return [...terms];
+}
+
+// owner/repo for a GitHub URL, if it is one
+export function getRepoFromUrl(url?: string): string | undefined {
+  const match = url?.match(/github\.com\/([^/?#]+\/[^/?#]+)/);
+  return match ? match[1].toLowerCase() : undefined;
+}
+
+// Build an inverted index over entry text and page titles, plus PR titles and descriptions
+export function buildSearchIndex(entries: MemoryEntry[], prs: GitHubPR[] = []): SearchIndex {
+  const postings = new Map<string, Map<string, number>>();
+  const docLengths = new Map<string, number>();
+  const docs = new Map<string, SearchDocument>();
+  let totalLength = 0;
+
+  const addTerms = (key: string, text: string, weight: number): number => {
+    let length = 0;
+    for (const token of tokenize(text)) {
+      for (const term of token.terms) {
+        let termDocs = postings.get(term);
+        if (!termDocs) {
+          termDocs = new Map();
+          postings.set(term, termDocs);
+        }
+        termDocs.set(key, (termDocs.get(key) ?? 0) + weight);
+      }
+      length += weight;
+    }
+    return length;
+  };
+
+  const addDocument = (doc: SearchDocument, fields: Array<[string | undefined, number]>) => {
+    docs.set(doc.key, doc);
+    let length = 0;
+    for (const [text, weight] of fields) {
+      if (text) length += addTerms(doc.key, text, weight);
+    }
+    docLengths.set(doc.key, length);
+    totalLength += length;
+  };
+
+  for (const entry of entries) {
+    addDocument(
+      {
+        key: `entry:${entry.id}`,
+        hit: { source: 'entry', entry },
+        timestamp: entry.timestamp,
+        repo: getRepoFromUrl(entry.url),
+      },
+      [
+        [entry.text, 1],
+        [entry.title, TITLE_WEIGHT],
+      ]
+    );
+  }
+
+  for (const pr of prs) {
+    addDocument(
+      { key: `pr:${pr.id}`, hit: { source: 'pr', pr }, timestamp: pr.createdAt, repo: pr.repo.toLowerCase() },
+      [
+        [pr.title, 1],
+        [pr.body, 1],
+        [pr.repo, TITLE_WEIGHT],
+      ]
+    );
+  }
+
+  return {
+    postings,
+    docLengths,
+    avgDocLength: docs.size > 0 ? totalLength / docs.size : 0,
+    docs,
+  };
+}
+
+// Score documents against query terms with BM25
+function keywordSearch(
+  index: SearchIndex,
+  terms: string[],
+  options?: { limit?: number; filter?: (doc: SearchDocument) => boolean }
+): Array<{ key: string; score: number }> {
+  const { limit = 50, filter } = options ?? {};
+  const docCount = index.docs.size;
+  const scores = new Map<string, number>();
+
+  for (const term of terms) {
+    const termDocs = index.postings.get(term);
+    if (!termDocs) continue;
+
+    const idf = Math.log(1 + (docCount - termDocs.size + 0.5) / (termDocs.size + 0.5));
+
+    for (const [key, tf] of termDocs) {
+      const length = index.docLengths.get(key) ?? 0;
+      const norm = tf + BM25_K1 * (1 - BM25_B + (BM25_B * length) / (index.avgDocLength || 1));
+      scores.set(key, (scores.get(key) ?? 0) + (idf * tf * (BM25_K1 + 1)) / norm);
+    }
+  }
+
+  return [...scores]
+    .map(([key, score]) => ({ key, score }))
+    .filter((r) => !filter || filter(index.docs.get(r.key)!))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+// Reciprocal rank fusion - each list contributes 1 / (k + rank)
+function fuseRankings(lists: Array<Array<{ key: string }>>): Map<string, number> {
+  const fused = new Map<string, number>();
+
+  for (const list of lists) {
+    list.forEach((result, rank) => {
+      fused.set(result.key, (fused.get(result.key) ?? 0) + 1 / (RRF_K + rank + 1));
+    });
+  }
+
+  return fused;
+}
+
+// Entries and PRs ranked by cosine similarity, as one list
+async function semanticRanking(
+  index: SearchIndex,
+  query: string,
+  options: SearchOptions,
+  filter: (doc: SearchDocument) => boolean
+): Promise<Array<{ key: string; score: number }>> {
+  const { minScore = 0.2, startTime, endTime } = options;
+
+  try {
+    const [entryResults, prResults] = await Promise.all([
+      semanticSearch(query, { limit: 50, minScore, startTime, endTime }),
+      semanticSearchPRs(query, { limit: 20, minScore, startTime, endTime }),
+    ]);
+
+    return [
+      ...entryResults.map((r) => ({ key: `entry:${r.entry.id}`, score: r.score })),
+      ...prResults.map((r) => ({ key: `pr:${r.pr.id}`, score: r.score })),
+    ]
+      .filter((r) => index.docs.has(r.key) && filter(index.docs.get(r.key)!))
+      .sort((a, b) => b.score - a.score);
+  } catch (err) {
+    console.error('WorthKeeping: Semantic search failed, using keyword results only', err);
+    return [];
+  }
+}
+
+// Keyword + semantic search over entries and PRs. Keyword results still
+// come back if the embedding model isn't available.
+export async function hybridSearch(index: SearchIndex, query: string, options: SearchOptions = {}): Promise<SearchResult[]> {
+  const { limit = 20, startTime, endTime } = options;
+  const repo = options.repo?.toLowerCase();
+  const hasTimeFilter = startTime !== undefined || endTime !== undefined;
+
+  const matchesFilters = (doc: SearchDocument): boolean => {
+    if (startTime && doc.timestamp < startTime) return false;
+    if (endTime && doc.timestamp > endTime) return false;
+    if (repo && doc.repo !== repo) return false;
+    return true;
+  };
+
+  const terms = getQueryTerms(query, { ignoreTimeWords: hasTimeFilter });
+  const keywordResults = keywordSearch(index, terms, { filter: matchesFilters });
+  const semanticResults = await semanticRanking(index, query, options, matchesFilters);
+
+  const fused = fuseRankings([keywordResults, semanticResults]);
+  const keywordScores = new Map(keywordResults.map((r) => [r.key, r.score]));
+  const semanticScores = new Map(semanticResults.map((r) => [r.key, r.score]));
+
+  return [...fused]
+    .map(([key, score]) => ({
+      ...index.docs.get(key)!.hit,
+      key,
+      score,
+      semanticScore: semanticScores.get(key),
+      keywordScore: keywordScores.get(key),
+      terms,
+    }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+// Split text into plain / matched segments for highlighting query terms
+export function highlightSegments(text: string, terms: string[]): HighlightSegment[] {
+  if (terms.length === 0) return [{ text, match: false }];
+
+  const wanted = new Set(terms);
+  const segments: HighlightSegment[] = [];
+  let cursor = 0;
+
+  for (const token of tokenize(text)) {
+    if (!token.terms.some((term) => wanted.has(term))) continue;
+
+    if (token.start > cursor) {
+      segments.push({ text: text.slice(cursor, token.start), match: false });
+    }
+    segments.push({ text: text.slice(token.start, token.end), match: true });
+    cursor = token.end;
+  }
+
+  if (cursor < text.length) {
+    segments.push({ text: text.slice(cursor), match: false });
+  }
+
+  return segments;
+}
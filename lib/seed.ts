@@ -101,6 +101,17 @@ export async function seedDatabase(): Promise<number> {
 
 export async function clearDatabase(): Promise<void> {
   await db.entries.clear();
+  await db.entryRevisions.clear();
+  await db.jobs.clear();
+  await db.vectorIndexes.clear();
+  await db.vectorAssignments.clear();
+  await db.periodSummaries.clear();
+  await db.chatSessions.clear();
+  await db.starStories.clear();
+  await db.competencyClassifications.clear();
+  await db.aiUsage.clear();
+  await db.entrySuggestions.clear();
+  await db.digests.clear();
   await db.settings.clear();
   console.log('WorthKeeping: Database cleared');
 }
@@ -0,0 +1,136 @@
+import { z } from 'zod';
+import { db, generateId, type EntryScope, type StarStory } from './db';
+import { gatherReviewContext, generateStructured, getAIConfig } from './ai';
+import { estimateTokens } from './context';
+import { formatTimeRange } from './templates';
+import { type CitationRef } from './citations';
+
+// STAR stories (Situation, Task, Action, Result) generated as structured
+// output over the same entries and PRs a review question would use. Each
+// story lists the refs of the items it is based on; stories are saved so
+// they can be edited and exported.
+
+export const DEFAULT_STORY_COUNT = 3;
+export const MAX_STORY_COUNT = 8;
+
+const starStoriesSchema = z.object({
+  stories: z.array(
+    z.object({
+      title: z.string().describe('Short name for the story, e.g. "Cut checkout latency in half"'),
+      situation: z.string().describe('The context and the problem, 1-3 sentences'),
+      task: z.string().describe('What I was responsible for, 1-2 sentences'),
+      action: z.string().describe('What I did, first person and specific, 2-4 sentences'),
+      result: z.string().describe('The outcome, with numbers when the data has them, 1-3 sentences'),
+      sources: z
+        .array(z.string())
+        .describe('Reference ids of the entries and PRs the story is based on, e.g. ["E-1a2b3c", "P-4d5e6f"]'),
+    })
+  ),
+});
+
+export interface GeneratedStories {
+  stories: StarStory[];
+  entriesUsed: number;
+  prsUsed: number;
+}
+
+function buildStoriesPrompt(focus: string, count: number, timeRange: string, sources: string, data: string): string {
+  return `You are helping me turn my ${sources} from ${timeRange} into STAR stories (Situation, Task, Action, Result) for a performance review.
+
+${focus ? `Focus on: "${focus}"\n\n` : ''}## Guidelines:
+- Write up to ${count} stories, strongest first - fewer if the data doesn't support that many
+- Build each story from related items where possible, rather than one story per item
+- Every item in my data starts with a reference id in square brackets, like [E-1a2b3c] or [P-4d5e6f]. List the ids each story is based on in its sources
+- Only use facts that appear in my data. If a part is missing (e.g. no measurable result), say so briefly instead of inventing one
+- Write plain sentences without markdown
+
+${data}`;
+}
+
+// Ids like "[E-1a2b3c]" or "e-1a2b3c" -> "E-1a2b3c"
+function normalizeRef(ref: string): string {
+  return ref.replace(/[[\]\s]/g, '').replace(/^([ep])/, (c) => c.toUpperCase());
+}
+
+// Generate stories from the entries and PRs in range and save them.
+// Returns null when confirmSend turns the prompt down.
+export async function generateStarStories(
+  focus: string,
+  timeRange: StarStory['timeRange'],
+  includeGitHub: boolean,
+  options: { scope?: EntryScope; count?: number; confirmSend?: (prompts: string[]) => Promise<boolean> } = {}
+): Promise<GeneratedStories | null> {
+  const count = Math.min(MAX_STORY_COUNT, Math.max(1, options.count ?? DEFAULT_STORY_COUNT));
+  const question = focus.trim() || 'key accomplishments and impact';
+  const rangeLabel = formatTimeRange(timeRange);
+
+  const model = (await getAIConfig())?.model;
+  const review = await gatherReviewContext(question, timeRange, includeGitHub, {
+    scope: options.scope,
+    instructionTokens: estimateTokens(buildStoriesPrompt(focus.trim(), count, rangeLabel, '', ''), model),
+  });
+
+  if (review.entriesUsed === 0 && review.prsUsed === 0) {
+    throw new Error('No entries found for this time period');
+  }
+
+  const prompt = buildStoriesPrompt(
+    focus.trim(),
+    count,
+    rangeLabel,
+    review.prsUsed > 0 ? 'work log entries and GitHub Pull Requests' : 'work log entries',
+    [review.entriesSection, review.prsSection].filter(Boolean).join('\n\n')
+  );
+  if (options.confirmSend && !(await options.confirmSend([prompt]))) return null;
+
+  const { stories: generated } = await generateStructured(prompt, starStoriesSchema, {
+    name: 'star_stories',
+    description: 'STAR stories for a performance review',
+    feature: 'stories',
+  });
+
+  const now = Date.now();
+  const stories: StarStory[] = generated.slice(0, count).map((story, i) => {
+    // Keep only refs that were actually in the prompt, once each
+    const refs = new Set(story.sources.map(normalizeRef));
+    const sources = [...refs].flatMap((ref): CitationRef[] => (review.citations[ref] ? [review.citations[ref]] : []));
+
+    return {
+      id: generateId(),
+      title: story.title.trim(),
+      situation: story.situation.trim(),
+      task: story.task.trim(),
+      action: story.action.trim(),
+      result: story.result.trim(),
+      sources,
+      focus: focus.trim() || undefined,
+      timeRange,
+      createdAt: now - i, // Strongest first when listed newest first
+      updatedAt: now,
+    };
+  });
+
+  await db.starStories.bulkAdd(stories);
+  console.log(`WorthKeeping: Generated ${stories.length} STAR stories`);
+
+  return { stories, entriesUsed: review.entriesUsed, prsUsed: review.prsUsed };
+}
+
+// Newest first
+export async function getStarStories(): Promise<StarStory[]> {
+  return db.starStories.orderBy('createdAt').reverse().toArray();
+}
+
+export async function updateStarStory(
+  id: string,
+  changes: Partial<Pick<StarStory, 'title' | 'situation' | 'task' | 'action' | 'result'>>
+): Promise<void> {
+  if (changes.title !== undefined && !changes.title.trim()) {
+    throw new Error('Story title cannot be empty');
+  }
+  await db.starStories.update(id, { ...changes, updatedAt: Date.now() });
+}
+
+export async function deleteStarStory(id: string): Promise<void> {
+  await db.starStories.delete(id);
+}
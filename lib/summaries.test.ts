@@ -0,0 +1,95 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { db, type GitHubPR, type MemoryEntry } from './db';
+import { clearDatabase } from './seed';
+import { DEFAULT_REVIEW_TOKEN_BUDGET, estimateTokens } from './context';
+import { buildSummarizedReviewPrompt } from './summaries';
+
+// Record the period prompts instead of calling a provider
+const prompts = vi.hoisted(() => [] as string[]);
+
+vi.mock('./ai', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('./ai')>()),
+  callAI: vi.fn(async (prompt: string) => {
+    prompts.push(prompt);
+    return '- Did things';
+  }),
+}));
+
+const monthStart = new Date(2025, 2, 1).getTime();
+
+function makeEntry(i: number): MemoryEntry {
+  return { id: `entry-${i}`, text: `Entry ${i}: ${'detail '.repeat(200)}`, timestamp: monthStart + i * 60_000 };
+}
+
+describe('buildSummarizedReviewPrompt', () => {
+  beforeEach(async () => {
+    await clearDatabase();
+    prompts.length = 0;
+  });
+
+  it('splits a busy period into parts that fit the token budget', async () => {
+    await db.entries.bulkAdd(Array.from({ length: 60 }, (_, i) => makeEntry(i)));
+
+    const result = await buildSummarizedReviewPrompt('What did I ship?', 'all', false, { granularity: 'month' });
+
+    expect(result?.summariesGenerated).toBe(1);
+    expect(prompts.length).toBeGreaterThan(1);
+    expect(prompts[0]).toContain(`(part 1 of ${prompts.length})`);
+    for (const prompt of prompts) {
+      expect(estimateTokens(prompt)).toBeLessThanOrEqual(DEFAULT_REVIEW_TOKEN_BUDGET);
+    }
+    // Every entry is summarized exactly once
+    const refs = prompts.join('\n').match(/^- \[E-/gm) ?? [];
+    expect(refs).toHaveLength(60);
+  });
+
+  it('asks before summarizing stale periods and sends nothing when turned down', async () => {
+    await db.entries.bulkAdd([makeEntry(0), { ...makeEntry(1), timestamp: new Date(2025, 3, 2).getTime() }]);
+    const confirmSend = vi.fn(async () => false);
+
+    const result = await buildSummarizedReviewPrompt('What did I ship?', 'all', false, { confirmSend });
+
+    expect(result).toBeNull();
+    expect(confirmSend).toHaveBeenCalledWith([
+      expect.stringContaining('March 2025'),
+      expect.stringContaining('April 2025'),
+    ]);
+    expect(prompts).toEqual([]);
+  });
+
+  it('only asks about periods without a current cached summary', async () => {
+    await db.entries.add(makeEntry(0));
+    await buildSummarizedReviewPrompt('What did I ship?', 'all', false);
+    await db.entries.add({ ...makeEntry(1), timestamp: new Date(2025, 3, 2).getTime() });
+    const confirmSend = vi.fn(async () => true);
+
+    await buildSummarizedReviewPrompt('What did I ship?', 'all', false, { confirmSend });
+
+    expect(confirmSend).toHaveBeenCalledWith([expect.stringContaining('April 2025')]);
+    expect(prompts).toHaveLength(2);
+  });
+
+  it('caps PR descriptions in the period prompt', async () => {
+    const pr: GitHubPR = {
+      id: 'pr-1',
+      number: 1,
+      title: 'Rewrite the importer',
+      body: 'x'.repeat(20_000),
+      url: 'https://github.com/acme/app/pull/1',
+      repo: 'acme/app',
+      state: 'closed',
+      createdAt: monthStart,
+      mergedAt: monthStart,
+      additions: 10,
+      deletions: 2,
+      fetchedAt: monthStart,
+    };
+    await db.githubPRs.add(pr);
+    await db.entries.add(makeEntry(0));
+
+    await buildSummarizedReviewPrompt('What did I ship?', 'all', true, { granularity: 'month' });
+
+    expect(prompts).toHaveLength(1);
+    expect(prompts[0].length).toBeLessThan(10_000);
+  });
+});
@@ -0,0 +1,337 @@
+import { db, getEntries, filterEntriesByScope, type MemoryEntry, type GitHubPR, type EntryScope } from './db';
+import { PR_BODY_MAX_CHARS, callAI, formatEntryForContext, formatPRForContext, getAIConfig } from './ai';
+import { estimateTokens, getEffectiveBudget, getReviewTokenBudget } from './context';
+import { getTimeRange } from './embeddings';
+import { getPRsForTimeRange } from './github';
+import { createEntryCitation, createPRCitation, type CitationMap } from './citations';
+import { formatTimeRange, getSelectedTemplate, renderReviewPrompt, type PromptTemplate } from './templates';
+
+// Map-reduce reviews for long time ranges. Each week or month is summarized
+// on its own (map), then the question is answered over those summaries
+// (reduce). Period summaries are cached in IndexedDB keyed by a hash of the
+// entries and PRs they cover, so editing, adding or deleting anything in a
+// period makes just that period's summary stale. A period too big for one
+// prompt is split into parts that are summarized one after another.
+
+// Bump when the period prompt changes so cached summaries are regenerated
+const PERIOD_PROMPT_VERSION = 3;
+
+export type SummaryGranularity = 'week' | 'month';
+
+export interface SummaryProgress {
+  done: number;
+  total: number;
+  cached: number;
+}
+
+export interface SummarizedReviewPrompt {
+  prompt: string;
+  periods: number;
+  summariesGenerated: number;
+  summariesCached: number;
+  entriesUsed: number;
+  prsUsed: number;
+  citations?: CitationMap;
+}
+
+interface Period {
+  start: number;
+  end: number;
+  entries: MemoryEntry[];
+  prs: GitHubPR[];
+}
+
+// Weeks start on Sunday, like the rest of the app
+function getPeriodStart(timestamp: number, granularity: SummaryGranularity): Date {
+  const date = new Date(timestamp);
+  if (granularity === 'month') {
+    return new Date(date.getFullYear(), date.getMonth(), 1);
+  }
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() - date.getDay());
+}
+
+function getPeriodEnd(start: Date, granularity: SummaryGranularity): Date {
+  return granularity === 'month'
+    ? new Date(start.getFullYear(), start.getMonth() + 1, 1)
+    : new Date(start.getFullYear(), start.getMonth(), start.getDate() + 7);
+}
+
+function formatPeriodLabel(period: Period, granularity: SummaryGranularity): string {
+  const start = new Date(period.start);
+  if (granularity === 'month') {
+    return start.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+  }
+  return `Week of ${start.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`;
+}
+
+// Bucket entries and PRs into periods, oldest first
+function groupIntoPeriods(entries: MemoryEntry[], prs: GitHubPR[], granularity: SummaryGranularity): Period[] {
+  const periods = new Map<number, Period>();
+
+  const getPeriod = (timestamp: number): Period => {
+    const start = getPeriodStart(timestamp, granularity);
+    let period = periods.get(start.getTime());
+    if (!period) {
+      period = { start: start.getTime(), end: getPeriodEnd(start, granularity).getTime(), entries: [], prs: [] };
+      periods.set(period.start, period);
+    }
+    return period;
+  };
+
+  for (const entry of entries) getPeriod(entry.timestamp).entries.push(entry);
+  for (const pr of prs) getPeriod(pr.createdAt).prs.push(pr);
+
+  return [...periods.values()].sort((a, b) => a.start - b.start);
+}
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+// Hash everything that ends up in the period's prompt
+async function hashPeriod(period: Period): Promise<string> {
+  const entries = [...period.entries]
+    .sort((a, b) => a.id.localeCompare(b.id))
+    .map((e) => [e.id, e.timestamp, e.text, e.project ?? '']);
+  const prs = [...period.prs]
+    .sort((a, b) => a.id.localeCompare(b.id))
+    .map((pr) => [pr.id, pr.title, pr.body, pr.state, pr.mergedAt, pr.additions, pr.deletions]);
+  return sha256(JSON.stringify({ version: PERIOD_PROMPT_VERSION, entries, prs }));
+}
+
+function getScopeKey(scope: EntryScope | undefined, includeGitHub: boolean): string {
+  return `${scope?.project ?? ''}|${scope?.tag ?? ''}|${includeGitHub ? 'prs' : ''}`;
+}
+
+function buildPeriodPrompt(label: string, data: string): string {
+  return `Summarize my work for ${label} so it can be used later when writing a performance review.
+
+- Use concise bullet points grouped by theme or project
+- Keep concrete details: names of features, systems, ticket ids, PR titles, metrics and outcomes
+- Mention collaboration, mentoring and incidents when they appear
+- Only include what is in the data - do not invent details
+- Keep the reference ids in square brackets (like [E-1a2b3c] or [P-4d5e6f]) of the items each bullet is based on
+- Do not add an introduction or conclusion
+
+${data}`;
+}
+
+interface PeriodItem {
+  source: 'entry' | 'pr';
+  text: string;
+}
+
+function formatPeriodData(items: PeriodItem[]): string {
+  const entries = items.filter((item) => item.source === 'entry').map((item) => item.text);
+  const prs = items.filter((item) => item.source === 'pr').map((item) => item.text);
+
+  let data = '';
+  if (entries.length > 0) {
+    data += `## Work Log Entries:\n${entries.join('\n')}\n\n`;
+  }
+  if (prs.length > 0) {
+    data += `## GitHub Pull Requests:\n${prs.join('\n\n')}\n`;
+  }
+  return data;
+}
+
+// The prompts that summarize a period, packed into the token budget. Most
+// periods fit in one; a busy one is split into parts in time order.
+function buildPeriodPrompts(label: string, period: Period, tokenBudget: number, model?: string): string[] {
+  const entries = [...period.entries].sort((a, b) => a.timestamp - b.timestamp);
+  const items: PeriodItem[] = [
+    ...entries.map((entry) => ({ source: 'entry' as const, text: formatEntryForContext(entry) })),
+    ...period.prs.map((pr) => ({ source: 'pr' as const, text: formatPRForContext(pr, PR_BODY_MAX_CHARS) })),
+  ];
+
+  // Instructions, the longest part label and both section headings
+  const headings = formatPeriodData([
+    { source: 'entry', text: '' },
+    { source: 'pr', text: '' },
+  ]);
+  const instructions = buildPeriodPrompt(`${label} (part 99 of 99)`, headings);
+  const budget = getEffectiveBudget(tokenBudget, model, estimateTokens(instructions, model));
+
+  const parts: PeriodItem[][] = [];
+  let part: PeriodItem[] = [];
+  let tokensUsed = 0;
+  for (const item of items) {
+    // +1 for the newline joining items. An item bigger than the budget gets a part to itself.
+    const tokens = estimateTokens(item.text, model) + 1;
+    if (part.length > 0 && tokensUsed + tokens > budget) {
+      parts.push(part);
+      part = [];
+      tokensUsed = 0;
+    }
+    part.push(item);
+    tokensUsed += tokens;
+  }
+  if (part.length > 0) parts.push(part);
+
+  return parts.map((items, i) => {
+    const partLabel = parts.length > 1 ? `${label} (part ${i + 1} of ${parts.length})` : label;
+    return buildPeriodPrompt(partLabel, formatPeriodData(items));
+  });
+}
+
+// What summarizing a period takes: its cached summary while that's still
+// current, otherwise the prompts to send
+interface PeriodPlan {
+  period: Period;
+  id: string;
+  contentHash: string;
+  cachedSummary?: string;
+  prompts: string[];
+}
+
+async function planPeriod(
+  period: Period,
+  granularity: SummaryGranularity,
+  scopeKey: string,
+  budget: { tokens: number; model?: string }
+): Promise<PeriodPlan> {
+  const id = `${granularity}:${period.start}:${scopeKey}`;
+  const contentHash = await hashPeriod(period);
+
+  const existing = await db.periodSummaries.get(id);
+  if (existing && existing.contentHash === contentHash) {
+    return { period, id, contentHash, cachedSummary: existing.summary, prompts: [] };
+  }
+
+  const prompts = buildPeriodPrompts(formatPeriodLabel(period, granularity), period, budget.tokens, budget.model);
+  return { period, id, contentHash, prompts };
+}
+
+// Send a stale period's prompts and cache the summary
+async function summarizePeriod(plan: PeriodPlan, granularity: SummaryGranularity): Promise<string> {
+  // Record the model that actually answered - a fallback provider may have stepped in
+  let model: string | undefined;
+  const parts: string[] = [];
+  for (const prompt of plan.prompts) {
+    const part = await callAI(prompt, { feature: 'summary', onProvider: (tag) => (model = tag.model) });
+    parts.push(part.trim());
+  }
+  const summary = parts.join('\n');
+  await db.periodSummaries.put({
+    id: plan.id,
+    granularity,
+    periodStart: plan.period.start,
+    periodEnd: plan.period.end,
+    contentHash: plan.contentHash,
+    summary,
+    entryCount: plan.period.entries.length,
+    prCount: plan.period.prs.length,
+    model,
+    createdAt: Date.now(),
+  });
+
+  return summary;
+}
+
+// Summarize each period (using the cache where possible) and build the
+// final prompt that answers the question over the summaries. Returns null
+// when confirmSend turns down the summaries that would be generated.
+export async function buildSummarizedReviewPrompt(
+  question: string,
+  timeRange: 'week' | 'month' | 'quarter' | 'year' | 'all',
+  includeGitHub: boolean,
+  options: {
+    granularity?: SummaryGranularity;
+    scope?: EntryScope;
+    template?: PromptTemplate; // Overrides the selected prompt template
+    onProgress?: (progress: SummaryProgress) => void;
+    confirmSend?: (prompts: string[]) => Promise<boolean>; // Asked before any period is summarized
+  } = {}
+): Promise<SummarizedReviewPrompt | null> {
+  const granularity = options.granularity ?? 'month';
+
+  let entries = filterEntriesByScope(await getEntries(), options.scope);
+  if (timeRange !== 'all') {
+    const { startTime, endTime } = getTimeRange(timeRange);
+    entries = entries.filter((e) => e.timestamp >= startTime && e.timestamp <= endTime);
+  }
+
+  let prs: GitHubPR[] = [];
+  if (includeGitHub) {
+    try {
+      prs = await getPRsForTimeRange(timeRange);
+    } catch (err) {
+      console.error('Failed to fetch GitHub PRs:', err);
+    }
+  }
+
+  const periods = groupIntoPeriods(entries, prs, granularity);
+  const result: SummarizedReviewPrompt = {
+    prompt: '',
+    periods: periods.length,
+    summariesGenerated: 0,
+    summariesCached: 0,
+    entriesUsed: entries.length,
+    prsUsed: prs.length,
+  };
+
+  if (periods.length === 0) return result;
+
+  const scopeKey = getScopeKey(options.scope, includeGitHub);
+  const budget = { tokens: await getReviewTokenBudget(), model: (await getAIConfig())?.model };
+  const plans: PeriodPlan[] = [];
+  for (const period of periods) plans.push(await planPeriod(period, granularity, scopeKey, budget));
+
+  const prompts = plans.flatMap((plan) => plan.prompts);
+  if (prompts.length > 0 && options.confirmSend && !(await options.confirmSend(prompts))) return null;
+
+  const sections: string[] = [];
+
+  // One period at a time to stay friendly with provider rate limits
+  for (const plan of plans) {
+    const cached = plan.cachedSummary !== undefined;
+    const summary = plan.cachedSummary ?? (await summarizePeriod(plan, granularity));
+    if (cached) {
+      result.summariesCached++;
+    } else {
+      result.summariesGenerated++;
+    }
+    sections.push(`### ${formatPeriodLabel(plan.period, granularity)}\n${summary.trim()}`);
+    options.onProgress?.({
+      done: result.summariesCached + result.summariesGenerated,
+      total: periods.length,
+      cached: result.summariesCached,
+    });
+  }
+
+  result.citations = {};
+  for (const period of periods) {
+    for (const entry of period.entries) {
+      const citation = createEntryCitation(entry);
+      result.citations[citation.ref] = citation;
+    }
+    for (const pr of period.prs) {
+      const citation = createPRCitation(pr);
+      result.citations[citation.ref] = citation;
+    }
+  }
+
+  console.log(
+    `WorthKeeping: Summarized ${periods.length} periods (${result.summariesCached} cached, ${result.summariesGenerated} new)`
+  );
+
+  // The question is answered over the summaries with the selected template
+  const periodName = granularity === 'month' ? 'monthly' : 'weekly';
+  result.prompt = renderReviewPrompt(options.template ?? (await getSelectedTemplate()), {
+    question,
+    timeRange: formatTimeRange(timeRange),
+    sources: `${periodName} summaries of my work log${prs.length > 0 ? ' and GitHub Pull Requests' : ''}`,
+    entries: `## ${granularity === 'month' ? 'Monthly' : 'Weekly'} Summaries (oldest first):\n${sections.join('\n\n')}`,
+    prs: '',
+  });
+
+  return result;
+}
+
+// Drop every cached summary (e.g. after clearing data)
+export async function clearSummaryCache(): Promise<void> {
+  await db.periodSummaries.clear();
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { CITATION_INSTRUCTIONS } from './citations';
+import { renderReviewPrompt, renderTemplate, validateTemplate, type PromptTemplate } from './templates';
+
+const variables = {
+  question: 'What did I ship?',
+  timeRange: 'the past month',
+  sources: 'work log entries',
+  entries: '## My Work Log Entries:\n- [E-1a2b3c] Shipped the importer',
+  prs: '## My GitHub Pull Requests:\n- [P-4d5e6f] Rewrite the parser',
+};
+
+function customTemplate(body: string): PromptTemplate {
+  return { id: 'custom-1', name: 'Custom', body, quickPrompts: [] };
+}
+
+describe('renderTemplate', () => {
+  it('keeps blank lines inside the values', () => {
+    const entries = '- First line\n\n\n\n- After a gap';
+
+    expect(renderTemplate('Data:\n{{entries}}', { entries })).toBe(`Data:\n${entries}`);
+  });
+
+  it('drops the lines of empty variables and sections', () => {
+    const body = 'Intro\n\n{{#if prs}}PRs follow{{/if}}\n\n{{prs}}\n\n{{entries}}';
+
+    expect(renderTemplate(body, { entries: 'Entries' })).toBe('Intro\n\nEntries');
+  });
+});
+
+describe('renderReviewPrompt', () => {
+  it('adds the question, PRs and citation rules a custom template leaves out', () => {
+    const prompt = renderReviewPrompt(customTemplate('Write my review.\n\n{{entries}}'), variables);
+
+    expect(prompt).toBe(
+      `Question: "What did I ship?"\n\nWrite my review.\n\n${variables.entries}\n\n${variables.prs}\n\n${CITATION_INSTRUCTIONS}`
+    );
+  });
+
+  it('leaves a template that places every section alone', () => {
+    const body = '{{citations}}\n\n{{prs}}\n\n{{entries}}\n\nQ: {{question}}';
+
+    expect(renderReviewPrompt(customTemplate(body), variables)).toBe(
+      `${CITATION_INSTRUCTIONS}\n\n${variables.prs}\n\n${variables.entries}\n\nQ: What did I ship?`
+    );
+  });
+});
+
+describe('validateTemplate', () => {
+  it('requires {{entries}} and known variables', () => {
+    expect(() => validateTemplate({ name: 'Custom', body: 'No data' })).toThrow('{{entries}}');
+    expect(() => validateTemplate({ name: 'Custom', body: '{{entries}} {{nope}}' })).toThrow('Unknown variable');
+    expect(() => validateTemplate({ name: 'Custom', body: '{{entries}}' })).not.toThrow();
+  });
+});
@@ -0,0 +1,439 @@
+import { getSetting, setSetting, generateId } from './db';
+import { CITATION_INSTRUCTIONS } from './citations';
+
+// Prompt templates for reviews. A template is the instruction text around
+// the user's data, with {{variables}} filled in when the prompt is built and
+// {{#if name}}...{{else}}...{{/if}} sections kept only when a variable has a
+// value. Built-in templates ship with the extension; custom ones are stored
+// as JSON in settings (so they go into backups) and can be exported/imported.
+
+const CUSTOM_TEMPLATES_KEY = 'prompt_templates';
+const SELECTED_TEMPLATE_KEY = 'review_template';
+
+export const TEMPLATES_FORMAT = 'worthkeeping-templates';
+export const TEMPLATES_VERSION = 1;
+
+// Variables available in template bodies
+export const TEMPLATE_VARIABLES = {
+  question: 'The question asked in Review - added at the start if left out',
+  entries: 'Work log entries (or period summaries), with a heading',
+  prs: 'GitHub pull requests, with a heading - empty when PRs are off, added at the end if left out',
+  timeRange: 'The time range being reviewed, e.g. "this quarter"',
+  sources: 'What the data is, e.g. "work log entries and GitHub Pull Requests"',
+  citations: 'Instructions for citing entries and PRs - added at the end if left out',
+} as const;
+
+export type TemplateVariable = keyof typeof TEMPLATE_VARIABLES;
+
+export interface QuickPrompt {
+  label: string;
+  question: string;
+}
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  description?: string;
+  body: string;
+  quickPrompts: QuickPrompt[]; // Chips shown under the chat when this template is selected
+  builtIn?: boolean;
+}
+
+export interface TemplatesFile {
+  format: typeof TEMPLATES_FORMAT;
+  version: number;
+  templates: PromptTemplate[];
+}
+
+const RESPONSE_FORMATTING = `**Formatting:**
+- Use markdown formatting with clear headers (##) to organize sections
+- Use bullet points (- ) for listing accomplishments, skills, and action items
+- Bold (**text**) key achievements, metrics, and outcomes
+- Keep each bullet point specific and evidence-based`;
+
+const DATA_SECTIONS = `{{entries}}
+
+{{prs}}`;
+
+export const DEFAULT_TEMPLATE_ID = 'builtin:standard';
+
+export const BUILT_IN_TEMPLATES: PromptTemplate[] = [
+  {
+    id: DEFAULT_TEMPLATE_ID,
+    name: 'Standard review',
+    description: 'Accomplishments, skills and impact for any review form',
+    builtIn: true,
+    quickPrompts: [
+      { label: 'Accomplishments', question: 'What were my key accomplishments?' },
+      { label: 'Challenges', question: 'What challenges did I overcome?' },
+      { label: 'Learnings', question: 'What did I learn?' },
+      { label: 'Impact', question: 'What impact did my work have?' },
+      { label: 'Summary', question: 'Give me a summary of my work' },
+    ],
+    body: `You are a performance review writing assistant. Help me articulate my accomplishments for a performance review based on my {{sources}} from {{timeRange}}.
+
+Question: "{{question}}"
+
+## Response Guidelines:
+
+${RESPONSE_FORMATTING}
+
+**Content Style:**
+- Write in professional, performance-review-ready language
+- Highlight specific achievements with quantifiable results when available
+- Connect accomplishments to business impact where evident
+- Group related work into themes (e.g., "Technical Contributions", "Collaboration", "Process Improvements")
+- Include specific examples from the entries to support each point
+{{#if prs}}- Reference specific PRs and their impact when relevant
+- Use lines changed metrics to demonstrate scope of work
+{{/if}}
+**Structure your response with relevant sections like:**
+- Key Accomplishments
+- Skills Demonstrated
+- Areas of Impact
+- Growth & Development (if applicable)
+
+**Important:**
+- Only reference work that appears in my data - do not invent details
+- If entries lack specifics, acknowledge what was done at a high level
+- Transform raw notes into polished, review-ready statements
+
+{{citations}}
+
+${DATA_SECTIONS}`,
+  },
+  {
+    id: 'builtin:impact-leadership',
+    name: 'Impact & leadership',
+    description: 'Impact, leadership, execution and collaboration sections',
+    builtIn: true,
+    quickPrompts: [
+      { label: 'Impact', question: 'What was the impact of my work on the team and the business?' },
+      { label: 'Leadership', question: 'Where did I show leadership and influence beyond my own work?' },
+      { label: 'Self-review', question: 'Draft my self-review' },
+      { label: 'Peer feedback', question: 'What could my peers say about working with me?' },
+    ],
+    body: `You are helping me write a self-review for a review process that rates impact and leadership. Use my {{sources}} from {{timeRange}}.
+
+Question: "{{question}}"
+
+## Response Guidelines:
+
+${RESPONSE_FORMATTING}
+
+**Organize the answer under these headings (skip any with no evidence):**
+- Impact - outcomes for users, the team or the business, and how big they were
+- Leadership - driving decisions, unblocking others, mentoring, setting direction
+- Execution - delivering complex or ambiguous work reliably
+- Collaboration - working across teams and functions
+
+**Important:**
+- Lead each bullet with the outcome, then how I got there
+- Prefer concrete scope (systems, teams, users affected) over adjectives
+{{#if prs}}- Use PRs as evidence of execution, not as the achievement itself
+{{/if}}- Only reference work that appears in my data - do not invent details
+
+{{citations}}
+
+${DATA_SECTIONS}`,
+  },
+  {
+    id: 'builtin:star',
+    name: 'STAR stories',
+    description: 'Situation, Task, Action, Result stories for reviews and interviews',
+    builtIn: true,
+    quickPrompts: [
+      { label: 'Top stories', question: 'Write my 3 strongest STAR stories' },
+      { label: 'Conflict', question: 'Write a STAR story about handling disagreement or conflict' },
+      { label: 'Failure', question: 'Write a STAR story about a setback and what I learned' },
+    ],
+    body: `You are helping me turn my {{sources}} from {{timeRange}} into STAR stories.
+
+Question: "{{question}}"
+
+## Response Guidelines:
+- Write each story with a ## heading naming it, then four bolded parts:
+  **Situation** (context), **Task** (my responsibility), **Action** (what I did - first person, specific), **Result** (outcome, with numbers when the data has them)
+- Build each story from several related items where possible
+- Keep each part to 1-3 sentences
+- Only use facts that appear in my data - if a part is missing (e.g. no measurable result), say so instead of inventing one
+
+{{citations}}
+
+${DATA_SECTIONS}`,
+  },
+  {
+    id: 'builtin:promo-packet',
+    name: 'Promotion packet',
+    description: 'Evidence that you are working at the next level',
+    builtIn: true,
+    quickPrompts: [
+      { label: 'Promo case', question: 'Make the case that I am operating at the next level' },
+      { label: 'Scope', question: 'How has the scope and complexity of my work grown?' },
+      { label: 'Gaps', question: 'Where is the evidence for promotion thin?' },
+    ],
+    body: `You are helping me prepare a promotion packet from my {{sources}} from {{timeRange}}.
+
+Question: "{{question}}"
+
+## Response Guidelines:
+
+${RESPONSE_FORMATTING}
+
+**Cover, with evidence for each:**
+- Scope - the size and ambiguity of problems I owned, and how that changed over time
+- Technical complexity and quality of the work
+- Influence - decisions I drove, people I mentored, teams I worked across
+- Consistency - sustained results, not one-off wins
+
+**Important:**
+- Write for a promotion committee that doesn't know my team - explain why each item matters
+- Call out where evidence is thin so I can fill the gaps
+- Only reference work that appears in my data - do not invent details
+
+{{citations}}
+
+${DATA_SECTIONS}`,
+  },
+];
+
+// Matches {{#if name}}...{{/if}} with an optional {{else}} - not nestable
+const CONDITIONAL_PATTERN = /\{\{#if (\w+)\}\}([\s\S]*?)(?:\{\{else\}\}([\s\S]*?))?\{\{\/if\}\}/g;
+const VARIABLE_PATTERN = /\{\{(\w+)\}\}/g;
+
+function isTemplateVariable(name: string): name is TemplateVariable {
+  return Object.prototype.hasOwnProperty.call(TEMPLATE_VARIABLES, name);
+}
+
+// Fill in a template body. Unknown variables render as empty text. Blank
+// lines are tidied in the template only - the values go in as they are.
+export function renderTemplate(body: string, variables: Partial<Record<TemplateVariable, string>>): string {
+  const valueOf = (name: string) => (isTemplateVariable(name) ? (variables[name] ?? '') : '');
+
+  return body
+    .replace(CONDITIONAL_PATTERN, (_, name: string, then: string, otherwise?: string) =>
+      valueOf(name).trim() ? then : (otherwise ?? '')
+    )
+    .replace(/^[ \t]*\{\{(\w+)\}\}[ \t]*$/gm, (line, name: string) => (valueOf(name).trim() ? line : ''))
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+    .replace(VARIABLE_PATTERN, (_, name: string) => valueOf(name));
+}
+
+// Review prompt from a template. The question, the PRs and the citation rules
+// are always part of the prompt, even when a custom template leaves them out.
+export function renderReviewPrompt(
+  template: PromptTemplate,
+  variables: Omit<Record<TemplateVariable, string>, 'citations'>
+): string {
+  let body = template.body;
+  if (!body.includes('{{question}}')) body = `Question: "{{question}}"\n\n${body}`;
+  if (!body.includes('{{prs}}')) body += '\n\n{{prs}}';
+  if (!body.includes('{{citations}}')) body += '\n\n{{citations}}';
+  return renderTemplate(body, { ...variables, citations: CITATION_INSTRUCTIONS });
+}
+
+export function formatTimeRange(timeRange: 'week' | 'month' | 'quarter' | 'year' | 'all'): string {
+  switch (timeRange) {
+    case 'week':
+      return 'the past week';
+    case 'month':
+      return 'the past month';
+    case 'quarter':
+      return 'the past quarter';
+    case 'year':
+      return 'the past year';
+    case 'all':
+      return 'all time';
+  }
+}
+
+// Throws with a readable message if a template can't be used
+export function validateTemplate(template: Pick<PromptTemplate, 'name' | 'body'>): void {
+  if (!template.name.trim()) {
+    throw new Error('Template name cannot be empty');
+  }
+  if (!template.body.includes('{{entries}}')) {
+    throw new Error('Template must include {{entries}} so your work log is sent');
+  }
+
+  const withoutConditionals = template.body.replace(CONDITIONAL_PATTERN, (_, name: string, then: string, otherwise = '') => {
+    if (!isTemplateVariable(name)) {
+      throw new Error(`Unknown variable in {{#if ${name}}}`);
+    }
+    return then + otherwise;
+  });
+
+  if (/\{\{(#if|else|\/if)\b/.test(withoutConditionals)) {
+    throw new Error('Template has an {{#if}} without a matching {{/if}} (they cannot be nested)');
+  }
+
+  for (const [, name] of withoutConditionals.matchAll(VARIABLE_PATTERN)) {
+    if (!isTemplateVariable(name)) {
+      throw new Error(`Unknown variable {{${name}}}. Available: ${Object.keys(TEMPLATE_VARIABLES).map((v) => `{{${v}}}`).join(', ')}`);
+    }
+  }
+}
+
+function isQuickPromptArray(value: unknown): value is QuickPrompt[] {
+  return (
+    Array.isArray(value) &&
+    value.every(
+      (p) => typeof p === 'object' && p !== null && typeof p.label === 'string' && typeof p.question === 'string'
+    )
+  );
+}
+
+export async function getCustomTemplates(): Promise<PromptTemplate[]> {
+  const value = await getSetting(CUSTOM_TEMPLATES_KEY);
+  if (!value) return [];
+
+  try {
+    const templates = JSON.parse(value);
+    return Array.isArray(templates) ? templates : [];
+  } catch {
+    console.error('WorthKeeping: Stored prompt templates are not valid JSON');
+    return [];
+  }
+}
+
+async function setCustomTemplates(templates: PromptTemplate[]): Promise<void> {
+  await setSetting(CUSTOM_TEMPLATES_KEY, JSON.stringify(templates));
+}
+
+// Built-ins first, then custom templates
+export async function getPromptTemplates(): Promise<PromptTemplate[]> {
+  return [...BUILT_IN_TEMPLATES, ...(await getCustomTemplates())];
+}
+
+// Create or update a custom template
+export async function saveCustomTemplate(
+  template: Omit<PromptTemplate, 'id' | 'builtIn'> & { id?: string }
+): Promise<PromptTemplate> {
+  validateTemplate(template);
+
+  const saved: PromptTemplate = {
+    id: template.id ?? `custom:${generateId()}`,
+    name: template.name.trim(),
+    description: template.description?.trim() || undefined,
+    body: template.body,
+    quickPrompts: template.quickPrompts,
+  };
+
+  if (BUILT_IN_TEMPLATES.some((t) => t.id === saved.id)) {
+    throw new Error('Built-in templates cannot be changed - duplicate it instead');
+  }
+
+  const templates = await getCustomTemplates();
+  const index = templates.findIndex((t) => t.id === saved.id);
+  if (index >= 0) {
+    templates[index] = saved;
+  } else {
+    templates.push(saved);
+  }
+  await setCustomTemplates(templates);
+  return saved;
+}
+
+export async function deleteCustomTemplate(id: string): Promise<void> {
+  await setCustomTemplates((await getCustomTemplates()).filter((t) => t.id !== id));
+  if ((await getSetting(SELECTED_TEMPLATE_KEY)) === id) {
+    await setSetting(SELECTED_TEMPLATE_KEY, DEFAULT_TEMPLATE_ID);
+  }
+}
+
+// Selected template, falling back to the default if it was deleted
+export async function getSelectedTemplate(): Promise<PromptTemplate> {
+  const id = await getSetting(SELECTED_TEMPLATE_KEY);
+  const templates = await getPromptTemplates();
+  return templates.find((t) => t.id === id) ?? BUILT_IN_TEMPLATES[0];
+}
+
+export async function setSelectedTemplate(id: string): Promise<void> {
+  if (!(await getPromptTemplates()).some((t) => t.id === id)) {
+    throw new Error(`Unknown prompt template: ${id}`);
+  }
+  await setSetting(SELECTED_TEMPLATE_KEY, id);
+}
+
+// Custom templates as a shareable JSON file
+export async function exportTemplates(): Promise<string> {
+  const file: TemplatesFile = {
+    format: TEMPLATES_FORMAT,
+    version: TEMPLATES_VERSION,
+    templates: await getCustomTemplates(),
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+// Import templates from an export file. Templates with the same id are
+// replaced; ids that clash with built-ins get a new id. Returns how many were imported.
+export async function importTemplates(json: string): Promise<number> {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Templates file is not valid JSON');
+  }
+
+  const file = data as TemplatesFile;
+  if (typeof data !== 'object' || data === null || file.format !== TEMPLATES_FORMAT || !Array.isArray(file.templates)) {
+    throw new Error('Not a WorthKeeping templates file');
+  }
+  if (typeof file.version !== 'number' || file.version > TEMPLATES_VERSION) {
+    throw new Error(`Unsupported templates file version ${file.version}. Please update WorthKeeping.`);
+  }
+
+  const templates = await getCustomTemplates();
+
+  for (const raw of file.templates) {
+    if (typeof raw?.name !== 'string' || typeof raw.body !== 'string') {
+      throw new Error('Templates file contains a malformed template');
+    }
+    try {
+      validateTemplate(raw);
+    } catch (err) {
+      throw new Error(`Template "${raw.name}": ${err instanceof Error ? err.message : err}`);
+    }
+
+    const id =
+      typeof raw.id === 'string' && !BUILT_IN_TEMPLATES.some((t) => t.id === raw.id) ? raw.id : `custom:${generateId()}`;
+    const template: PromptTemplate = {
+      id,
+      name: raw.name.trim(),
+      description: typeof raw.description === 'string' ? raw.description : undefined,
+      body: raw.body,
+      quickPrompts: isQuickPromptArray(raw.quickPrompts) ? raw.quickPrompts : [],
+    };
+
+    const index = templates.findIndex((t) => t.id === id);
+    if (index >= 0) {
+      templates[index] = template;
+    } else {
+      templates.push(template);
+    }
+  }
+
+  await setCustomTemplates(templates);
+  return file.templates.length;
+}
+
+// "Label: question" per line, for editing quick prompts as text
+export function parseQuickPrompts(text: string): QuickPrompt[] {
+  return text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const separator = line.indexOf(':');
+      if (separator <= 0) {
+        return { label: line.length > 24 ? line.slice(0, 24) + '…' : line, question: line };
+      }
+      return { label: line.slice(0, separator).trim(), question: line.slice(separator + 1).trim() };
+    })
+    .filter((p) => p.question);
+}
+
+export function formatQuickPrompts(prompts: QuickPrompt[]): string {
+  return prompts.map((p) => `${p.label}: ${p.question}`).join('\n');
+}
@@ -0,0 +1,252 @@
+import { db, generateId, getSetting, setSetting, deleteSetting, type AIUsageRecord } from './db';
+import { estimateTokens } from './context';
+import type { AIProvider } from './ai';
+
+// Token and cost accounting for AI calls. Every successful call records the
+// tokens the provider reported, with the provider, model and the feature that
+// made it. Costs are worked out from an editable price table when read, so
+// fixing a price also fixes past totals. An optional monthly budget blocks
+// calls once this month's cost reaches it.
+
+const PRICES_KEY = 'ai_prices';
+const MONTHLY_BUDGET_KEY = 'ai_monthly_budget';
+
+// Prompts above this size get a cost estimate before they are sent
+export const LARGE_PROMPT_TOKENS = 20000;
+
+// Upper bound on an answer - every AI call in lib/ai.ts is capped at this
+export const MAX_OUTPUT_TOKENS = 2000;
+
+// What a call was made for
+export type AIFeature = 'review' | 'summary' | 'stories' | 'competencies' | 'enrichment' | 'digest' | 'other';
+
+export const FEATURE_NAMES: Record<AIFeature, string> = {
+  review: 'Review chat',
+  summary: 'Period summaries',
+  stories: 'STAR stories',
+  competencies: 'Competency mapping',
+  enrichment: 'Entry suggestions',
+  digest: 'Digests',
+  other: 'Other',
+};
+
+// US dollars per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+const FREE_PROVIDERS: AIProvider[] = ['ollama', 'browser'];
+const FREE: ModelPrice = { input: 0, output: 0 };
+
+// List prices at the time of writing - edit them in Settings when they change
+export const DEFAULT_PRICES: PriceTable = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'claude-3-5-haiku-latest': { input: 0.8, output: 4 },
+  'claude-3-5-sonnet-latest': { input: 3, output: 15 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3 },
+  'gemini-1.5-pro': { input: 1.25, output: 5 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+};
+
+export interface UsagePeriod {
+  key: string; // "2026-10-19" or "2026-10"
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+  unpriced: number; // Calls whose model has no price
+}
+
+export interface UsageSummary {
+  days: UsagePeriod[]; // Last 30 days, newest first, days without calls left out
+  months: UsagePeriod[]; // Newest first
+  features: Array<UsagePeriod & { feature: AIFeature }>; // This month, by feature
+  thisMonth: UsagePeriod;
+  budget: number | null;
+}
+
+export interface CostEstimate {
+  model: string;
+  inputTokens: number;
+  maxCost: number | null; // Input plus the longest possible answer; null if the model has no price
+}
+
+// The call would go over the monthly budget
+export class AIBudgetError extends Error {
+  constructor(spent: number, budget: number) {
+    super(
+      `Monthly AI budget reached (${formatCost(spent)} of ${formatCost(budget)}). Raise or remove the budget in Settings to keep going.`
+    );
+    this.name = 'AIBudgetError';
+  }
+}
+
+export function formatCost(cost: number): string {
+  return cost > 0 && cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
+
+export async function getPriceTable(): Promise<PriceTable> {
+  const value = await getSetting(PRICES_KEY);
+  if (!value) return { ...DEFAULT_PRICES };
+
+  try {
+    return JSON.parse(value);
+  } catch {
+    console.error('WorthKeeping: Stored AI prices are not valid JSON');
+    return { ...DEFAULT_PRICES };
+  }
+}
+
+export async function savePriceTable(prices: PriceTable): Promise<void> {
+  for (const [model, price] of Object.entries(prices)) {
+    if (!model.trim()) throw new Error('Every price needs a model name');
+    if (!(price.input >= 0) || !(price.output >= 0)) {
+      throw new Error(`Prices for ${model} must be zero or more`);
+    }
+  }
+  await setSetting(PRICES_KEY, JSON.stringify(prices));
+}
+
+export async function resetPriceTable(): Promise<void> {
+  await deleteSetting(PRICES_KEY);
+}
+
+// Exact model name first, then the longest listed name it starts with
+// (so "claude-3-5-haiku-20241022" uses the "claude-3-5-haiku" price)
+export function findModelPrice(prices: PriceTable, model: string): ModelPrice | null {
+  if (prices[model]) return prices[model];
+  const prefix = Object.keys(prices)
+    .filter((name) => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? prices[prefix] : null;
+}
+
+function getCost(price: ModelPrice, inputTokens: number, outputTokens: number): number {
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
+
+export async function getMonthlyBudget(): Promise<number | null> {
+  const value = await getSetting(MONTHLY_BUDGET_KEY);
+  const budget = value ? parseFloat(value) : NaN;
+  return budget > 0 ? budget : null;
+}
+
+// Pass null to remove the budget
+export async function setMonthlyBudget(budget: number | null): Promise<void> {
+  if (budget === null) {
+    await deleteSetting(MONTHLY_BUDGET_KEY);
+    return;
+  }
+  if (!(budget > 0)) throw new Error('Budget must be more than $0');
+  await setSetting(MONTHLY_BUDGET_KEY, String(budget));
+}
+
+export async function recordUsage(record: Omit<AIUsageRecord, 'id' | 'timestamp'>): Promise<void> {
+  await db.aiUsage.add({ id: generateId(), timestamp: Date.now(), ...record });
+}
+
+function getMonthStart(date = new Date()): number {
+  return new Date(date.getFullYear(), date.getMonth(), 1).getTime();
+}
+
+function toPeriodKey(timestamp: number, granularity: 'day' | 'month'): string {
+  const date = new Date(timestamp);
+  const month = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+  return granularity === 'month' ? month : `${month}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+function emptyPeriod(key: string): UsagePeriod {
+  return { key, calls: 0, inputTokens: 0, outputTokens: 0, cost: 0, unpriced: 0 };
+}
+
+function addToPeriod(period: UsagePeriod, record: AIUsageRecord, prices: PriceTable): void {
+  // Local models cost nothing
+  const price = FREE_PROVIDERS.includes(record.provider) ? FREE : findModelPrice(prices, record.model);
+  period.calls++;
+  period.inputTokens += record.inputTokens;
+  period.outputTokens += record.outputTokens;
+  if (price) {
+    period.cost += getCost(price, record.inputTokens, record.outputTokens);
+  } else {
+    period.unpriced++;
+  }
+}
+
+// Cost of everything since the start of this month
+async function getMonthToDate(prices: PriceTable): Promise<UsagePeriod> {
+  const period = emptyPeriod(toPeriodKey(Date.now(), 'month'));
+  const records = await db.aiUsage.where('timestamp').aboveOrEqual(getMonthStart()).toArray();
+  for (const record of records) addToPeriod(period, record, prices);
+  return period;
+}
+
+// Throws AIBudgetError once this month's cost has reached the budget
+export async function assertWithinBudget(): Promise<void> {
+  const budget = await getMonthlyBudget();
+  if (budget === null) return;
+
+  const { cost } = await getMonthToDate(await getPriceTable());
+  if (cost >= budget) throw new AIBudgetError(cost, budget);
+}
+
+export async function getUsageSummary(): Promise<UsageSummary> {
+  const prices = await getPriceTable();
+  const records = await db.aiUsage.orderBy('timestamp').reverse().toArray();
+  const dayCutoff = Date.now() - 30 * 24 * 60 * 60 * 1000;
+  const monthStart = getMonthStart();
+
+  const days = new Map<string, UsagePeriod>();
+  const months = new Map<string, UsagePeriod>();
+  const features = new Map<AIFeature, UsagePeriod & { feature: AIFeature }>();
+
+  for (const record of records) {
+    const month = toPeriodKey(record.timestamp, 'month');
+    if (!months.has(month)) months.set(month, emptyPeriod(month));
+    addToPeriod(months.get(month)!, record, prices);
+
+    if (record.timestamp >= dayCutoff) {
+      const day = toPeriodKey(record.timestamp, 'day');
+      if (!days.has(day)) days.set(day, emptyPeriod(day));
+      addToPeriod(days.get(day)!, record, prices);
+    }
+
+    if (record.timestamp >= monthStart) {
+      if (!features.has(record.feature)) {
+        features.set(record.feature, { ...emptyPeriod(record.feature), feature: record.feature });
+      }
+      addToPeriod(features.get(record.feature)!, record, prices);
+    }
+  }
+
+  const thisMonth = toPeriodKey(Date.now(), 'month');
+  return {
+    days: [...days.values()],
+    months: [...months.values()],
+    features: [...features.values()].sort((a, b) => b.cost - a.cost),
+    thisMonth: months.get(thisMonth) ?? emptyPeriod(thisMonth),
+    budget: await getMonthlyBudget(),
+  };
+}
+
+export async function clearUsage(): Promise<void> {
+  await db.aiUsage.clear();
+}
+
+// Rough cost of sending prompts to a model, before they are sent. Each one
+// is a separate call with its own answer.
+export async function estimatePromptCost(prompts: string[], model: string): Promise<CostEstimate> {
+  const inputTokens = prompts.reduce((sum, prompt) => sum + estimateTokens(prompt, model), 0);
+  const price = findModelPrice(await getPriceTable(), model);
+  return {
+    model,
+    inputTokens,
+    maxCost: price ? getCost(price, inputTokens, MAX_OUTPUT_TOKENS * prompts.length) : null,
+  };
+}
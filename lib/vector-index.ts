@@ -0,0 +1,276 @@
+import { db, type MemoryEntry, type VectorIndexMeta, getEntriesWithEmbeddings } from './db';
+import { enqueueJob } from './jobs';
+
+// Inverted-file (IVF) approximate nearest-neighbour index.
+// Embeddings are clustered with k-means; each entry is assigned to its
+// nearest centroid. A search only scores entries in the few clusters closest
+// to the query instead of the whole history. Below MIN_INDEX_SIZE vectors the
+// exact brute-force scan is fast enough and is used instead.
+
+export const MIN_INDEX_SIZE = 500;
+
+// Rebuild once the index has grown this much since it was trained
+const REBUILD_GROWTH_FACTOR = 2;
+
+const MAX_LISTS = 256;
+const MAX_TRAINING_VECTORS = 4096;
+const KMEANS_ITERATIONS = 8;
+
+export interface VectorIndexStatus {
+  model: string;
+  lists: number;
+  size: number;
+  trainedAt: number;
+}
+
+export interface BenchmarkResult {
+  queries: number;
+  k: number;
+  recall: number; // Fraction of exact top-k also returned by the index
+  exactMs: number; // Average latency per query
+  indexMs: number;
+  candidates: number; // Average entries scored per indexed query
+  corpusSize: number;
+}
+
+// Vectors are normalized, so the dot product is the cosine similarity
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(dot(vector, vector)) || 1;
+  return vector.map((v) => v / norm);
+}
+
+function nearestList(centroids: number[][], vector: number[]): number {
+  let best = 0;
+  let bestScore = -Infinity;
+  for (let i = 0; i < centroids.length; i++) {
+    const score = dot(centroids[i], vector);
+    if (score > bestScore) {
+      bestScore = score;
+      best = i;
+    }
+  }
+  return best;
+}
+
+// Clusters to scan per query - more lists means better recall but more work
+function getProbeCount(lists: number): number {
+  return Math.min(lists, Math.max(4, Math.ceil(lists / 10)));
+}
+
+function sample<T>(items: T[], count: number): T[] {
+  if (items.length <= count) return items;
+  const copy = [...items];
+  for (let i = 0; i < count; i++) {
+    const j = i + Math.floor(Math.random() * (copy.length - i));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy.slice(0, count);
+}
+
+// Spherical k-means over a training sample
+function trainCentroids(vectors: number[][], lists: number): number[][] {
+  const training = sample(vectors, MAX_TRAINING_VECTORS);
+  let centroids = sample(training, lists).map((v) => [...v]);
+
+  for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+    const sums = centroids.map((c) => new Array<number>(c.length).fill(0));
+    const counts = new Array<number>(centroids.length).fill(0);
+
+    for (const vector of training) {
+      const list = nearestList(centroids, vector);
+      counts[list]++;
+      for (let d = 0; d < vector.length; d++) {
+        sums[list][d] += vector[d];
+      }
+    }
+
+    // Empty clusters get re-seeded from a random vector
+    centroids = sums.map((sum, i) =>
+      counts[i] > 0 ? normalize(sum) : [...training[Math.floor(Math.random() * training.length)]]
+    );
+  }
+
+  return centroids;
+}
+
+// Get the trained index for a model, if there is one
+export async function getVectorIndex(model: string): Promise<VectorIndexMeta | undefined> {
+  return db.vectorIndexes.get(model);
+}
+
+// Vectors assigned to a model's index. Trashed entries stay in until they're
+// purged, so they come back with their entry on restore.
+function countAssigned(model: string): Promise<number> {
+  return db.vectorAssignments.where('[model+list]').between([model, -Infinity], [model, Infinity]).count();
+}
+
+export async function getVectorIndexStatus(model: string): Promise<VectorIndexStatus | null> {
+  const meta = await getVectorIndex(model);
+  if (!meta) return null;
+  return { model, lists: meta.centroids.length, size: await countAssigned(model), trainedAt: meta.trainedAt };
+}
+
+// Queue a (re)build in the background job runner
+export async function requestVectorIndexBuild(model: string): Promise<void> {
+  await enqueueJob('build-vector-index', model, { model });
+}
+
+// Train the index from scratch for every entry embedded with this model.
+// Drops the index if the corpus is too small to benefit from one.
+export async function buildVectorIndex(model: string): Promise<void> {
+  const entries = await getEntriesWithEmbeddings(model);
+
+  if (entries.length < MIN_INDEX_SIZE) {
+    await clearVectorIndex(model);
+    return;
+  }
+
+  const started = Date.now();
+  const lists = Math.min(MAX_LISTS, Math.round(Math.sqrt(entries.length)));
+  const centroids = trainCentroids(
+    entries.map((e) => e.embedding!),
+    lists
+  );
+
+  await db.transaction('rw', db.vectorIndexes, db.vectorAssignments, async () => {
+    await db.vectorAssignments.where('[model+list]').between([model, -Infinity], [model, Infinity]).delete();
+    await db.vectorAssignments.bulkPut(
+      entries.map((entry) => ({ entryId: entry.id, model, list: nearestList(centroids, entry.embedding!) }))
+    );
+    await db.vectorIndexes.put({
+      model,
+      centroids,
+      trainedSize: entries.length,
+      size: entries.length,
+      trainedAt: Date.now(),
+    });
+  });
+
+  console.log(
+    `WorthKeeping: Built vector index for ${model} (${entries.length} vectors, ${lists} lists) in ${Date.now() - started}ms`
+  );
+}
+
+// Remove a model's index - search falls back to the exact scan
+export async function clearVectorIndex(model?: string): Promise<void> {
+  await db.transaction('rw', db.vectorIndexes, db.vectorAssignments, async () => {
+    if (model) {
+      await db.vectorIndexes.delete(model);
+      await db.vectorAssignments.where('[model+list]').between([model, -Infinity], [model, Infinity]).delete();
+    } else {
+      await db.vectorIndexes.clear();
+      await db.vectorAssignments.clear();
+    }
+  });
+}
+
+// Add or move one entry after it's embedded. Queues a build when the
+// corpus first gets big enough, or a rebuild once it has grown a lot.
+export async function indexEntryVector(entryId: string, embedding: number[], model: string): Promise<void> {
+  const meta = await getVectorIndex(model);
+
+  if (!meta) {
+    // Cheap upper bound - the build job checks the real embedded count
+    if ((await db.entries.count()) >= MIN_INDEX_SIZE) {
+      await requestVectorIndexBuild(model);
+    }
+    return;
+  }
+
+  await db.vectorAssignments.put({ entryId, model, list: nearestList(meta.centroids, embedding) });
+
+  // Counted rather than incremented - edits re-add entries that are already in
+  const size = await countAssigned(model);
+  if (size !== meta.size) {
+    await db.vectorIndexes.update(model, { size });
+    if (size >= meta.trainedSize * REBUILD_GROWTH_FACTOR) {
+      await requestVectorIndexBuild(model);
+    }
+  }
+}
+
+// Candidate entries for a query: everything in the closest clusters.
+// Returns null when there is no index and the caller should scan everything.
+export async function getCandidateEntries(
+  queryEmbedding: number[],
+  model: string,
+  options?: { probes?: number }
+): Promise<MemoryEntry[] | null> {
+  const meta = await getVectorIndex(model);
+  if (!meta || meta.centroids[0]?.length !== queryEmbedding.length) return null;
+
+  const probes = options?.probes ?? getProbeCount(meta.centroids.length);
+  const closest = meta.centroids
+    .map((centroid, list) => ({ list, score: dot(centroid, queryEmbedding) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, probes)
+    .map((c) => [model, c.list]);
+
+  const ids = (await db.vectorAssignments.where('[model+list]').anyOf(closest).primaryKeys()) as string[];
+  const entries = await db.entries.bulkGet(ids);
+
+  return entries.filter(
+    (entry): entry is MemoryEntry => !!entry && !entry.deletedAt && !!entry.embedding && entry.embeddingModel === model
+  );
+}
+
+function topK(entries: MemoryEntry[], query: number[], k: number): string[] {
+  return entries
+    .map((entry) => ({ id: entry.id, score: dot(query, entry.embedding!) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, k)
+    .map((r) => r.id);
+}
+
+// Compare the index against the exact scan, using stored embeddings as queries
+export async function benchmarkVectorIndex(model: string, options?: { queries?: number; k?: number }): Promise<BenchmarkResult> {
+  const { queries = 50, k = 10 } = options ?? {};
+  const meta = await getVectorIndex(model);
+  if (!meta) {
+    throw new Error(`No vector index yet - it's built once ${MIN_INDEX_SIZE} entries are embedded`);
+  }
+
+  const corpus = await getEntriesWithEmbeddings(model);
+  const probes = sample(corpus, queries);
+
+  let exactMs = 0;
+  let indexMs = 0;
+  let candidateTotal = 0;
+  let hits = 0;
+
+  for (const probe of probes) {
+    const query = probe.embedding!;
+
+    // Exact path includes loading the corpus, as semantic search does
+    let start = performance.now();
+    const exact = topK(await getEntriesWithEmbeddings(model), query, k);
+    exactMs += performance.now() - start;
+
+    start = performance.now();
+    const candidates = (await getCandidateEntries(query, model)) ?? [];
+    const approximate = new Set(topK(candidates, query, k));
+    indexMs += performance.now() - start;
+
+    candidateTotal += candidates.length;
+    hits += exact.filter((id) => approximate.has(id)).length;
+  }
+
+  const count = probes.length || 1;
+  return {
+    queries: probes.length,
+    k,
+    recall: hits / (count * k),
+    exactMs: exactMs / count,
+    indexMs: indexMs / count,
+    candidates: Math.round(candidateTotal / count),
+    corpusSize: corpus.length,
+  };
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { parseYAML } from './yaml';
+
+describe('parseYAML', () => {
+  it('reads nested mappings and sequences', () => {
+    const yaml = `name: Engineering
+levels: [L3, L4]
+competencies:
+  - id: delivery
+    description: Ships work end to end # owns the whole change
+`;
+    expect(parseYAML(yaml)).toEqual({
+      name: 'Engineering',
+      levels: ['L3', 'L4'],
+      competencies: [{ id: 'delivery', description: 'Ships work end to end' }],
+    });
+  });
+
+  it('accepts keys named like Object.prototype members', () => {
+    const value = parseYAML('constructor: builds things\ntoString: text\nhasOwnProperty: yes\n__proto__: x\n');
+    expect(Object.keys(value)).toEqual(['constructor', 'toString', 'hasOwnProperty', '__proto__']);
+    expect((value as Record<string, string>).constructor).toBe('builds things');
+  });
+
+  it('still rejects duplicate keys', () => {
+    expect(() => parseYAML('constructor: a\nconstructor: b\n')).toThrow('YAML line 2: Duplicate key "constructor"');
+  });
+});
@@ -0,0 +1,222 @@
+// Minimal YAML reader for hand-written config files like competency rubrics.
+// Supports block mappings and sequences ("- item", "- key: value"), plain and
+// quoted scalars, flow lists of scalars ("[a, b]"), literal and folded block
+// scalars ("|" / ">") and comments. Anchors, tags, flow mappings and multiple
+// documents are not supported. Scalars are always returned as strings.
+
+export type YAMLValue = string | YAMLValue[] | { [key: string]: YAMLValue };
+
+interface ParserState {
+  lines: string[];
+  pos: number;
+}
+
+function yamlError(state: ParserState, message: string): Error {
+  return new Error(`YAML line ${state.pos + 1}: ${message}`);
+}
+
+function isBlank(line: string): boolean {
+  const trimmed = line.trim();
+  return trimmed === '' || trimmed.startsWith('#');
+}
+
+function skipBlank(state: ParserState): void {
+  while (state.pos < state.lines.length && isBlank(state.lines[state.pos])) state.pos++;
+}
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+function isSequenceItem(content: string): boolean {
+  return content === '-' || content.startsWith('- ');
+}
+
+// Drop a trailing " # comment" that isn't inside quotes
+function stripComment(text: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\' && quote === '"') i++;
+      else if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i).trimEnd();
+    }
+  }
+  return text;
+}
+
+function unquote(text: string): string {
+  if (text.length >= 2 && text.startsWith('"') && text.endsWith('"')) {
+    return text
+      .slice(1, -1)
+      .replace(/\\(["\\/nt])/g, (_, c: string) => (c === 'n' ? '\n' : c === 't' ? '\t' : c));
+  }
+  if (text.length >= 2 && text.startsWith("'") && text.endsWith("'")) {
+    return text.slice(1, -1).replace(/''/g, "'");
+  }
+  return text;
+}
+
+// Split "a, 'b, c', d" on commas outside quotes
+function splitFlowList(text: string): string[] {
+  const items: string[] = [];
+  let quote: string | null = null;
+  let current = '';
+  for (const char of text) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === ',') {
+      items.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  if (current.trim()) items.push(current.trim());
+  return items;
+}
+
+function parseInline(state: ParserState, text: string): YAMLValue {
+  if (text.startsWith('[')) {
+    if (!text.endsWith(']')) throw yamlError(state, 'Unclosed flow list');
+    return splitFlowList(text.slice(1, -1)).map(unquote);
+  }
+  if (text.startsWith('{')) throw yamlError(state, 'Flow mappings ({...}) are not supported');
+  return unquote(text);
+}
+
+// Lines indented deeper than the parent, joined as-is (|) or folded into paragraphs (>)
+function parseBlockScalar(state: ParserState, parentIndent: number, folded: boolean): string {
+  const lines: string[] = [];
+  let blockIndent = -1;
+
+  while (state.pos < state.lines.length) {
+    const line = state.lines[state.pos];
+    if (line.trim() === '') {
+      lines.push('');
+      state.pos++;
+      continue;
+    }
+    const indent = indentOf(line);
+    if (indent <= parentIndent) break;
+    if (blockIndent === -1) blockIndent = indent;
+    lines.push(line.slice(Math.min(indent, blockIndent)));
+    state.pos++;
+  }
+
+  while (lines.length > 0 && lines[lines.length - 1] === '') lines.pop();
+  if (!folded) return lines.join('\n');
+
+  return lines
+    .join('\n')
+    .split(/\n{2,}/)
+    .map((paragraph) => paragraph.replace(/\n/g, ' '))
+    .join('\n');
+}
+
+// Value after "key:" or "- ": inline, block scalar, nested block or empty
+function parseValue(state: ParserState, text: string, indent: number, allowSameIndentSequence: boolean): YAMLValue {
+  if (/^[|>][+-]?$/.test(text)) {
+    state.pos++;
+    return parseBlockScalar(state, indent, text.startsWith('>'));
+  }
+  if (text) {
+    const value = parseInline(state, text);
+    state.pos++;
+    return value;
+  }
+
+  state.pos++;
+  skipBlank(state);
+  if (state.pos >= state.lines.length) return '';
+
+  const line = state.lines[state.pos];
+  const childIndent = indentOf(line);
+  // "key:" followed by "- item" at the key's own indentation is common style
+  if (childIndent > indent || (allowSameIndentSequence && childIndent === indent && isSequenceItem(line.trim()))) {
+    return parseBlock(state, childIndent);
+  }
+  return '';
+}
+
+function parseSequence(state: ParserState, indent: number): YAMLValue[] {
+  const items: YAMLValue[] = [];
+
+  for (skipBlank(state); state.pos < state.lines.length; skipBlank(state)) {
+    const line = state.lines[state.pos];
+    const lineIndent = indentOf(line);
+    if (lineIndent < indent) break;
+    if (lineIndent > indent) throw yamlError(state, 'Unexpected indentation');
+
+    const content = stripComment(line.trim());
+    if (!isSequenceItem(content)) break;
+
+    const rest = content.slice(1).trimStart();
+    if (/^("[^"]*"|'[^']*'|[^\s"'[{#][^:#]*?)\s*:(\s|$)/.test(rest)) {
+      // "- key: value" starts a mapping indented to where the key begins
+      const keyIndent = lineIndent + content.length - rest.length;
+      state.lines[state.pos] = ' '.repeat(keyIndent) + rest;
+      items.push(parseMapping(state, keyIndent));
+    } else {
+      items.push(parseValue(state, rest, lineIndent, false));
+    }
+  }
+
+  return items;
+}
+
+function parseMapping(state: ParserState, indent: number): { [key: string]: YAMLValue } {
+  // No prototype, so keys like "constructor" or "toString" are just keys
+  const map: { [key: string]: YAMLValue } = Object.create(null);
+
+  for (skipBlank(state); state.pos < state.lines.length; skipBlank(state)) {
+    const line = state.lines[state.pos];
+    const lineIndent = indentOf(line);
+    if (lineIndent < indent) break;
+    if (lineIndent > indent) throw yamlError(state, 'Unexpected indentation');
+
+    const content = stripComment(line.trim());
+    if (isSequenceItem(content)) break;
+
+    const match = content.match(/^("(?:[^"\\]|\\.)*"|'(?:[^']|'')*'|[^:]+?)\s*:(?:\s+(.*))?$/);
+    if (!match) throw yamlError(state, 'Expected "key: value"');
+
+    const key = unquote(match[1].trim());
+    if (key in map) throw yamlError(state, `Duplicate key "${key}"`);
+    map[key] = parseValue(state, (match[2] ?? '').trim(), lineIndent, true);
+  }
+
+  return map;
+}
+
+function parseBlock(state: ParserState, indent: number): YAMLValue {
+  skipBlank(state);
+  const content = stripComment(state.lines[state.pos].trim());
+  return isSequenceItem(content) ? parseSequence(state, indent) : parseMapping(state, indent);
+}
+
+export function parseYAML(text: string): YAMLValue {
+  // Strip UTF-8 BOM
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const state: ParserState = { lines: input.split(/\r?\n/), pos: 0 };
+
+  if (state.lines.some((line) => /^\t/.test(line))) {
+    throw new Error('YAML must be indented with spaces, not tabs');
+  }
+
+  skipBlank(state);
+  if (state.lines[state.pos]?.trim() === '---') state.pos++;
+  skipBlank(state);
+  if (state.pos >= state.lines.length) return {};
+
+  const value = parseBlock(state, indentOf(state.lines[state.pos]));
+  skipBlank(state);
+  if (state.pos < state.lines.length) throw yamlError(state, 'Unexpected indentation');
+  return value;
+}
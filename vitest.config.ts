@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config';
+import { WxtVitest } from 'wxt/testing/vitest-plugin';
+
+export default defineConfig({
+  plugins: [WxtVitest()],
+  test: {
+    // Dexie needs an IndexedDB to talk to
+    setupFiles: ['fake-indexeddb/auto'],
+  },
+});
@@ -6,7 +6,9 @@ export default defineConfig({
   manifest: {
     name: 'WorthKeeping',
     description: 'Capture what you did. Remember what mattered.',
-    permissions: ['activeTab', 'storage', 'sidePanel', 'scripting'],
+    permissions: ['activeTab', 'storage', 'sidePanel', 'scripting', 'offscreen', 'alarms', 'notifications'],
+    // Asked for when an Ollama host is set up, so local models can be reached
+    optional_host_permissions: ['http://localhost/*', 'http://127.0.0.1/*'],
     action: {
       default_title: 'Open WorthKeeping',
     },